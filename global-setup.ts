@@ -1,6 +1,7 @@
 import { chromium, type FullConfig } from '@playwright/test';
 import * as fs from 'fs';
 import { Logger } from './src/utils/logger';
+import { TestDataManager } from './src/utils/test-data-manager';
 
 const logger = new Logger('GlobalSetup');
 
@@ -8,6 +9,9 @@ async function globalSetup(_config: FullConfig): Promise<void> {
   logger.info('Starting global setup...');
 
   try {
+    // Refuse to start the run with malformed test data instead of failing inside a test
+    await new TestDataManager(process.env['TEST_ENV'] || 'staging').initialize();
+
     // Launch browser for authentication if needed
     const browser = await chromium.launch();
     const context = await browser.newContext();
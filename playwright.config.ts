@@ -1,8 +1,15 @@
 import { defineConfig, devices } from '@playwright/test';
 import type { TestOptions } from './src/types/test-options';
+import { httpbinMock } from './src/mocks/httpbin-mock';
+import type { RecordingMode } from './src/utils/api-recorder';
 
 const isCI = !!process.env['CI'];
 
+// Serve the api project from the in-process httpbin mock unless a live API is configured
+const useApiMock = process.env['API_MOCK']
+  ? process.env['API_MOCK'] === 'true'
+  : !process.env['API_BASE_URL'];
+
 /**
  * See https://playwright.dev/docs/test-configuration.
  */
@@ -78,6 +85,9 @@ export default defineConfig<TestOptions>({
     // Custom test options
     environment: process.env['TEST_ENV'] || 'staging',
     apiBaseURL: process.env['API_BASE_URL'] || 'https://httpbin.org',
+    apiRecording: {
+      mode: (process.env['API_RECORD_MODE'] as RecordingMode | undefined) || 'off',
+    },
 
     // User agent
     userAgent: 'Playwright Test Automation Framework',
@@ -164,6 +174,7 @@ export default defineConfig<TestOptions>({
       testMatch: '**/api/**/*.spec.ts',
       use: {
         baseURL: process.env['API_BASE_URL'] || 'https://httpbin.org',
+        ...(useApiMock && { mockApi: httpbinMock }),
       },
     },
 
@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+
+/**
+ * Generate JSON schemas from TypeScript interfaces: the test data and the API response bodies.
+ *
+ * The schemas are written to src/schemas in JSON Schema draft 2020-12 (the draft used by
+ * SchemaValidator). Re-run after changing the interfaces: npm run generate:schemas
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { createGenerator } = require('ts-json-schema-generator');
+
+const root = path.join(__dirname, '..');
+
+const schemas = [
+  {
+    type: 'TestData',
+    source: 'src/types/test-data.ts',
+    output: 'src/schemas/test-data.schema.json',
+    title: 'Test data',
+  },
+  {
+    type: 'Post',
+    source: 'src/types/api-responses.ts',
+    output: 'src/schemas/post.schema.json',
+    title: 'Post',
+  },
+  {
+    type: 'PostList',
+    source: 'src/types/api-responses.ts',
+    output: 'src/schemas/post-list.schema.json',
+    title: 'Post list',
+  },
+];
+
+/**
+ * Move `definitions` to `$defs` and point the references at them
+ */
+function toDraft2020(schema, id, title) {
+  const { $schema: _draft, definitions = {}, ...rest } = schema;
+  const retarget = (value) =>
+    JSON.parse(JSON.stringify(value).replace(/#\/definitions\//g, '#/$defs/'));
+
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: id,
+    title,
+    ...retarget(rest),
+    $defs: retarget(definitions),
+  };
+}
+
+for (const { type, source, output, title } of schemas) {
+  const generator = createGenerator({
+    path: path.join(root, source),
+    tsconfig: path.join(root, 'tsconfig.json'),
+    type,
+    topRef: false,
+    additionalProperties: false,
+    skipTypeCheck: true,
+  });
+
+  const schema = toDraft2020(generator.createSchema(type), path.basename(output), title);
+  fs.writeFileSync(path.join(root, output), JSON.stringify(schema, null, 2) + '\n');
+  console.log(`✅ ${type} -> ${output}`);
+}
@@ -0,0 +1,293 @@
+import { test, type ExpectMatcherState, type MatcherReturnType } from '@playwright/test';
+import * as path from 'path';
+import { ApiSnapshot, type ApiSnapshotOptions } from '../utils/api-snapshot';
+import { SchemaValidator } from '../utils/schema-validator';
+import { ValueExtractor } from '../utils/value-extractor';
+import type { ApiResponse } from '../types/test-data';
+
+/**
+ * Expected status: a code, a list of codes or a class such as `2xx`
+ */
+export type ExpectedStatus = number | number[] | `${1 | 2 | 3 | 4 | 5}xx`;
+
+const MAX_BODY_LENGTH = 500;
+const schemaValidator = new SchemaValidator(path.join(process.cwd(), 'src', 'schemas'));
+const valueExtractor = new ValueExtractor();
+
+/**
+ * Method, URL, status and (truncated) body of a response, for failure messages
+ */
+function describeResponse(response: ApiResponse): string {
+  const call = response.request
+    ? `${response.request.method} ${response.request.url}`
+    : '(request unknown)';
+  let body: string;
+  if (Buffer.isBuffer(response.data)) {
+    body = `<${response.data.length} bytes of binary data>`;
+  } else {
+    body = typeof response.data === 'string' ? response.data : JSON.stringify(response.data) || '';
+    if (body.length > MAX_BODY_LENGTH) {
+      body = `${body.slice(0, MAX_BODY_LENGTH)}... (${body.length} characters)`;
+    }
+  }
+
+  return `Request:  ${call}\nStatus:   ${response.status} ${response.statusText}\nBody:     ${body}`;
+}
+
+/**
+ * Deep equality that honors asymmetric matchers (`expect.any(String)`). With `partial`,
+ * objects only need the expected fields.
+ */
+function matches(actual: unknown, expected: unknown, partial = false): boolean {
+  if (expected && typeof expected === 'object' && 'asymmetricMatch' in expected) {
+    return (expected as { asymmetricMatch: (other: unknown) => boolean }).asymmetricMatch(actual);
+  }
+  if (Array.isArray(expected)) {
+    return (
+      Array.isArray(actual) &&
+      actual.length === expected.length &&
+      expected.every((item, index) => matches(actual[index], item, partial))
+    );
+  }
+  if (expected && typeof expected === 'object') {
+    if (!actual || typeof actual !== 'object' || Array.isArray(actual)) {
+      return false;
+    }
+    const actualRecord = actual as Record<string, unknown>;
+    const expectedEntries = Object.entries(expected);
+    return (
+      (partial || Object.keys(actualRecord).length === expectedEntries.length) &&
+      expectedEntries.every(
+        ([key, value]) => key in actualRecord && matches(actualRecord[key], value, partial)
+      )
+    );
+  }
+  return Object.is(actual, expected);
+}
+
+function headerValue(response: ApiResponse, name: string): string | undefined {
+  const header = name.toLowerCase();
+  return Object.entries(response.headers).find(([key]) => key.toLowerCase() === header)?.[1];
+}
+
+/**
+ * Result of an API matcher whose message ends with the response description
+ */
+function matcherResult(
+  state: ExpectMatcherState,
+  name: string,
+  pass: boolean,
+  expectation: string,
+  details: string,
+  response: ApiResponse
+): MatcherReturnType {
+  const hint = state.utils.matcherHint(name, 'response', expectation, { isNot: state.isNot });
+  return {
+    pass,
+    name,
+    message: () => `${hint}\n\n${details}\n\n${describeResponse(response)}`,
+  };
+}
+
+/**
+ * API assertions added to `expect` by the base fixtures
+ */
+export const apiMatchers = {
+  /**
+   * Check the status code against a code, a list of codes or a class (`'2xx'`)
+   */
+  toHaveStatus(
+    this: ExpectMatcherState,
+    response: ApiResponse,
+    expected: ExpectedStatus
+  ): MatcherReturnType {
+    const pass =
+      typeof expected === 'string'
+        ? Math.floor(response.status / 100) === Number(expected[0])
+        : (Array.isArray(expected) ? expected : [expected]).includes(response.status);
+    const expectation = Array.isArray(expected) ? expected.join(' | ') : String(expected);
+
+    return matcherResult(
+      this,
+      'toHaveStatus',
+      pass,
+      expectation,
+      `Expected status: ${this.isNot ? 'not ' : ''}${this.utils.printExpected(expected)}\n` +
+        `Received status: ${this.utils.printReceived(response.status)}`,
+      response
+    );
+  },
+
+  /**
+   * Check that the response arrived within `maxTime` milliseconds
+   */
+  toRespondWithin(
+    this: ExpectMatcherState,
+    response: ApiResponse,
+    maxTime: number
+  ): MatcherReturnType {
+    return matcherResult(
+      this,
+      'toRespondWithin',
+      response.responseTime <= maxTime,
+      `${maxTime}ms`,
+      `Expected response time: ${this.isNot ? '> ' : '<= '}${maxTime}ms\n` +
+        `Received response time: ${response.responseTime}ms`,
+      response
+    );
+  },
+
+  /**
+   * Validate the body against a JSON schema object or a reference to a schema in
+   * `src/schemas` (its `$id` or relative path), listing every mismatch
+   */
+  toMatchSchema(
+    this: ExpectMatcherState,
+    response: ApiResponse,
+    schema: object | string
+  ): MatcherReturnType {
+    const validation = schemaValidator.validate(response.data, schema);
+    const schemaName = typeof schema === 'string' ? schema : 'schema';
+    const details = validation.valid
+      ? `Body matches ${schemaName}`
+      : `Body does not match ${schemaName}:\n` +
+        validation.errors.map((error) => `  ${error.path || '/'}: ${error.message}`).join('\n');
+
+    return matcherResult(this, 'toMatchSchema', validation.valid, schemaName, details, response);
+  },
+
+  /**
+   * Check that a header is present (case-insensitive), optionally with a value or pattern
+   */
+  toHaveHeader(
+    this: ExpectMatcherState,
+    response: ApiResponse,
+    name: string,
+    value?: string | RegExp
+  ): MatcherReturnType {
+    const actual = headerValue(response, name);
+    const pass =
+      actual !== undefined &&
+      (value === undefined || (value instanceof RegExp ? value.test(actual) : actual === value));
+    const expectation = value === undefined ? `'${name}'` : `'${name}', ${String(value)}`;
+
+    return matcherResult(
+      this,
+      'toHaveHeader',
+      pass,
+      expectation,
+      `Expected header: ${this.isNot ? 'not ' : ''}${name}` +
+        (value === undefined ? '' : `: ${this.utils.printExpected(value)}`) +
+        `\nReceived: ${actual === undefined ? 'no such header' : this.utils.printReceived(actual)}`,
+      response
+    );
+  },
+
+  /**
+   * Check that a JSONPath resolves in the body, optionally to a value (asymmetric
+   * matchers such as `expect.any(Number)` are supported)
+   */
+  toHaveJsonPath(
+    this: ExpectMatcherState,
+    response: ApiResponse,
+    jsonPath: string,
+    ...expected: [] | [value: unknown]
+  ): MatcherReturnType {
+    let found = true;
+    let actual: unknown;
+    try {
+      actual = valueExtractor.extract(response.data, jsonPath);
+    } catch (error) {
+      found = false;
+      actual = (error as Error).message;
+    }
+    const hasValue = expected.length > 0;
+    const pass = found && (!hasValue || matches(actual, expected[0]));
+
+    return matcherResult(
+      this,
+      'toHaveJsonPath',
+      pass,
+      hasValue ? `'${jsonPath}', ${this.utils.printExpected(expected[0])}` : `'${jsonPath}'`,
+      (hasValue
+        ? `Expected ${jsonPath}: ${this.isNot ? 'not ' : ''}${this.utils.printExpected(expected[0])}\n`
+        : `Expected ${jsonPath} ${this.isNot ? 'not ' : ''}to exist\n`) +
+        (found ? `Received: ${this.utils.printReceived(actual)}` : `Not found: ${actual}`),
+      response
+    );
+  },
+
+  /**
+   * Check that the body (or the array at `itemsPath`) contains an item. Object items
+   * match partially: the array element may have more fields than `item`.
+   */
+  toContainItem(
+    this: ExpectMatcherState,
+    response: ApiResponse,
+    item: unknown,
+    itemsPath?: string
+  ): MatcherReturnType {
+    let items: unknown[] | null;
+    try {
+      const value = itemsPath ? valueExtractor.extract(response.data, itemsPath) : response.data;
+      items = Array.isArray(value) ? value : null;
+    } catch {
+      items = null;
+    }
+    const pass = items !== null && items.some((element) => matches(element, item, true));
+    const location = itemsPath || 'body';
+
+    return matcherResult(
+      this,
+      'toContainItem',
+      pass,
+      itemsPath ? `item, '${itemsPath}'` : 'item',
+      items
+        ? `Expected ${location} ${this.isNot ? 'not ' : ''}to contain ${this.utils.printExpected(item)}\n` +
+            `Received ${items.length} item(s)`
+        : `Expected ${location} to be an array, found none`,
+      response
+    );
+  },
+
+  /**
+   * Compare a response (status, masked body and optionally headers) with a snapshot stored
+   * next to the spec. The first run writes the snapshot; `--update-snapshots` rewrites it.
+   * Negated assertions never write, and fail when the snapshot is missing.
+   */
+  toMatchApiSnapshot(
+    this: ExpectMatcherState,
+    response: ApiResponse,
+    nameOrOptions?: string | ApiSnapshotOptions,
+    options?: ApiSnapshotOptions
+  ): MatcherReturnType {
+    const name = typeof nameOrOptions === 'string' ? nameOrOptions : undefined;
+    const snapshotOptions = typeof nameOrOptions === 'object' ? nameOrOptions : options;
+    const result = new ApiSnapshot(test.info(), this.isNot).match(response, name, snapshotOptions);
+
+    const hint = this.utils.matcherHint('toMatchApiSnapshot', 'response', name ? `'${name}'` : '', {
+      isNot: this.isNot,
+    });
+    const message = (): string => {
+      if (result.status === 'missing') {
+        return `${hint}\n\nSnapshot ${result.snapshotPath} is missing and snapshot updates are disabled`;
+      }
+      if (this.isNot) {
+        return `${hint}\n\nResponse matches snapshot ${result.snapshotPath}`;
+      }
+      return (
+        `${hint}\n\nResponse does not match snapshot ${result.snapshotPath}` +
+        ` (run with --update-snapshots to accept the change)\n\n` +
+        (this.utils.diff(result.expected, result.actual) || '')
+      );
+    };
+
+    return {
+      pass: result.status === 'missing' ? this.isNot : result.pass,
+      message,
+      name: 'toMatchApiSnapshot',
+      expected: result.expected,
+      actual: result.actual,
+    };
+  },
+};
@@ -1,9 +1,20 @@
-import { test as base } from '@playwright/test';
+import { test as base, expect as baseExpect } from '@playwright/test';
 import type { TestOptions } from '../types/test-options';
 import { TestDataManager } from '../utils/test-data-manager';
+import { DataFactory } from '../utils/data-factory';
+import * as path from 'path';
+import { apiMatchers } from './api-matchers';
 import { ApiClient } from '../utils/api-client';
+import { ApiRecorder } from '../utils/api-recorder';
+import { GraphQLClient } from '../utils/graphql-client';
+import { LoadRunner } from '../utils/load-runner';
+import { MockServer } from '../utils/mock-server';
+import { RealtimeClient } from '../utils/realtime-client';
+import { RequestTimer } from '../utils/request-timing';
+import { SecretStore } from '../utils/secret-store';
 import { Logger } from '../utils/logger';
 import { ScreenshotHelper } from '../utils/screenshot-helper';
+import { SessionHelper } from '../utils/session-helper';
 import { VideoHelper } from '../utils/video-helper';
 import { PerformanceHelper } from '../utils/performance-helper';
 import { AccessibilityHelper } from '../utils/accessibility-helper';
@@ -13,7 +24,14 @@ export const test = base.extend<
   TestOptions & {
     // Utility fixtures
     testDataManager: TestDataManager;
+    dataFactory: DataFactory;
     apiClient: ApiClient;
+    sharedApiClient: ApiClient;
+    mockServer: MockServer;
+    graphqlClient: GraphQLClient;
+    loadRunner: LoadRunner;
+    realtimeClient: RealtimeClient;
+    session: SessionHelper;
     logger: Logger;
     screenshotHelper: ScreenshotHelper;
     videoHelper: VideoHelper;
@@ -37,6 +55,15 @@ export const test = base.extend<
     { option: true },
   ],
 
+  // API recording fixture with default value (set API_RECORD_MODE to record or replay)
+  apiRecording: [{ mode: 'off' }, { option: true }],
+
+  // Mock API fixture with default value (disabled)
+  mockApi: [undefined, { option: true }],
+
+  // Session sharing fixture with default value (API client and browser keep separate cookies)
+  shareApiSession: [false, { option: true }],
+
   // Test data manager fixture
   testDataManager: async ({ environment }, use) => {
     const testDataManager = new TestDataManager(environment);
@@ -45,13 +72,103 @@ export const test = base.extend<
     await testDataManager.cleanup();
   },
 
-  // API client fixture
-  apiClient: async ({ apiBaseURL, apiConfig }, use) => {
-    const apiClient = new ApiClient(apiBaseURL, apiConfig);
+  // Seeded data factory fixture (the seed is annotated on the test; set TEST_DATA_SEED to reuse it)
+  dataFactory: async ({}, use, testInfo) => {
+    const dataFactory = new DataFactory();
+    testInfo.annotations.push({
+      type: DataFactory.annotationType,
+      description: String(dataFactory.seed),
+    });
+    await use(dataFactory);
+  },
+
+  // Mock server fixture (started only when mockApi is set)
+  mockServer: async ({ mockApi }, use) => {
+    const mockServer = new MockServer(mockApi);
+    if (mockApi) {
+      await mockServer.start();
+    }
+    await use(mockServer);
+    await mockServer.stop();
+  },
+
+  // API client fixture (targets the mock server when mockApi is set)
+  apiClient: async (
+    { apiBaseURL, apiConfig, apiRecording, mockApi, mockServer },
+    use,
+    testInfo
+  ) => {
+    const recorder =
+      apiRecording && apiRecording.mode !== 'off'
+        ? new ApiRecorder(
+            ApiRecorder.cassettePathFor(
+              apiRecording.dir || path.join('tests', 'cassettes'),
+              testInfo.file,
+              testInfo.titlePath.slice(1)
+            ),
+            apiRecording
+          )
+        : null;
+    const apiClient = new ApiClient(mockApi ? mockServer.url : apiBaseURL, {
+      ...apiConfig,
+      ...(recorder && { recorder }),
+    });
     await use(apiClient);
+
+    // Keep every call in a per-test HAR file and attach the calls when the test fails
+    const callLog = apiClient.getCallLog();
+    if (callLog.entries.length > 0) {
+      callLog.saveHar(testInfo.outputPath('api-calls.har'));
+      if (testInfo.status !== 'passed' && testInfo.status !== 'skipped') {
+        await callLog.attachTo(testInfo);
+      }
+    }
+
+    // Network timings for the per-endpoint performance report
+    const timedCalls = RequestTimer.fromCalls(callLog.entries);
+    if (timedCalls.length > 0) {
+      await testInfo.attach(RequestTimer.attachmentName, {
+        body: JSON.stringify(SecretStore.redactValue(timedCalls)),
+        contentType: 'application/json',
+      });
+    }
     await apiClient.cleanup();
   },
 
+  // GraphQL client fixture (shares the API client's request context)
+  graphqlClient: async ({ apiClient }, use) => {
+    const graphqlClient = new GraphQLClient(apiClient);
+    await use(graphqlClient);
+  },
+
+  // Load runner fixture (drives the API client with virtual users)
+  loadRunner: async ({ apiClient }, use, testInfo) => {
+    const loadRunner = new LoadRunner(apiClient, testInfo);
+    await use(loadRunner);
+  },
+
+  // Realtime client fixture (WebSocket and SSE connections, frame logs attached to the test)
+  realtimeClient: async ({ apiClient }, use, testInfo) => {
+    const realtimeClient = new RealtimeClient(apiClient, testInfo);
+    await use(realtimeClient);
+    await realtimeClient.cleanup();
+  },
+
+  // API client fixture sharing the browser context's cookie jar when shareApiSession is set
+  sharedApiClient: async ({ apiClient, context, shareApiSession }, use) => {
+    // Route API client calls through the context so both use one cookie jar
+    if (shareApiSession) {
+      await apiClient.useBrowserContext(context);
+    }
+    await use(apiClient);
+  },
+
+  // Session helper fixture (moves the login session between the API client and the browser)
+  session: async ({ sharedApiClient, context }, use) => {
+    const session = new SessionHelper(sharedApiClient, context);
+    await use(session);
+  },
+
   // Logger fixture
   logger: async ({}, use, testInfo) => {
     const logger = new Logger(testInfo.title);
@@ -147,4 +264,5 @@ export const test = base.extend<
   },
 });
 
-export { expect } from '@playwright/test';
+// Extend expect with the API assertions
+export const expect = baseExpect.extend(apiMatchers);
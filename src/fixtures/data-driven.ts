@@ -0,0 +1,142 @@
+import type { TestDetails, TestInfo } from '@playwright/test';
+import type { SearchQuery, UrlData } from '../types/test-data';
+import { TestDataManager } from '../utils/test-data-manager';
+
+/**
+ * Type of the annotation naming the record a generated test runs with
+ */
+export const DATA_RECORD_ANNOTATION = 'data-record';
+
+export interface SearchQueryFilter {
+  category?: SearchQuery['category'];
+  expectedBehavior?: SearchQuery['expectedBehavior'];
+}
+
+export interface UrlFilter {
+  environment?: string;
+}
+
+export interface TestEachOptions<T> {
+  /**
+   * Tags added to every generated test, e.g. `@api`
+   */
+  tag?: string[];
+
+  /**
+   * Tags of the test generated for a record (default: `@<value>` of its `category`,
+   * `expectedBehavior`, `environment` and `role` fields)
+   */
+  tags?: (record: T) => string[];
+}
+
+/**
+ * Declares a test with details, as Playwright's `test(title, details, body)` does
+ */
+export type TestRegistrar<Args> = (
+  title: string,
+  details: TestDetails,
+  body: (args: Args, testInfo: TestInfo) => Promise<void>
+) => void;
+
+/**
+ * Fields of a record that become tags by default
+ */
+const TAG_FIELDS = ['category', 'expectedBehavior', 'environment', 'role'];
+
+/**
+ * Test data managers per environment, loaded once per process at collection time
+ */
+const managers = new Map<string, TestDataManager>();
+
+/**
+ * Test data of an environment (default `TEST_ENV`, as in the Playwright config)
+ */
+function testData(environment = process.env['TEST_ENV'] || 'staging'): TestDataManager {
+  let manager = managers.get(environment);
+  if (!manager) {
+    manager = new TestDataManager(environment);
+    manager.initializeSync();
+    managers.set(environment, manager);
+  }
+  return manager;
+}
+
+/**
+ * Search queries of the test data, filtered like `getSearchQueriesByCategory` and
+ * `getSearchQueriesByBehavior`
+ */
+export function searchQueryRecords(filter?: SearchQueryFilter, environment?: string) {
+  const manager = testData(environment);
+  const byCategory = filter?.category
+    ? manager.getSearchQueriesByCategory(filter.category)
+    : manager.getSearchQueries();
+  const byBehavior = filter?.expectedBehavior
+    ? manager.getSearchQueriesByBehavior(filter.expectedBehavior)
+    : byCategory;
+  return byCategory.filter((query) => byBehavior.includes(query));
+}
+
+/**
+ * URLs of the test data, optionally of one environment
+ */
+export function urlRecords(filter?: UrlFilter, environment?: string): UrlData[] {
+  return testData(environment)
+    .getUrls()
+    .filter((url) => !filter?.environment || url.environment === filter.environment);
+}
+
+/**
+ * Generate one test per record, titled `<collection> [<id>]` so its title and test ID stay
+ * stable when records are added, reordered or reworded. Tags come from the record and the
+ * record is annotated on the test.
+ *
+ * `body` returns the test function of a record: Playwright reads the fixtures a test uses
+ * from the destructuring of that function, so it cannot be wrapped. Reporters locate the
+ * generated tests at this helper; the annotation and title identify the record.
+ *
+ * ```ts
+ * testEach(test, 'search', searchQueryRecords({ category: 'valid' }), (query) => async ({ page }) => {
+ *   ...
+ * });
+ * ```
+ */
+export function testEach<T extends { id: string }, Args extends object>(
+  test: TestRegistrar<Args>,
+  collection: string,
+  records: readonly T[],
+  body: (record: T) => (args: Args, testInfo: TestInfo) => Promise<void>,
+  options?: TestEachOptions<T>
+): void {
+  const seen = new Set<string>();
+  for (const record of records) {
+    if (seen.has(record.id)) {
+      throw new Error(
+        `Duplicate id '${record.id}' in ${collection}: generated tests need unique ids`
+      );
+    }
+    seen.add(record.id);
+
+    test(
+      `${collection} [${record.id}]`,
+      {
+        tag: [...(options?.tag || []), ...(options?.tags || defaultTags)(record)].map(toTag),
+        annotation: { type: DATA_RECORD_ANNOTATION, description: `${collection}/${record.id}` },
+      },
+      body(record)
+    );
+  }
+}
+
+function defaultTags(record: object): string[] {
+  return TAG_FIELDS.flatMap((field) => {
+    const value = (record as Record<string, unknown>)[field];
+    return typeof value === 'string' ? [value] : [];
+  });
+}
+
+/**
+ * Playwright tag for a value: prefixed with `@`, without whitespace
+ */
+function toTag(value: string): string {
+  return `@${value.replace(/^@/, '').replace(/\s+/g, '-')}`;
+}
@@ -0,0 +1,98 @@
+import * as crypto from 'crypto';
+import type { MockRequest, MockServerConfig } from '../utils/mock-server';
+
+/**
+ * Capitalize header names the way httpbin echoes them (`user-agent` becomes `User-Agent`)
+ */
+function echoHeaders(request: MockRequest): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(request.headers)) {
+    headers[name.replace(/(^|-)([a-z])/g, (_match, dash, letter) => dash + letter.toUpperCase())] =
+      value;
+  }
+  return headers;
+}
+
+/**
+ * httpbin echo of the request line and headers
+ */
+function echo(request: MockRequest): Record<string, any> {
+  return {
+    args: request.query,
+    headers: echoHeaders(request),
+    origin: '127.0.0.1',
+    url: request.url,
+  };
+}
+
+/**
+ * httpbin echo including the request body
+ */
+function bodyEcho(request: MockRequest): Record<string, any> {
+  const isJson = request.headers['content-type']?.includes('application/json') ?? false;
+  const isForm = request.headers['content-type']?.includes('x-www-form-urlencoded') ?? false;
+  return {
+    ...echo(request),
+    data: isJson ? JSON.stringify(request.body) : isForm ? '' : request.body || '',
+    files: {},
+    form: isForm ? request.body : {},
+    json: isJson ? request.body : null,
+  };
+}
+
+const posts = Array.from({ length: 10 }, (_value, index) => ({
+  id: index + 1,
+  title: `Post ${index + 1}`,
+  body: `Body of post ${index + 1}`,
+  userId: (index % 3) + 1,
+}));
+
+/**
+ * Hermetic stand-in for the httpbin.org endpoints (plus the `/posts` resource)
+ * exercised by the API test suite
+ */
+export const httpbinMock: MockServerConfig = {
+  routes: [
+    { method: 'GET', path: '/get', response: (request) => ({ body: echo(request) }) },
+    { method: 'POST', path: '/post', response: (request) => ({ body: bodyEcho(request) }) },
+    { method: 'PUT', path: '/put', response: (request) => ({ body: bodyEcho(request) }) },
+    { method: 'PATCH', path: '/patch', response: (request) => ({ body: bodyEcho(request) }) },
+    { method: 'DELETE', path: '/delete', response: (request) => ({ body: bodyEcho(request) }) },
+    {
+      method: 'GET',
+      path: '/json',
+      response: {
+        body: {
+          slideshow: {
+            author: 'Yours Truly',
+            date: 'date of publication',
+            title: 'Sample Slide Show',
+            slides: [
+              { title: 'Wake up to WonderWidgets!', type: 'all' },
+              {
+                title: 'Overview',
+                type: 'all',
+                items: ['Why <em>WonderWidgets</em> are great', 'Who <em>buys</em> WonderWidgets'],
+              },
+            ],
+          },
+        },
+      },
+    },
+    { method: 'GET', path: '/uuid', response: () => ({ body: { uuid: crypto.randomUUID() } }) },
+    ...['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].map((method) => ({
+      method,
+      path: '/status/{code}',
+      response: (request: MockRequest) => ({ status: Number(request.params['code']) }),
+    })),
+    { method: 'GET', path: '/posts', response: { body: posts } },
+    {
+      method: 'GET',
+      path: '/posts/{id}',
+      response: (request) => {
+        const post = posts.find((candidate) => String(candidate.id) === request.params['id']);
+        return post ? { body: post } : { status: 404, body: {} };
+      },
+    },
+  ],
+};
@@ -1,5 +1,11 @@
 import type { Reporter, TestCase, TestResult, FullResult } from '@playwright/test/reporter';
+import { DataFactory, TEST_DATA_SEED_ENV } from '../utils/data-factory';
+import { LoadRunner, type LoadTestResult } from '../utils/load-runner';
 import { Logger } from '../utils/logger';
+import { OpenApiValidator } from '../utils/openapi-validator';
+import { RealtimeClient, type RealtimeConnectionLog } from '../utils/realtime-client';
+import { RequestTimer, type EndpointPerformance, type TimedCall } from '../utils/request-timing';
+import { SecretStore } from '../utils/secret-store';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -19,6 +25,10 @@ export default class CustomReporter implements Reporter {
     duration: number;
     error?: string;
     projectName: string;
+    loadTests?: LoadTestResult[];
+    realtime?: RealtimeConnectionLog[];
+    apiTimings?: TimedCall[];
+    dataSeed?: number;
   }> = [];
 
   constructor() {
@@ -35,6 +45,9 @@ export default class CustomReporter implements Reporter {
     if (!fs.existsSync(reportDir)) {
       fs.mkdirSync(reportDir, { recursive: true });
     }
+
+    // Drop OpenAPI coverage recorded by a previous run
+    OpenApiValidator.resetCoverage();
   }
 
   onTestBegin(test: TestCase): void {
@@ -51,6 +64,10 @@ export default class CustomReporter implements Reporter {
       duration: number;
       error?: string;
       projectName: string;
+      loadTests?: LoadTestResult[];
+      realtime?: RealtimeConnectionLog[];
+      apiTimings?: TimedCall[];
+      dataSeed?: number;
     } = {
       title: test.title,
       status,
@@ -58,8 +75,39 @@ export default class CustomReporter implements Reporter {
       projectName: test.parent.project()?.name || 'unknown',
     };
 
+    // Secrets resolved by global setup's test data load are masked in every report
     if (result.error?.message) {
-      resultData.error = result.error.message;
+      resultData.error = SecretStore.redact(result.error.message);
+    }
+
+    const loadTests = result.attachments
+      .filter((attachment) => attachment.name === LoadRunner.attachmentName && attachment.body)
+      .map((attachment) => this.readAttachment<LoadTestResult>(attachment.body as Buffer));
+    if (loadTests.length > 0) {
+      resultData.loadTests = loadTests;
+    }
+
+    const realtime = result.attachments
+      .filter((attachment) => attachment.name === RealtimeClient.attachmentName && attachment.body)
+      .flatMap((attachment) =>
+        this.readAttachment<RealtimeConnectionLog[]>(attachment.body as Buffer)
+      );
+    if (realtime.length > 0) {
+      resultData.realtime = realtime;
+    }
+
+    const apiTimings = result.attachments
+      .filter((attachment) => attachment.name === RequestTimer.attachmentName && attachment.body)
+      .flatMap((attachment) => this.readAttachment<TimedCall[]>(attachment.body as Buffer));
+    if (apiTimings.length > 0) {
+      resultData.apiTimings = apiTimings;
+    }
+
+    const dataSeed = test.annotations.find(
+      (annotation) => annotation.type === DataFactory.annotationType
+    )?.description;
+    if (dataSeed !== undefined) {
+      resultData.dataSeed = Number(dataSeed);
     }
 
     this.results.push(resultData);
@@ -72,6 +120,7 @@ export default class CustomReporter implements Reporter {
       case 'failed':
         this.failedTests++;
         this.logger.error(`✗ ${test.title} (${duration}ms)`, result.error?.message);
+        this.logDataSeed(resultData.dataSeed);
         break;
       case 'skipped':
         this.skippedTests++;
@@ -80,6 +129,7 @@ export default class CustomReporter implements Reporter {
       case 'timedOut':
         this.failedTests++;
         this.logger.error(`⏰ ${test.title} (timed out after ${duration}ms)`);
+        this.logDataSeed(resultData.dataSeed);
         break;
     }
   }
@@ -105,6 +155,9 @@ export default class CustomReporter implements Reporter {
     this.generateHTMLReport();
     this.generateCSVReport();
     this.generateMetricsReport();
+    this.generateOpenApiCoverageReport();
+    this.generateLoadTestReport();
+    this.generateRealtimeReport();
 
     // Send notifications if configured
     if (process.env['ENABLE_NOTIFICATIONS'] === 'true') {
@@ -112,6 +165,22 @@ export default class CustomReporter implements Reporter {
     }
   }
 
+  /**
+   * Print the seed of a failed test's data factory, so the run can be reproduced
+   */
+  private logDataSeed(seed: number | undefined): void {
+    if (seed !== undefined) {
+      this.logger.error(`  Data seed: ${seed} (reproduce with ${TEST_DATA_SEED_ENV}=${seed})`);
+    }
+  }
+
+  /**
+   * Parse a JSON attachment with the secrets known to this process masked
+   */
+  private readAttachment<T>(body: Buffer): T {
+    return SecretStore.redactValue(JSON.parse(body.toString('utf-8')) as T);
+  }
+
   private generateJSONReport(): void {
     const report = {
       summary: {
@@ -140,6 +209,7 @@ export default class CustomReporter implements Reporter {
   private generateHTMLReport(): void {
     const successRate = this.totalTests > 0 ? (this.passedTests / this.totalTests) * 100 : 0;
     const duration = Date.now() - this.startTime;
+    const endpoints = this.summarizeEndpoints();
 
     const html = `
 <!DOCTYPE html>
@@ -215,6 +285,7 @@ export default class CustomReporter implements Reporter {
                     <th>Duration</th>
                     <th>Project</th>
                     <th>Error</th>
+                    <th>Data Seed</th>
                 </tr>
             </thead>
             <tbody>
@@ -227,12 +298,55 @@ export default class CustomReporter implements Reporter {
                         <td>${result.duration}ms</td>
                         <td>${result.projectName}</td>
                         <td>${result.error || '-'}</td>
+                        <td>${result.dataSeed ?? '-'}</td>
                     </tr>
                 `
                   )
                   .join('')}
             </tbody>
         </table>
+        ${
+          endpoints.length > 0
+            ? `
+        <h2>API Performance</h2>
+        <table class="results-table">
+            <thead>
+                <tr>
+                    <th>Endpoint</th>
+                    <th>Calls</th>
+                    <th>DNS</th>
+                    <th>Connect</th>
+                    <th>TLS</th>
+                    <th>TTFB</th>
+                    <th>Download</th>
+                    <th>Total</th>
+                    <th>Total (p95)</th>
+                    <th>Response Size</th>
+                </tr>
+            </thead>
+            <tbody>
+                ${endpoints
+                  .map(
+                    (endpoint) => `
+                    <tr>
+                        <td>${endpoint.endpoint}</td>
+                        <td>${endpoint.calls}</td>
+                        <td>${endpoint.average.dns}ms</td>
+                        <td>${endpoint.average.connect}ms</td>
+                        <td>${endpoint.average.tls}ms</td>
+                        <td>${endpoint.average.ttfb}ms</td>
+                        <td>${endpoint.average.download}ms</td>
+                        <td>${endpoint.average.total}ms</td>
+                        <td>${endpoint.p95.total}ms</td>
+                        <td>${endpoint.responseBytes.average} B</td>
+                    </tr>
+                `
+                  )
+                  .join('')}
+            </tbody>
+        </table>`
+            : ''
+        }
     </div>
 </body>
 </html>`;
@@ -306,6 +420,7 @@ export default class CustomReporter implements Reporter {
         successRate: Math.round(successRate * 100) / 100,
       },
       projects: projectStats,
+      endpoints: this.summarizeEndpoints(),
       timestamp: new Date().toISOString(),
     };
 
@@ -314,6 +429,76 @@ export default class CustomReporter implements Reporter {
     this.logger.info(`Metrics report generated: ${reportPath}`);
   }
 
+  /**
+   * Average and p95 network timings per endpoint over every test
+   */
+  private summarizeEndpoints(): EndpointPerformance[] {
+    return RequestTimer.summarize(this.results.flatMap((result) => result.apiTimings || []));
+  }
+
+  private generateOpenApiCoverageReport(): void {
+    const coverage = OpenApiValidator.summarizeCoverage();
+    if (coverage.length === 0) {
+      return;
+    }
+
+    for (const spec of coverage) {
+      this.logger.info(
+        `OpenAPI coverage for ${path.basename(spec.spec)}: ${spec.coveredOperations}/${spec.totalOperations} operations`
+      );
+      for (const operation of spec.uncoveredOperations) {
+        this.logger.warn(`Operation not exercised: ${operation}`);
+      }
+      for (const [operation, statuses] of Object.entries(spec.uncoveredStatuses)) {
+        this.logger.warn(`Status codes not exercised for ${operation}: ${statuses.join(', ')}`);
+      }
+    }
+
+    const reportPath = path.join('test-results/custom-reports', 'openapi-coverage.json');
+    fs.writeFileSync(reportPath, JSON.stringify(coverage, null, 2));
+    this.logger.info(`OpenAPI coverage report generated: ${reportPath}`);
+  }
+
+  private generateLoadTestReport(): void {
+    const loadTests = this.results.flatMap((result) =>
+      (result.loadTests || []).map((loadTest) => ({ test: result.title, ...loadTest }))
+    );
+    if (loadTests.length === 0) {
+      return;
+    }
+
+    for (const loadTest of loadTests) {
+      this.logger.info(
+        `Load test '${loadTest.name}': ${loadTest.total.requests} requests, ` +
+          `${loadTest.total.throughput} req/s, p95 ${loadTest.total.latency.p95}ms, ` +
+          `errors ${(loadTest.total.errorRate * 100).toFixed(2)}%`
+      );
+      for (const threshold of loadTest.thresholds.filter((candidate) => !candidate.passed)) {
+        this.logger.warn(`Threshold failed: ${threshold.rule} (actual: ${threshold.actual})`);
+      }
+    }
+
+    const reportPath = path.join('test-results/custom-reports', 'load-tests.json');
+    fs.writeFileSync(reportPath, JSON.stringify(loadTests, null, 2));
+    this.logger.info(`Load test report generated: ${reportPath}`);
+  }
+
+  private generateRealtimeReport(): void {
+    const connections = this.results.flatMap((result) =>
+      (result.realtime || []).map((connection) => ({ test: result.title, ...connection }))
+    );
+    if (connections.length === 0) {
+      return;
+    }
+
+    const frames = connections.reduce((total, connection) => total + connection.frames.length, 0);
+    this.logger.info(`Realtime connections: ${connections.length} (${frames} frames)`);
+
+    const reportPath = path.join('test-results/custom-reports', 'realtime-frames.json');
+    fs.writeFileSync(reportPath, JSON.stringify(connections, null, 2));
+    this.logger.info(`Realtime frame log generated: ${reportPath}`);
+  }
+
   private async sendNotifications(
     _result: FullResult,
     successRate: number,
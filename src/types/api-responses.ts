@@ -0,0 +1,26 @@
+/**
+ * Response bodies of the posts API. The schemas in src/schemas are generated from these
+ * interfaces (npm run generate:schemas), so a declared response type and the schema that
+ * validates it cannot drift apart.
+ */
+
+/**
+ * A blog post
+ */
+export interface Post {
+  /**
+   * @asType integer
+   * @minimum 1
+   */
+  id: number;
+  title: string;
+  body: string;
+
+  /**
+   * @asType integer
+   * @minimum 1
+   */
+  userId: number;
+}
+
+export type PostList = Post[];
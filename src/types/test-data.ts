@@ -8,6 +8,10 @@ export interface TestData {
 export interface User {
   id: string;
   username: string;
+
+  /**
+   * @format email
+   */
   email: string;
   password: string;
   role: 'admin' | 'user' | 'guest';
@@ -17,6 +21,10 @@ export interface User {
 export interface UserProfile {
   firstName: string;
   lastName: string;
+
+  /**
+   * @format date
+   */
   dateOfBirth: string;
   address: Address;
   preferences: UserPreferences;
@@ -40,6 +48,10 @@ export interface UserPreferences {
 export interface SearchQuery {
   id: string;
   query: string;
+
+  /**
+   * @minimum 0
+   */
   expectedResults: number;
   category: 'valid' | 'invalid' | 'edge-case' | 'performance';
   description: string;
@@ -49,15 +61,36 @@ export interface SearchQuery {
 export interface UrlData {
   id: string;
   name: string;
+
+  /**
+   * @format uri
+   */
   url: string;
   environment: string;
+
+  /**
+   * @minimum 100
+   * @maximum 599
+   */
   expectedStatus: number;
+
+  /**
+   * @minimum 0
+   */
   timeout: number;
 }
 
 export interface Environment {
   name: string;
+
+  /**
+   * @format uri
+   */
   baseUrl: string;
+
+  /**
+   * @format uri
+   */
   apiUrl: string;
   features: string[];
   credentials: {
@@ -66,12 +99,64 @@ export interface Environment {
   };
 }
 
+export interface ApiRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  params: Record<string, string>;
+  data?: any;
+}
+
 export interface ApiResponse<T = any> {
   status: number;
   statusText: string;
   headers: Record<string, string>;
   data: T;
   responseTime: number;
+  attempts?: ApiAttempt[];
+
+  /**
+   * Method and URL (with secret query parameters redacted) of the call that returned it
+   */
+  request?: { method: string; url: string };
+
+  /**
+   * Network phases of the exchange, absent for replayed and synthetic responses
+   */
+  timings?: RequestTimings;
+  sizes?: TransferSizes;
+}
+
+/**
+ * Phases of an HTTP exchange in milliseconds. Connection phases are 0 on a reused socket.
+ */
+export interface RequestTimings {
+  dns: number;
+  connect: number;
+  tls: number;
+
+  /**
+   * From the connection being ready until the first response byte (includes sending)
+   */
+  ttfb: number;
+  download: number;
+  total: number;
+}
+
+/**
+ * Bytes sent and received on the socket, headers included
+ */
+export interface TransferSizes {
+  requestBytes: number;
+  responseBytes: number;
+}
+
+export interface ApiAttempt {
+  attempt: number;
+  status?: number;
+  error?: string;
+  duration: number;
+  delay?: number;
 }
 
 export interface PerformanceMetrics {
@@ -1,4 +1,10 @@
 import type { PlaywrightTestOptions } from '@playwright/test';
+import type { ApiCallLogConfig } from '../utils/api-call-log';
+import type { RecordingConfig } from '../utils/api-recorder';
+import type { AuthConfig } from '../utils/auth-providers';
+import type { InterceptorConfig } from '../utils/interceptors';
+import type { MockServerConfig } from '../utils/mock-server';
+import type { RetryConfig } from '../utils/retry-policy';
 
 export interface TestOptions extends PlaywrightTestOptions {
   /**
@@ -59,9 +65,32 @@ export interface TestOptions extends PlaywrightTestOptions {
   apiConfig?: {
     timeout: number;
     retries: number;
+    retryPolicy?: Omit<RetryConfig, 'retries'>;
     headers?: Record<string, string>;
+    schemaDir?: string;
+    openApiSpec?: string;
+    auth?: AuthConfig;
+    protoFiles?: string[];
+    interceptors?: InterceptorConfig;
+    callLog?: ApiCallLogConfig;
   };
 
+  /**
+   * API request/response recording and replay
+   */
+  apiRecording?: RecordingConfig;
+
+  /**
+   * Serve API tests from an in-process mock server instead of apiBaseURL
+   */
+  mockApi?: MockServerConfig;
+
+  /**
+   * Share one cookie jar between the API client and the browser context (linked by the
+   * `sharedApiClient` and `session` fixtures)
+   */
+  shareApiSession?: boolean;
+
   /**
    * Database configuration
    */
@@ -0,0 +1,394 @@
+import type { TestInfo } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  DEFAULT_REDACT_BODY_FIELDS,
+  DEFAULT_REDACT_HEADERS,
+  DEFAULT_REDACT_QUERY_PARAMS,
+  REDACTED,
+  redactFields,
+} from './api-recorder';
+import { Logger } from './logger';
+import { SecretStore } from './secret-store';
+import type { ApiRequest, ApiResponse } from '../types/test-data';
+
+/**
+ * Redaction and retention settings of the call log
+ */
+export interface ApiCallLogConfig {
+  /**
+   * Header names whose values are redacted in exports
+   */
+  redactHeaders?: string[];
+
+  /**
+   * Query parameter names whose values are redacted in exports
+   */
+  redactQueryParams?: string[];
+
+  /**
+   * JSON and form body field names whose values are redacted in exports, at any depth
+   */
+  redactBodyFields?: string[];
+
+  /**
+   * Number of most recent calls kept (default 1000)
+   */
+  maxEntries?: number;
+}
+
+/**
+ * One HTTP exchange made by an ApiClient (each retry attempt is its own call), including
+ * calls answered from a cassette or by a request interceptor
+ */
+export interface ApiCall {
+  request: ApiRequest;
+
+  /**
+   * URL-encoded and multipart fields, sent instead of `request.data`
+   */
+  form?: Record<string, string | number | boolean>;
+  multipart?: Record<string, unknown>;
+
+  /**
+   * Cookie header the cookie jar added to the request
+   */
+  cookies?: string;
+  response: ApiResponse | null;
+  error?: string;
+
+  /**
+   * Where the response came from when the request was not sent: a cassette or a
+   * request interceptor
+   */
+  source?: 'replay' | 'interceptor';
+  startedAt: number;
+  duration: number;
+}
+
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+/**
+ * Keeps the HTTP exchanges of an ApiClient and exports them as cURL commands or a HAR file,
+ * with secret headers, parameters and fields and every value resolved by SecretStore redacted
+ */
+export class ApiCallLog {
+  /**
+   * Names of the test attachments added when a test fails
+   */
+  static readonly harAttachmentName = 'api-calls.har';
+  static readonly curlAttachmentName = 'api-calls.sh';
+
+  private readonly calls: ApiCall[] = [];
+  private readonly redactHeaders: string[];
+  private readonly redactQueryParams: string[];
+  private readonly redactBodyFields: string[];
+  private readonly maxEntries: number;
+  private readonly listeners = new Set<(call: ApiCall) => void>();
+  private readonly logger: Logger;
+
+  constructor(config?: ApiCallLogConfig) {
+    this.redactHeaders = (config?.redactHeaders || DEFAULT_REDACT_HEADERS).map((name) =>
+      name.toLowerCase()
+    );
+    this.redactQueryParams = config?.redactQueryParams || DEFAULT_REDACT_QUERY_PARAMS;
+    this.redactBodyFields = config?.redactBodyFields || DEFAULT_REDACT_BODY_FIELDS;
+    this.maxEntries = config?.maxEntries ?? 1000;
+    this.logger = new Logger('ApiCallLog');
+  }
+
+  /**
+   * Calls in the order they were made
+   */
+  get entries(): readonly ApiCall[] {
+    return this.calls;
+  }
+
+  get lastCall(): ApiCall | undefined {
+    return this.calls[this.calls.length - 1];
+  }
+
+  record(call: ApiCall): void {
+    this.calls.push(call);
+    if (this.calls.length > this.maxEntries) {
+      this.calls.shift();
+    }
+    for (const listener of this.listeners) {
+      listener(call);
+    }
+  }
+
+  /**
+   * Pass every call recorded from now on to a listener. Returns the function that
+   * unsubscribes it.
+   */
+  subscribe(listener: (call: ApiCall) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  clear(): void {
+    this.calls.length = 0;
+  }
+
+  /**
+   * Render a call as a copy-pasteable cURL command (the last call by default)
+   */
+  toCurl(lastCall: ApiCall | undefined = this.lastCall): string {
+    if (!lastCall) {
+      throw new Error('No API calls have been made');
+    }
+
+    const call = SecretStore.redactValue(lastCall);
+    const { request } = call;
+    const parts = [`curl -X ${request.method} ${this.quote(this.redactUrl(request))}`];
+
+    const headers = this.sentHeaders(call);
+    // Playwright sends object data as JSON; curl would send it as a form
+    if (
+      request.data !== undefined &&
+      typeof request.data === 'object' &&
+      !Buffer.isBuffer(request.data) &&
+      !this.headerValue(headers, 'content-type')
+    ) {
+      headers['Content-Type'] = 'application/json';
+    }
+    for (const [name, value] of Object.entries(this.redactHeaderValues(headers))) {
+      parts.push(`-H ${this.quote(`${name}: ${value}`)}`);
+    }
+
+    if (call.form) {
+      for (const [name, value] of Object.entries(this.redactBody(call.form))) {
+        parts.push(`--data-urlencode ${this.quote(`${name}=${value}`)}`);
+      }
+    } else if (call.multipart) {
+      for (const [name, value] of Object.entries(call.multipart)) {
+        parts.push(`-F ${this.quote(`${name}=${this.multipartValue(name, value)}`)}`);
+      }
+    } else if (request.data !== undefined) {
+      parts.push(
+        Buffer.isBuffer(request.data)
+          ? `--data-binary ${this.quote(`<${request.data.length} bytes of binary data>`)}`
+          : `--data-raw ${this.quote(this.bodyText(this.redactBody(request.data)))}`
+      );
+    }
+
+    return parts.join(' \\\n  ');
+  }
+
+  /**
+   * Render every call as a shell script of cURL commands, each preceded by its outcome
+   */
+  toCurlScript(): string {
+    return this.calls
+      .map((call) => {
+        const outcome = call.response
+          ? `${call.response.status} ${call.response.statusText} in ${call.duration}ms` +
+            (call.source ? ` (from ${call.source})` : '')
+          : `failed: ${call.error}`;
+        const comment = SecretStore.redact(
+          `# ${call.request.method} ${call.request.url} -> ${outcome}`
+        );
+        return `${comment}\n${this.toCurl(call)}\n`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Build a HAR 1.2 document of every call
+   */
+  toHar(): object {
+    return {
+      log: {
+        version: '1.2',
+        creator: { name: 'ApiClient', version: '1.0.0' },
+        entries: this.calls.map((call) => this.toHarEntry(call)),
+      },
+    };
+  }
+
+  /**
+   * Write the calls to a HAR file
+   */
+  saveHar(filePath: string): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(this.toHar(), null, 2));
+    this.logger.info(`HAR file with ${this.calls.length} call(s) saved: ${filePath}`);
+  }
+
+  /**
+   * Attach the HAR document and the cURL commands to the test
+   */
+  async attachTo(testInfo: TestInfo): Promise<void> {
+    if (this.calls.length === 0) {
+      return;
+    }
+
+    await testInfo.attach(ApiCallLog.harAttachmentName, {
+      body: JSON.stringify(this.toHar(), null, 2),
+      contentType: 'application/json',
+    });
+    await testInfo.attach(ApiCallLog.curlAttachmentName, {
+      body: this.toCurlScript(),
+      contentType: 'text/plain',
+    });
+  }
+
+  private toHarEntry(loggedCall: ApiCall): object {
+    const call = SecretStore.redactValue(loggedCall);
+    const { request, response } = call;
+    const url = new URL(this.redactUrl(request));
+    const requestBody = call.form
+      ? new URLSearchParams(
+          Object.entries(this.redactBody(call.form)).map(([name, value]) => [name, String(value)])
+        ).toString()
+      : request.data !== undefined
+        ? this.bodyText(this.redactBody(request.data))
+        : undefined;
+    const responseContentType = response?.headers['content-type'] || '';
+    const responseBody = response ? this.harContent(response.data) : null;
+
+    return {
+      startedDateTime: new Date(call.startedAt).toISOString(),
+      time: call.duration,
+      request: {
+        method: request.method,
+        url: url.toString(),
+        httpVersion: 'HTTP/1.1',
+        headers: this.toNameValues(this.redactHeaderValues(this.sentHeaders(call))),
+        queryString: [...url.searchParams].map(([name, value]) => ({ name, value })),
+        cookies: this.harCookies(call.cookies),
+        headersSize: -1,
+        bodySize: requestBody === undefined ? 0 : Buffer.byteLength(requestBody),
+        ...(requestBody !== undefined && {
+          postData: {
+            mimeType: call.form
+              ? 'application/x-www-form-urlencoded'
+              : this.headerValue(request.headers, 'content-type') || 'application/json',
+            text: requestBody,
+          },
+        }),
+      },
+      response: {
+        status: response?.status ?? 0,
+        statusText: response?.statusText ?? call.error ?? '',
+        httpVersion: 'HTTP/1.1',
+        headers: this.toNameValues(this.redactHeaderValues(response?.headers || {})),
+        cookies: [],
+        content: {
+          size: responseBody ? responseBody.size : 0,
+          mimeType: responseContentType,
+          ...(responseBody && { text: responseBody.text }),
+          ...(responseBody?.encoding && { encoding: responseBody.encoding }),
+        },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: responseBody ? responseBody.size : -1,
+        ...(call.error && { _error: call.error }),
+      },
+      ...(call.source && { _source: call.source }),
+      cache: {},
+      timings: response?.timings
+        ? {
+            dns: response.timings.dns,
+            connect: response.timings.connect + response.timings.tls,
+            ssl: response.timings.tls || -1,
+            send: 0,
+            wait: response.timings.ttfb,
+            receive: response.timings.download,
+          }
+        : { send: 0, wait: call.duration, receive: 0 },
+    };
+  }
+
+  private harContent(data: unknown): { text: string; size: number; encoding?: string } | null {
+    if (data === null || data === undefined) {
+      return null;
+    }
+    if (Buffer.isBuffer(data)) {
+      return { text: data.toString('base64'), size: data.length, encoding: 'base64' };
+    }
+    const text = this.bodyText(this.redactBody(data));
+    return { text, size: Buffer.byteLength(text) };
+  }
+
+  private redactUrl(request: ApiRequest): string {
+    const url = new URL(request.url);
+    for (const [name, value] of Object.entries(request.params)) {
+      url.searchParams.set(name, value);
+    }
+    for (const name of this.redactQueryParams) {
+      if (url.searchParams.has(name)) {
+        url.searchParams.set(name, REDACTED);
+      }
+    }
+    return url.toString();
+  }
+
+  /**
+   * Request headers with the Cookie header the jar added, unless the request set its own
+   */
+  private sentHeaders(call: ApiCall): Record<string, string> {
+    const headers = { ...call.request.headers };
+    if (call.cookies && !this.headerValue(headers, 'cookie')) {
+      headers['Cookie'] = call.cookies;
+    }
+    return headers;
+  }
+
+  private harCookies(cookieHeader: string | undefined): HarNameValue[] {
+    const redact = this.redactHeaders.includes('cookie');
+    return (cookieHeader ? cookieHeader.split('; ') : []).map((cookie) => {
+      const separator = cookie.indexOf('=');
+      return {
+        name: cookie.slice(0, separator),
+        value: redact ? REDACTED : cookie.slice(separator + 1),
+      };
+    });
+  }
+
+  private redactHeaderValues(headers: Record<string, string>): Record<string, string> {
+    const redacted: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      redacted[name] = this.redactHeaders.includes(name.toLowerCase()) ? REDACTED : value;
+    }
+    return redacted;
+  }
+
+  /**
+   * Replace secret field values in a JSON or form body, at any depth
+   */
+  private redactBody<T>(body: T): T {
+    return redactFields(body, this.redactBodyFields);
+  }
+
+  private multipartValue(name: string, value: unknown): string {
+    if (value && typeof value === 'object') {
+      const file = value as { path?: string; name?: string };
+      return `@${file.path || file.name || name}`;
+    }
+    return this.redactBodyFields.includes(name) ? REDACTED : String(value);
+  }
+
+  private bodyText(body: unknown): string {
+    return typeof body === 'string' ? body : JSON.stringify(body);
+  }
+
+  private headerValue(headers: Record<string, string>, name: string): string | undefined {
+    return Object.entries(headers).find(([header]) => header.toLowerCase() === name)?.[1];
+  }
+
+  private toNameValues(values: Record<string, string>): HarNameValue[] {
+    return Object.entries(values).map(([name, value]) => ({ name, value }));
+  }
+
+  /**
+   * Quote a value for POSIX shells
+   */
+  private quote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+  }
+}
@@ -1,6 +1,172 @@
-import { request, type APIRequestContext, type APIResponse } from '@playwright/test';
+import {
+  request,
+  type APIRequestContext,
+  type APIResponse,
+  type BrowserContext,
+  type Cookie,
+} from '@playwright/test';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream } from 'stream/web';
+import {
+  EndpointValidationError,
+  type ApiEndpoint,
+  type EndpointCall,
+  type EndpointResponse,
+  type EndpointTypes,
+} from './api-endpoint';
+import { ApiCallLog, type ApiCall, type ApiCallLogConfig } from './api-call-log';
+import {
+  DEFAULT_REDACT_QUERY_PARAMS,
+  REDACTED,
+  type ApiRecorder,
+  type RequestFields,
+} from './api-recorder';
+import { createAuthProvider, type AuthConfig, type AuthProvider } from './auth-providers';
+import {
+  InterceptorChain,
+  type InterceptorConfig,
+  type RequestInterceptor,
+  type ResponseInterceptor,
+} from './interceptors';
 import { Logger } from './logger';
-import type { ApiResponse } from '../types/test-data';
+import { ContractViolationError, OpenApiValidator } from './openapi-validator';
+import { Paginator, type PaginationOptions } from './paginator';
+import {
+  ProtobufCodec,
+  RPC_STATUS_CODES,
+  type RpcProtocol,
+  type RpcStatus,
+} from './protobuf-codec';
+import { RequestTimer, type RequestMetrics } from './request-timing';
+import { RetryPolicy, type RetryConfig } from './retry-policy';
+import { SchemaValidator, type SchemaValidationResult } from './schema-validator';
+import { ValueExtractor, type PathSyntax } from './value-extractor';
+import type { ApiAttempt, ApiRequest, ApiResponse } from '../types/test-data';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * A multipart file, read from disk (`path`) or given as a buffer
+ */
+export type FilePart =
+  | { path: string; name?: string; mimeType?: string }
+  | { buffer: Buffer; name: string; mimeType?: string };
+
+/**
+ * How a response body is decoded. `auto` parses JSON, reads textual content types as
+ * text and returns every other content type as a Buffer.
+ */
+export type ResponseType = 'auto' | 'json' | 'text' | 'buffer';
+
+/**
+ * Per-request options accepted by the ApiClient request methods
+ */
+export interface ApiRequestOptions {
+  params?: Record<string, string>;
+  headers?: Record<string, string>;
+  timeout?: number;
+  retries?: number;
+  validateContract?: boolean;
+
+  /**
+   * multipart/form-data fields, sent instead of `data`
+   */
+  multipart?: Record<string, string | number | boolean | FilePart>;
+
+  /**
+   * application/x-www-form-urlencoded fields, sent instead of `data`
+   */
+  form?: Record<string, string | number | boolean>;
+  responseType?: ResponseType;
+
+  /**
+   * Registered protobuf message types used to encode `data` and decode 2xx binary responses
+   */
+  protobuf?: { request?: string; response?: string };
+
+  /**
+   * Interceptors for this call only, run after the client-wide ones
+   */
+  interceptors?: InterceptorConfig;
+}
+
+/**
+ * Cookies and local storage of a request context, as saved by `storageState()`
+ */
+export type StorageState = Awaited<ReturnType<APIRequestContext['storageState']>>;
+
+/**
+ * A cookie to add to the jar, scoped by `url` or by `domain` and `path`
+ */
+export type CookieInput = Parameters<BrowserContext['addCookies']>[0][number];
+
+/**
+ * A binary response body with its content type
+ */
+export type BinaryResponse = ApiResponse<Buffer> & { contentType: string };
+
+/**
+ * Response of an RPC call. `data` is the decoded message (null when the call failed) and
+ * `rpcStatus` the gRPC status, `ok` on success.
+ */
+export type RpcResponse<T = any> = ApiResponse<T> & {
+  rpcStatus: RpcStatus;
+  rpcMessage: string;
+  trailers: Record<string, string>;
+};
+
+/**
+ * A response body streamed to disk
+ */
+export interface DownloadResult {
+  path: string;
+  status: number;
+  contentType: string;
+  size: number;
+  checksum: string;
+  responseTime: number;
+}
+
+/**
+ * Error thrown when the last attempt of a request fails without a response
+ */
+export class ApiRequestError extends Error {
+  readonly attempts: ApiAttempt[];
+
+  constructor(method: HttpMethod, endpoint: string, attempts: ApiAttempt[], cause: unknown) {
+    const message = cause instanceof Error ? cause.message : String(cause);
+    super(`${method} ${endpoint} failed after ${attempts.length} attempt(s): ${message}`, {
+      cause,
+    });
+    this.name = 'ApiRequestError';
+    this.attempts = attempts;
+  }
+}
+
+type MultipartValue =
+  | string
+  | number
+  | boolean
+  | { name: string; mimeType: string; buffer: Buffer };
+
+const TEXTUAL_CONTENT_TYPE =
+  /^$|^text\/|json|xml|javascript|yaml|graphql|html|x-www-form-urlencoded/i;
+const MIME_TYPES: Record<string, string> = {
+  '.csv': 'text/csv',
+  '.gif': 'image/gif',
+  '.jpeg': 'image/jpeg',
+  '.jpg': 'image/jpeg',
+  '.json': 'application/json',
+  '.pdf': 'application/pdf',
+  '.png': 'image/png',
+  '.txt': 'text/plain',
+  '.xml': 'application/xml',
+  '.zip': 'application/zip',
+};
 
 /**
  * API Client for making HTTP requests and testing APIs
@@ -10,20 +176,71 @@ export class ApiClient {
   private readonly timeout: number;
   private readonly headers: Record<string, string>;
   private readonly logger: Logger;
+  private readonly schemaValidator: SchemaValidator;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly openApiValidator: OpenApiValidator | null;
+  private readonly valueExtractor: ValueExtractor;
+  private readonly recorder: ApiRecorder | null;
+  private readonly callLog: ApiCallLog;
+  private readonly protobufCodec: ProtobufCodec;
+  private readonly interceptors: InterceptorChain;
+  private authProvider: AuthProvider | null;
   private apiContext: APIRequestContext | null = null;
+  private initializing: Promise<void> | null = null;
+  private browserContext: BrowserContext | null = null;
+  private storageStateSource: string | StorageState | undefined;
 
   constructor(
     baseUrl: string,
     config?: {
       timeout?: number;
       retries?: number;
+      retryPolicy?: Omit<RetryConfig, 'retries'>;
       headers?: Record<string, string>;
+      schemaDir?: string;
+      openApiSpec?: string;
+      auth?: AuthConfig;
+      recorder?: ApiRecorder;
+
+      /**
+       * Redaction and retention of the calls kept for cURL and HAR export
+       */
+      callLog?: ApiCallLogConfig;
+
+      /**
+       * `.proto` files to register (relative to the schema directory)
+       */
+      protoFiles?: string[];
+
+      /**
+       * Request and response interceptors applied to every call
+       */
+      interceptors?: InterceptorConfig;
+
+      /**
+       * Storage state file or object the cookie jar starts from
+       */
+      storageState?: string | StorageState;
     }
   ) {
     this.baseUrl = baseUrl;
     this.timeout = config?.timeout || 30000;
     this.headers = config?.headers || {};
     this.logger = new Logger('ApiClient');
+    const schemaDir = config?.schemaDir || path.join(process.cwd(), 'src', 'schemas');
+    this.schemaValidator = new SchemaValidator(schemaDir);
+    this.retryPolicy = new RetryPolicy({ ...config?.retryPolicy, retries: config?.retries ?? 0 });
+    this.openApiValidator = config?.openApiSpec ? new OpenApiValidator(config.openApiSpec) : null;
+    this.valueExtractor = new ValueExtractor();
+    this.authProvider = config?.auth ? createAuthProvider(config.auth) : null;
+    this.recorder = config?.recorder || null;
+    this.callLog = new ApiCallLog(config?.callLog);
+    this.storageStateSource = config?.storageState;
+    this.protobufCodec = new ProtobufCodec(schemaDir);
+    this.interceptors = new InterceptorChain(config?.interceptors);
+    if (config?.protoFiles) {
+      this.protobufCodec.load(...config.protoFiles);
+    }
   }
 
   /**
@@ -35,15 +252,165 @@ export class ApiClient {
       baseURL: this.baseUrl,
       extraHTTPHeaders: this.headers,
       timeout: this.timeout,
+      ...(this.storageStateSource && { storageState: this.storageStateSource }),
     });
   }
 
+  /**
+   * Send requests through a browser context's request API, so the API client and the
+   * browser share one cookie jar. Cookies collected so far are copied to the browser.
+   */
+  async useBrowserContext(context: BrowserContext): Promise<void> {
+    if (this.apiContext && !this.browserContext) {
+      const state = await this.apiContext.storageState();
+      if (state.cookies.length > 0) {
+        await context.addCookies(state.cookies);
+      }
+      await this.apiContext.dispose();
+    }
+
+    this.browserContext = context;
+    this.apiContext = context.request;
+    this.logger.info('API client shares its session with the browser context');
+  }
+
+  /**
+   * Get the cookies in the jar, optionally only those sent to the given URLs
+   */
+  async getCookies(urls?: string | string[]): Promise<Cookie[]> {
+    if (this.browserContext) {
+      return this.browserContext.cookies(urls);
+    }
+
+    const { cookies } = await this.storageState();
+    const targets = urls === undefined ? [] : Array.isArray(urls) ? urls : [urls];
+    return targets.length === 0
+      ? cookies
+      : cookies.filter((cookie) => targets.some((url) => this.cookieMatchesUrl(cookie, url)));
+  }
+
+  /**
+   * Get a cookie by name, optionally only among those sent to the given URL
+   */
+  async getCookie(name: string, url?: string): Promise<Cookie | undefined> {
+    return (await this.getCookies(url)).find((cookie) => cookie.name === name);
+  }
+
+  /**
+   * Add cookies to the jar, replacing cookies with the same name, domain and path
+   */
+  async addCookies(cookies: CookieInput[]): Promise<void> {
+    if (this.browserContext) {
+      await this.browserContext.addCookies(cookies);
+      return;
+    }
+
+    const state = await this.storageState();
+    const added: Cookie[] = cookies.map((cookie) => {
+      const url = cookie.url ? new URL(cookie.url) : null;
+      return {
+        name: cookie.name,
+        value: cookie.value,
+        domain: cookie.domain || url?.hostname || new URL(this.baseUrl).hostname,
+        path: cookie.path || '/',
+        expires: cookie.expires ?? -1,
+        httpOnly: cookie.httpOnly ?? false,
+        secure: cookie.secure ?? url?.protocol === 'https:',
+        sameSite: cookie.sameSite || 'Lax',
+      };
+    });
+    const kept = state.cookies.filter(
+      (existing) =>
+        !added.some(
+          (cookie) =>
+            cookie.name === existing.name &&
+            cookie.domain === existing.domain &&
+            cookie.path === existing.path
+        )
+    );
+
+    await this.resetContext({ ...state, cookies: [...kept, ...added] });
+    this.logger.info(`Cookies added: ${added.map((cookie) => cookie.name).join(', ')}`);
+  }
+
+  /**
+   * Remove every cookie, or only those matching a name and/or domain
+   */
+  async clearCookies(filter?: { name?: string; domain?: string }): Promise<void> {
+    if (this.browserContext) {
+      await this.browserContext.clearCookies(filter);
+      return;
+    }
+
+    const state = await this.storageState();
+    const cookies = state.cookies.filter(
+      (cookie) =>
+        (filter?.name !== undefined && cookie.name !== filter.name) ||
+        (filter?.domain !== undefined && cookie.domain !== filter.domain)
+    );
+
+    await this.resetContext({ ...state, cookies });
+    this.logger.info(`Cookies cleared: ${state.cookies.length - cookies.length}`);
+  }
+
+  /**
+   * Get the cookies and local storage of the session, saving them to a file when a path is given
+   */
+  async storageState(filePath?: string): Promise<StorageState> {
+    const context = await this.getContext();
+    return context.storageState(filePath ? { path: filePath } : undefined);
+  }
+
+  /**
+   * Replace the session with a storage state file or object
+   */
+  async setStorageState(state: string | StorageState): Promise<void> {
+    const loaded: StorageState =
+      typeof state === 'string' ? JSON.parse(fs.readFileSync(state, 'utf-8')) : state;
+
+    if (this.browserContext) {
+      await this.browserContext.clearCookies();
+      await this.browserContext.addCookies(loaded.cookies);
+      return;
+    }
+
+    await this.resetContext(loaded);
+  }
+
+  /**
+   * Recreate the owned request context from a storage state
+   */
+  private async resetContext(state: StorageState): Promise<void> {
+    this.storageStateSource = state;
+    if (this.apiContext) {
+      await this.apiContext.dispose();
+      this.apiContext = null;
+    }
+    await this.initialize();
+  }
+
+  /**
+   * Check if a cookie would be sent to a URL
+   */
+  private cookieMatchesUrl(cookie: Cookie, url: string): boolean {
+    const target = new URL(url);
+    const domain = cookie.domain.replace(/^\./, '');
+    const domainMatches = target.hostname === domain || target.hostname.endsWith(`.${domain}`);
+    const pathMatches =
+      target.pathname === cookie.path ||
+      target.pathname.startsWith(cookie.path.endsWith('/') ? cookie.path : `${cookie.path}/`);
+
+    return domainMatches && pathMatches && (!cookie.secure || target.protocol === 'https:');
+  }
+
   /**
    * Get API context (initialize if not exists)
    */
   private async getContext(): Promise<APIRequestContext> {
     if (!this.apiContext) {
-      await this.initialize();
+      // Concurrent first calls share one initialization
+      this.initializing ??= this.initialize().finally(() => (this.initializing = null));
+      await this.initializing;
     }
     return this.apiContext!;
   }
@@ -51,32 +418,8 @@ export class ApiClient {
   /**
    * Make GET request
    */
-  async get<T = any>(
-    endpoint: string,
-    options?: {
-      params?: Record<string, string>;
-      headers?: Record<string, string>;
-      timeout?: number;
-    }
-  ): Promise<ApiResponse<T>> {
-    const startTime = Date.now();
-    this.logger.info(`GET request to: ${endpoint}`);
-
-    try {
-      const context = await this.getContext();
-      const response = await context.get(endpoint, {
-        ...(options?.params && { params: options.params }),
-        ...(options?.headers && { headers: options.headers }),
-        timeout: options?.timeout || this.timeout,
-      });
-
-      const result = await this.processResponse<T>(response, startTime);
-      this.logger.success(`GET ${endpoint} completed in ${result.responseTime}ms`);
-      return result;
-    } catch (error) {
-      this.logger.error(`GET ${endpoint} failed:`, error);
-      throw error;
-    }
+  async get<T = any>(endpoint: string, options?: ApiRequestOptions): Promise<ApiResponse<T>> {
+    return this.request<T>('GET', endpoint, undefined, options);
   }
 
   /**
@@ -85,29 +428,9 @@ export class ApiClient {
   async post<T = any>(
     endpoint: string,
     data?: any,
-    options?: {
-      headers?: Record<string, string>;
-      timeout?: number;
-    }
+    options?: ApiRequestOptions
   ): Promise<ApiResponse<T>> {
-    const startTime = Date.now();
-    this.logger.info(`POST request to: ${endpoint}`);
-
-    try {
-      const context = await this.getContext();
-      const response = await context.post(endpoint, {
-        data,
-        ...(options?.headers && { headers: options.headers }),
-        timeout: options?.timeout || this.timeout,
-      });
-
-      const result = await this.processResponse<T>(response, startTime);
-      this.logger.success(`POST ${endpoint} completed in ${result.responseTime}ms`);
-      return result;
-    } catch (error) {
-      this.logger.error(`POST ${endpoint} failed:`, error);
-      throw error;
-    }
+    return this.request<T>('POST', endpoint, data, options);
   }
 
   /**
@@ -116,124 +439,694 @@ export class ApiClient {
   async put<T = any>(
     endpoint: string,
     data?: any,
-    options?: {
-      headers?: Record<string, string>;
-      timeout?: number;
-    }
+    options?: ApiRequestOptions
   ): Promise<ApiResponse<T>> {
+    return this.request<T>('PUT', endpoint, data, options);
+  }
+
+  /**
+   * Make DELETE request
+   */
+  async delete<T = any>(endpoint: string, options?: ApiRequestOptions): Promise<ApiResponse<T>> {
+    return this.request<T>('DELETE', endpoint, undefined, options);
+  }
+
+  /**
+   * Make PATCH request
+   */
+  async patch<T = any>(
+    endpoint: string,
+    data?: any,
+    options?: ApiRequestOptions
+  ): Promise<ApiResponse<T>> {
+    return this.request<T>('PATCH', endpoint, data, options);
+  }
+
+  /**
+   * Make GET request and return the body as a Buffer with its content type
+   */
+  async getBuffer(endpoint: string, options?: ApiRequestOptions): Promise<BinaryResponse> {
+    const response = await this.request<Buffer>('GET', endpoint, undefined, {
+      ...options,
+      responseType: 'buffer',
+    });
+    return {
+      ...response,
+      contentType: response.headers['content-type'] || 'application/octet-stream',
+    };
+  }
+
+  /**
+   * Stream a GET response body to a file without buffering it, computing its checksum.
+   * Auth and headers apply as for other requests; retries and recording do not.
+   */
+  async download(
+    endpoint: string,
+    filePath: string,
+    options?: Omit<ApiRequestOptions, 'retries' | 'responseType'> & { algorithm?: string }
+  ): Promise<DownloadResult> {
+    this.logger.info(`Downloading ${endpoint} to: ${filePath}`);
+
+    const { url, headers } = await this.prepareRequest(endpoint, options);
+
     const startTime = Date.now();
-    this.logger.info(`PUT request to: ${endpoint}`);
+    const response = await fetch(url, {
+      headers,
+      signal: AbortSignal.timeout(options?.timeout || this.timeout),
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`Download of ${endpoint} failed: HTTP ${response.status}`);
+    }
 
-    try {
-      const context = await this.getContext();
-      const response = await context.put(endpoint, {
-        data,
-        ...(options?.headers && { headers: options.headers }),
-        timeout: options?.timeout || this.timeout,
-      });
-
-      const result = await this.processResponse<T>(response, startTime);
-      this.logger.success(`PUT ${endpoint} completed in ${result.responseTime}ms`);
-      return result;
-    } catch (error) {
-      this.logger.error(`PUT ${endpoint} failed:`, error);
-      throw error;
+    const hash = crypto.createHash(options?.algorithm || 'sha256');
+    let size = 0;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    await pipeline(
+      Readable.fromWeb(response.body as ReadableStream),
+      new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          hash.update(chunk);
+          size += chunk.length;
+          callback(null, chunk);
+        },
+      }),
+      fs.createWriteStream(filePath)
+    );
+
+    const result: DownloadResult = {
+      path: filePath,
+      status: response.status,
+      contentType: response.headers.get('content-type') || 'application/octet-stream',
+      size,
+      checksum: hash.digest('hex'),
+      responseTime: Date.now() - startTime,
+    };
+    this.logger.success(`Downloaded ${size} bytes from ${endpoint} in ${result.responseTime}ms`);
+    return result;
+  }
+
+  /**
+   * Resolve a GET request to its final URL and headers, including auth and jar cookies,
+   * for transports that bypass the request context (downloads, streaming connections)
+   */
+  async prepareRequest(
+    endpoint: string,
+    options?: Pick<ApiRequestOptions, 'headers' | 'params'>
+  ): Promise<{ url: URL; headers: Record<string, string> }> {
+    const outgoing = await this.buildRequest('GET', endpoint, undefined, options);
+    const url = new URL(this.fullUrl(outgoing));
+
+    const cookies = await this.jarCookies(url.toString());
+    if (cookies) {
+      outgoing.headers['Cookie'] = cookies;
     }
+
+    return { url, headers: outgoing.headers };
   }
 
   /**
-   * Make DELETE request
+   * Cookie header the jar sends to a URL, if it holds any cookies for it
+   */
+  private async jarCookies(url: string): Promise<string | undefined> {
+    const cookies = await this.getCookies(url);
+    return cookies.length > 0
+      ? cookies.map((cookie) => `${cookie.name}=${cookie.value}`).join('; ')
+      : undefined;
+  }
+
+  /**
+   * Follow a list endpoint's pagination. Iterate the result for items, or use its
+   * `pages()`, `collect()`, `count()` and `assertTotal()` helpers.
+   */
+  paginate<T = any>(endpoint: string, options: PaginationOptions): Paginator<T> {
+    return new Paginator<T>(this, endpoint, options);
+  }
+
+  /**
+   * Register `.proto` files so their messages can be encoded, decoded and called via `rpc`
+   */
+  registerProto(...files: string[]): void {
+    this.protobufCodec.load(...files);
+  }
+
+  /**
+   * Call a unary RPC method (`package.Service/Method`) of a registered service over gRPC-web
+   * or Connect. The request is encoded and the response decoded with the method's types.
+   */
+  async rpc<T = any>(
+    method: string,
+    message: object,
+    options?: Omit<ApiRequestOptions, 'protobuf' | 'responseType'> & { protocol?: RpcProtocol }
+  ): Promise<RpcResponse<T>> {
+    const { protocol = 'grpc-web', ...requestOptions } = options || {};
+    const rpcMethod = this.protobufCodec.lookupMethod(method);
+    const encoded = this.protobufCodec.encode(rpcMethod.requestType, message);
+    const grpcWeb = protocol === 'grpc-web';
+
+    const response = await this.request<Buffer | null>(
+      'POST',
+      rpcMethod.path,
+      grpcWeb ? ProtobufCodec.frame(encoded) : encoded,
+      {
+        ...requestOptions,
+        headers: {
+          ...(grpcWeb
+            ? { 'Content-Type': 'application/grpc-web+proto', 'X-Grpc-Web': '1' }
+            : { 'Content-Type': 'application/proto', 'Connect-Protocol-Version': '1' }),
+          ...requestOptions.headers,
+        },
+        responseType: 'buffer',
+      }
+    );
+
+    const result = grpcWeb
+      ? this.toGrpcWebResponse<T>(response, rpcMethod.responseType)
+      : this.toConnectResponse<T>(response, rpcMethod.responseType);
+    if (result.rpcStatus !== 'ok') {
+      this.logger.warn(`${method} returned ${result.rpcStatus}: ${result.rpcMessage}`);
+    }
+    return result;
+  }
+
+  /**
+   * Call a declared endpoint. The request body and 2xx response bodies are validated
+   * against the endpoint schemas, so the returned data matches the declared type.
+   */
+  async call<T extends EndpointTypes>(
+    endpoint: ApiEndpoint<T>,
+    ...[args]: Partial<EndpointCall<T>> extends EndpointCall<T>
+      ? [args?: EndpointCall<T>]
+      : [args: EndpointCall<T>]
+  ): Promise<ApiResponse<EndpointResponse<T>>> {
+    const { params, query, body, ...options } = (args || {}) as EndpointCall<EndpointTypes>;
+
+    if (endpoint.requestSchema && body !== undefined) {
+      const result = this.schemaValidator.validate(body, endpoint.requestSchema);
+      if (!result.valid) {
+        const error = new EndpointValidationError(endpoint.toString(), 'request', result.errors);
+        this.logger.error(error.message);
+        throw error;
+      }
+    }
+
+    const queryParams: Record<string, string> = {};
+    for (const [name, value] of Object.entries(query || {})) {
+      queryParams[name] = String(value);
+    }
+
+    const response = await this.request<EndpointResponse<T>>(
+      endpoint.method,
+      endpoint.buildPath(params),
+      body,
+      { ...options, ...(query && { params: queryParams }) }
+    );
+
+    if (endpoint.responseSchema && response.status >= 200 && response.status < 300) {
+      const result = this.schemaValidator.validate(response.data, endpoint.responseSchema);
+      if (!result.valid) {
+        const error = new EndpointValidationError(
+          endpoint.toString(),
+          'response',
+          result.errors,
+          response
+        );
+        this.logger.error(error.message);
+        throw error;
+      }
+    }
+
+    return response;
+  }
+
+  /**
+   * Send a request, retrying network errors and retryable statuses per the retry policy
    */
-  async delete<T = any>(
+  private async request<T>(
+    method: HttpMethod,
     endpoint: string,
-    options?: {
-      headers?: Record<string, string>;
-      timeout?: number;
+    data: any,
+    options?: ApiRequestOptions
+  ): Promise<ApiResponse<T>> {
+    this.logger.info(`${method} request to: ${endpoint}`);
+
+    if (options?.protobuf?.request && data !== undefined && !Buffer.isBuffer(data)) {
+      data = this.protobufCodec.encode(options.protobuf.request, data);
+      options = {
+        ...options,
+        headers: { 'Content-Type': 'application/x-protobuf', ...options.headers },
+      };
+    }
+
+    const fields: RequestFields = {
+      ...(options?.form && { form: options.form }),
+      ...(options?.multipart && { multipart: this.toMultipart(options.multipart) }),
+    };
+
+    // Cassettes hold the request as made here, before auth providers and interceptors
+    // change it, so replays match without running them
+    const request = this.createRequest(method, endpoint, data, options);
+    if (this.recorder?.isReplaying) {
+      const startTime = Date.now();
+      const replayed = this.recorder.replay<T>(request, fields);
+      if (replayed) {
+        this.logCall(request, options, startTime, replayed, undefined, { source: 'replay' });
+        this.assertContract(request, replayed, options, fields);
+        return this.completeResponse(replayed, request, options);
+      }
+    }
+
+    const maxRetries = this.retryPolicy.canRetryMethod(method)
+      ? (options?.retries ?? this.retryPolicy.retries)
+      : 0;
+    const attempts: ApiAttempt[] = [];
+    let credentialsRefreshed = false;
+
+    for (let attempt = 1; ; attempt++) {
+      const startTime = Date.now();
+      let response: APIResponse;
+      let metrics: RequestMetrics | null;
+      let cookies: string | undefined;
+
+      // Interceptors see the request with credentials, after an HMAC signature is computed
+      const outgoing = await this.buildRequest(method, endpoint, data, options, fields);
+      const synthetic = await this.interceptors.interceptRequest(
+        outgoing,
+        options?.interceptors?.request
+      );
+      if (synthetic) {
+        this.logger.info(`${method} ${endpoint} answered by a request interceptor`);
+        this.logCall(outgoing, options, startTime, synthetic, undefined, {
+          source: 'interceptor',
+        });
+        return this.completeResponse(synthetic, outgoing, options);
+      }
+
+      try {
+        const context = await this.getContext();
+        cookies = await this.jarCookies(this.fullUrl(outgoing));
+        ({ result: response, metrics } = await RequestTimer.measure(() =>
+          context.fetch(outgoing.url, {
+            method: outgoing.method,
+            headers: outgoing.headers,
+            ...(Object.keys(outgoing.params).length > 0 && { params: outgoing.params }),
+            ...(outgoing.data !== undefined && { data: outgoing.data }),
+            ...fields,
+            timeout: options?.timeout || this.timeout,
+          })
+        ));
+      } catch (error) {
+        const duration = Date.now() - startTime;
+        const message = error instanceof Error ? error.message : String(error);
+        this.logCall(outgoing, options, startTime, null, cookies, { error: message });
+
+        if (attempt > maxRetries) {
+          attempts.push({ attempt, error: message, duration });
+          this.logger.error(`${method} ${endpoint} failed after ${attempt} attempt(s):`, error);
+          throw new ApiRequestError(method, endpoint, attempts, error);
+        }
+
+        const delay = this.retryPolicy.getDelay(attempt);
+        attempts.push({ attempt, error: message, duration, delay });
+        this.logger.warn(
+          `${method} ${endpoint} attempt ${attempt} failed: ${message}. Retrying in ${delay}ms`
+        );
+        await this.sleep(delay);
+        continue;
+      }
+
+      const result = await this.processResponse<T>(
+        response,
+        startTime,
+        options?.responseType,
+        options?.protobuf?.response
+      );
+      if (metrics) {
+        result.timings = metrics.timings;
+        result.sizes = metrics.sizes;
+      }
+      this.logCall(outgoing, options, startTime, result, cookies);
+
+      if (result.status === 401 && !credentialsRefreshed && this.authProvider?.refresh) {
+        credentialsRefreshed = true;
+        if (await this.authProvider.refresh()) {
+          attempts.push({ attempt, status: result.status, duration: result.responseTime });
+          this.logger.warn(
+            `${method} ${endpoint} returned 401. Retrying with refreshed credentials`
+          );
+          continue;
+        }
+      }
+
+      if (attempt <= maxRetries && this.retryPolicy.isRetryableStatus(result.status)) {
+        const delay = this.retryPolicy.getDelay(attempt, result.headers['retry-after']);
+        attempts.push({ attempt, status: result.status, duration: result.responseTime, delay });
+        this.logger.warn(
+          `${method} ${endpoint} attempt ${attempt} returned ${result.status}. Retrying in ${delay}ms`
+        );
+        await this.sleep(delay);
+        continue;
+      }
+
+      attempts.push({ attempt, status: result.status, duration: result.responseTime });
+      result.attempts = attempts;
+
+      if (this.recorder?.isRecording) {
+        this.recorder.record(request, result, fields);
+      }
+
+      this.assertContract(outgoing, result, options, fields);
+
+      this.logger.success(
+        `${method} ${endpoint} completed in ${result.responseTime}ms` +
+          (attempt > 1 ? ` after ${attempt} attempts` : '')
+      );
+      return this.completeResponse(result, outgoing, options);
     }
+  }
+
+  /**
+   * Run the response interceptors and note which call the response belongs to
+   */
+  private async completeResponse<T>(
+    response: ApiResponse<T>,
+    request: ApiRequest,
+    options?: ApiRequestOptions
   ): Promise<ApiResponse<T>> {
-    const startTime = Date.now();
-    this.logger.info(`DELETE request to: ${endpoint}`);
+    const result = await this.interceptors.interceptResponse(
+      response,
+      request,
+      options?.interceptors?.response
+    );
 
-    try {
-      const context = await this.getContext();
-      const response = await context.delete(endpoint, {
-        ...(options?.headers && { headers: options.headers }),
-        timeout: options?.timeout || this.timeout,
-      });
-
-      const result = await this.processResponse<T>(response, startTime);
-      this.logger.success(`DELETE ${endpoint} completed in ${result.responseTime}ms`);
-      return result;
-    } catch (error) {
-      this.logger.error(`DELETE ${endpoint} failed:`, error);
-      throw error;
+    const url = new URL(this.fullUrl(request));
+    for (const name of DEFAULT_REDACT_QUERY_PARAMS) {
+      if (url.searchParams.has(name)) {
+        url.searchParams.set(name, REDACTED);
+      }
     }
+    result.request = { method: request.method, url: url.toString() };
+
+    return result;
   }
 
   /**
-   * Make PATCH request
+   * Keep an HTTP exchange for cURL and HAR export
    */
-  async patch<T = any>(
+  private logCall(
+    request: ApiRequest,
+    options: ApiRequestOptions | undefined,
+    startedAt: number,
+    response: ApiResponse | null,
+    cookies: string | undefined,
+    outcome?: Pick<ApiCall, 'error' | 'source'>
+  ): void {
+    this.callLog.record({
+      request,
+      ...(options?.form && { form: options.form }),
+      ...(options?.multipart && { multipart: options.multipart }),
+      ...(cookies && { cookies }),
+      response,
+      ...outcome,
+      startedAt,
+      duration: Date.now() - startedAt,
+    });
+  }
+
+  /**
+   * Build the outgoing request and let the auth provider add its credentials
+   */
+  private async buildRequest(
+    method: HttpMethod,
     endpoint: string,
-    data?: any,
-    options?: {
-      headers?: Record<string, string>;
-      timeout?: number;
+    data: any,
+    options?: ApiRequestOptions,
+    fields?: RequestFields
+  ): Promise<ApiRequest> {
+    const outgoing = this.createRequest(method, endpoint, data, options);
+
+    if (this.authProvider) {
+      await this.authProvider.apply(outgoing, fields);
     }
-  ): Promise<ApiResponse<T>> {
-    const startTime = Date.now();
-    this.logger.info(`PATCH request to: ${endpoint}`);
 
-    try {
-      const context = await this.getContext();
-      const response = await context.patch(endpoint, {
-        data,
-        ...(options?.headers && { headers: options.headers }),
-        timeout: options?.timeout || this.timeout,
-      });
-
-      const result = await this.processResponse<T>(response, startTime);
-      this.logger.success(`PATCH ${endpoint} completed in ${result.responseTime}ms`);
-      return result;
-    } catch (error) {
-      this.logger.error(`PATCH ${endpoint} failed:`, error);
+    return outgoing;
+  }
+
+  /**
+   * Describe the outgoing request before credentials are added
+   */
+  private createRequest(
+    method: HttpMethod,
+    endpoint: string,
+    data: any,
+    options?: ApiRequestOptions
+  ): ApiRequest {
+    return {
+      method,
+      url: new URL(endpoint, this.baseUrl).toString(),
+      headers: { ...this.headers, ...options?.headers },
+      params: { ...options?.params },
+      ...(data !== undefined && { data }),
+    };
+  }
+
+  /**
+   * URL of a request with its query parameters
+   */
+  private fullUrl(request: ApiRequest): string {
+    const url = new URL(request.url);
+    for (const [name, value] of Object.entries(request.params)) {
+      url.searchParams.set(name, value);
+    }
+    return url.toString();
+  }
+
+  /**
+   * Fail when the call does not match the OpenAPI document (if one is configured)
+   */
+  private assertContract(
+    request: ApiRequest,
+    response: ApiResponse,
+    options?: ApiRequestOptions,
+    fields?: RequestFields
+  ): void {
+    if (!this.openApiValidator || options?.validateContract === false) {
+      return;
+    }
+
+    const violations = this.openApiValidator.validate({ ...request, ...fields }, response);
+    if (violations.length > 0) {
+      const error = new ContractViolationError(request.method, request.url, violations);
+      this.logger.error(error.message);
       throw error;
     }
   }
 
   /**
-   * Process API response
+   * Convert multipart fields to the Playwright format, reading files from disk
+   */
+  private toMultipart(
+    fields: NonNullable<ApiRequestOptions['multipart']>
+  ): Record<string, MultipartValue> {
+    const multipart: Record<string, MultipartValue> = {};
+
+    for (const [field, value] of Object.entries(fields)) {
+      if (typeof value !== 'object') {
+        multipart[field] = value;
+        continue;
+      }
+
+      const name = value.name || ('path' in value ? path.basename(value.path) : field);
+      multipart[field] = {
+        name,
+        mimeType:
+          value.mimeType ||
+          MIME_TYPES[path.extname(name).toLowerCase()] ||
+          'application/octet-stream',
+        buffer: 'path' in value ? fs.readFileSync(value.path) : value.buffer,
+      };
+    }
+
+    return multipart;
+  }
+
+  /**
+   * Read the status and message of a gRPC-web response. Trailers come in the last frame,
+   * or in the headers of a trailers-only response.
+   */
+  private toGrpcWebResponse<T>(
+    response: ApiResponse<Buffer | null>,
+    responseType: string
+  ): RpcResponse<T> {
+    const frames = ProtobufCodec.parseFrames(response.data || Buffer.alloc(0));
+    const trailers: Record<string, string> = { ...frames.trailers };
+    for (const [name, value] of Object.entries(response.headers)) {
+      if (name.startsWith('grpc-')) {
+        trailers[name] ??= value;
+      }
+    }
+
+    const code = trailers['grpc-status'];
+    const rpcStatus =
+      code === undefined
+        ? ProtobufCodec.statusFromHttp(response.status)
+        : RPC_STATUS_CODES[Number(code)] || 'unknown';
+    const message = frames.messages[0];
+
+    return {
+      ...response,
+      data:
+        rpcStatus === 'ok' && message
+          ? this.protobufCodec.decode<T>(responseType, message)
+          : (null as T),
+      rpcStatus,
+      rpcMessage: this.decodeGrpcMessage(trailers['grpc-message'] || ''),
+      trailers,
+    };
+  }
+
+  /**
+   * Decode a percent-encoded `grpc-message`, keeping servers' unencoded messages as they are
+   */
+  private decodeGrpcMessage(message: string): string {
+    try {
+      return decodeURIComponent(message);
+    } catch {
+      // A stray `%` (e.g. "50% quota") is not an escape sequence
+      return message;
+    }
+  }
+
+  /**
+   * Read the status and message of a Connect unary response (errors are JSON)
+   */
+  private toConnectResponse<T>(
+    response: ApiResponse<Buffer | null>,
+    responseType: string
+  ): RpcResponse<T> {
+    const body = response.data || Buffer.alloc(0);
+
+    if (response.status === 200) {
+      return {
+        ...response,
+        data: this.protobufCodec.decode<T>(responseType, body),
+        rpcStatus: 'ok',
+        rpcMessage: '',
+        trailers: {},
+      };
+    }
+
+    let error: { code?: string; message?: string } = {};
+    try {
+      error = JSON.parse(body.toString('utf-8'));
+    } catch {
+      // Not a Connect error body (e.g. a proxy error page)
+    }
+
+    return {
+      ...response,
+      data: null as T,
+      rpcStatus:
+        RPC_STATUS_CODES.find((status) => status === error.code) ||
+        ProtobufCodec.statusFromHttp(response.status),
+      rpcMessage: error.message || response.statusText,
+      trailers: {},
+    };
+  }
+
+  /**
+   * Wait before the next retry attempt
+   */
+  private async sleep(ms: number): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Process API response. The parsed body is whatever the server sent; `T` is the type the
+   * caller expects, which `call` checks against the endpoint's response schema.
    */
   private async processResponse<T>(
     response: APIResponse,
-    startTime: number
+    startTime: number,
+    responseType: ResponseType = 'auto',
+    protobufType?: string
   ): Promise<ApiResponse<T>> {
     const responseTime = Date.now() - startTime;
     const status = response.status();
     const statusText = response.statusText();
     const headers = response.headers();
 
-    let data: T;
+    let body: unknown;
     try {
       const contentType = headers['content-type'] || '';
-      if (contentType.includes('application/json')) {
-        data = await response.json();
+      if (
+        responseType === 'json' ||
+        (responseType === 'auto' && contentType.includes('application/json'))
+      ) {
+        body = await response.json();
+      } else if (
+        responseType === 'buffer' ||
+        (responseType === 'auto' && !TEXTUAL_CONTENT_TYPE.test(contentType))
+      ) {
+        body = await response.body();
       } else {
-        data = (await response.text()) as any;
+        body = await response.text();
       }
     } catch {
-      data = null as any;
+      body = null;
+    }
+
+    if (protobufType && Buffer.isBuffer(body) && status >= 200 && status < 300) {
+      body = this.protobufCodec.decode<unknown>(protobufType, body);
     }
 
     return {
       status,
       statusText,
       headers,
-      data,
+      data: body as T,
       responseTime,
     };
   }
 
+  /**
+   * Compute the hex digest of a body, a binary response or a file on disk
+   */
+  checksum(source: Buffer | string | ApiResponse, algorithm: string = 'sha256'): string {
+    const hash = crypto.createHash(algorithm);
+    if (Buffer.isBuffer(source)) {
+      hash.update(source);
+    } else if (typeof source === 'string') {
+      hash.update(fs.readFileSync(source));
+    } else {
+      hash.update(
+        Buffer.isBuffer(source.data) || typeof source.data === 'string'
+          ? source.data
+          : JSON.stringify(source.data)
+      );
+    }
+    return hash.digest('hex');
+  }
+
+  /**
+   * Validate the checksum of a body, a binary response or a file on disk
+   */
+  validateChecksum(
+    source: Buffer | string | ApiResponse,
+    expected: string,
+    algorithm: string = 'sha256'
+  ): boolean {
+    const actual = this.checksum(source, algorithm);
+    const isValid = actual === expected.toLowerCase();
+
+    if (isValid) {
+      this.logger.success(`Checksum validation passed: ${algorithm} ${actual}`);
+    } else {
+      this.logger.error(`Checksum validation failed. Expected: ${expected}, Actual: ${actual}`);
+    }
+
+    return isValid;
+  }
+
   /**
    * Validate response status
    */
@@ -270,27 +1163,49 @@ export class ApiClient {
   }
 
   /**
-   * Validate response schema
+   * Validate response body against a JSON schema object or a schema reference
+   * (`$id` or path relative to the schema directory)
    */
-  validateSchema(response: ApiResponse, schema: any): boolean {
-    // Simple schema validation - can be enhanced with libraries like Joi or Ajv
+  validateSchema(response: ApiResponse, schema: object | string): boolean {
     try {
-      if (typeof schema === 'object' && schema !== null) {
-        for (const key in schema) {
-          if (!(key in response.data)) {
-            this.logger.error(`Schema validation failed: Missing property '${key}'`);
-            return false;
-          }
+      const result = this.checkSchema(response, schema);
+
+      if (result.valid) {
+        this.logger.success('Schema validation passed');
+      } else {
+        for (const error of result.errors) {
+          this.logger.error(`Schema validation failed at '${error.path}': ${error.message}`);
         }
       }
-      this.logger.success('Schema validation passed');
-      return true;
+
+      return result.valid;
     } catch (error) {
       this.logger.error('Schema validation failed:', error);
       return false;
     }
   }
 
+  /**
+   * Validate response body against a JSON schema and return every mismatch
+   */
+  checkSchema(response: ApiResponse, schema: object | string): SchemaValidationResult {
+    return this.schemaValidator.validate(response.data, schema);
+  }
+
+  /**
+   * Add a request interceptor for every call. Returns a function that removes it.
+   */
+  addRequestInterceptor(interceptor: RequestInterceptor): () => void {
+    return this.interceptors.addRequestInterceptor(interceptor);
+  }
+
+  /**
+   * Add a response interceptor for every call. Returns a function that removes it.
+   */
+  addResponseInterceptor(interceptor: ResponseInterceptor): () => void {
+    return this.interceptors.addResponseInterceptor(interceptor);
+  }
+
   /**
    * Set authentication header
    */
@@ -299,6 +1214,16 @@ export class ApiClient {
     this.logger.info(`Authentication header set: ${type}`);
   }
 
+  /**
+   * Set the auth provider that adds credentials to every request (null removes it)
+   */
+  setAuthProvider(provider: AuthProvider | null): void {
+    this.authProvider = provider;
+    this.logger.info(
+      provider ? `Auth provider set: ${provider.constructor.name}` : 'Auth provider removed'
+    );
+  }
+
   /**
    * Set custom header
    */
@@ -323,37 +1248,67 @@ export class ApiClient {
   }
 
   /**
-   * Extract value from response using JSONPath
+   * Extract value from response using JSONPath (default) or JMESPath.
+   * Paths with wildcards, filters or recursive descent return an array of matches.
    */
-  extractValue(response: ApiResponse, path: string): any {
+  extractValue<T = any>(response: ApiResponse, path: string, syntax: PathSyntax = 'jsonpath'): T {
     try {
-      const keys = path.split('.');
-      let value = response.data;
-
-      for (const key of keys) {
-        if (value && typeof value === 'object' && key in value) {
-          value = value[key];
-        } else {
-          return null;
-        }
-      }
-
-      return value;
+      return this.valueExtractor.extract<T>(response.data, path, syntax);
     } catch (error) {
       this.logger.error(`Failed to extract value from path '${path}':`, error);
-      return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Extract every value matching a JSONPath (default) or JMESPath expression
+   */
+  extractValues<T = any>(
+    response: ApiResponse,
+    path: string,
+    syntax: PathSyntax = 'jsonpath'
+  ): T[] {
+    try {
+      return this.valueExtractor.extractAll<T>(response.data, path, syntax);
+    } catch (error) {
+      this.logger.error(`Failed to extract values from path '${path}':`, error);
+      throw error;
     }
   }
 
+  /**
+   * HTTP exchanges made so far, in order (each retry attempt separately)
+   */
+  getCalls(): readonly ApiCall[] {
+    return this.callLog.entries;
+  }
+
+  /**
+   * The call log, for HAR export and test attachments
+   */
+  getCallLog(): ApiCallLog {
+    return this.callLog;
+  }
+
+  /**
+   * Render a call (the last one by default) as a copy-pasteable cURL command with
+   * secrets redacted
+   */
+  toCurl(call?: ApiCall): string {
+    return this.callLog.toCurl(call);
+  }
+
   /**
    * Cleanup resources
    */
   async cleanup(): Promise<void> {
     this.logger.info('Cleaning up API client');
-    if (this.apiContext) {
+    this.recorder?.save();
+    // A browser context's request API is disposed with the browser context
+    if (this.apiContext && !this.browserContext) {
       await this.apiContext.dispose();
-      this.apiContext = null;
     }
+    this.apiContext = null;
   }
 
   /**
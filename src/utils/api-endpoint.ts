@@ -0,0 +1,141 @@
+import type { ApiRequestOptions, HttpMethod } from './api-client';
+import type { SchemaValidationError } from './schema-validator';
+import type { ApiResponse } from '../types/test-data';
+
+/**
+ * Compile-time shape of an endpoint: path parameters, query, request body and response body
+ */
+export interface EndpointTypes {
+  params?: Record<string, string | number>;
+  query?: Record<string, string | number | boolean>;
+  body?: unknown;
+  response?: unknown;
+}
+
+/**
+ * Runtime description of an endpoint
+ */
+export interface EndpointDefinition {
+  method: HttpMethod;
+
+  /**
+   * Path template with `{name}` parameters, e.g. `/posts/{id}`
+   */
+  path: string;
+
+  /**
+   * JSON schema (or registered schema reference) the request body must match
+   */
+  requestSchema?: object | string;
+
+  /**
+   * JSON schema (or registered schema reference) every 2xx response body must match
+   */
+  responseSchema?: object | string;
+}
+
+type ParamsArg<T extends EndpointTypes> = undefined extends T['params']
+  ? { params?: T['params'] }
+  : { params: T['params'] };
+type QueryArg<T extends EndpointTypes> = undefined extends T['query']
+  ? { query?: T['query'] }
+  : { query: T['query'] };
+type BodyArg<T extends EndpointTypes> = undefined extends T['body']
+  ? { body?: T['body'] }
+  : { body: T['body'] };
+
+/**
+ * Arguments of a typed endpoint call
+ */
+export type EndpointCall<T extends EndpointTypes> = Omit<ApiRequestOptions, 'params'> &
+  ParamsArg<T> &
+  QueryArg<T> &
+  BodyArg<T>;
+
+/**
+ * Response body type of an endpoint (`unknown` when undeclared)
+ */
+export type EndpointResponse<T extends EndpointTypes> = undefined extends T['response']
+  ? unknown
+  : T['response'];
+
+/**
+ * Error thrown when a typed call's request or response does not match the endpoint schema
+ */
+export class EndpointValidationError extends Error {
+  readonly direction: 'request' | 'response';
+  readonly errors: SchemaValidationError[];
+  readonly response: ApiResponse | null;
+
+  constructor(
+    endpoint: string,
+    direction: 'request' | 'response',
+    errors: SchemaValidationError[],
+    response?: ApiResponse
+  ) {
+    super(
+      `${endpoint} ${direction} does not match its declared schema:\n` +
+        errors.map((error) => `  - ${error.path}: ${error.message}`).join('\n')
+    );
+    this.name = 'EndpointValidationError';
+    this.direction = direction;
+    this.errors = errors;
+    this.response = response || null;
+  }
+}
+
+/**
+ * An endpoint declared once and called through `ApiClient.call`
+ */
+export class ApiEndpoint<T extends EndpointTypes = EndpointTypes> {
+  readonly method: HttpMethod;
+  readonly path: string;
+  readonly requestSchema: object | string | undefined;
+  readonly responseSchema: object | string | undefined;
+  private readonly paramNames: string[];
+
+  constructor(definition: EndpointDefinition) {
+    this.method = definition.method;
+    this.path = definition.path;
+    this.requestSchema = definition.requestSchema;
+    this.responseSchema = definition.responseSchema;
+    this.paramNames = [...definition.path.matchAll(/{([^}]+)}/g)].map((match) => match[1] || '');
+  }
+
+  /**
+   * Fill the path template, failing when a parameter is missing
+   */
+  buildPath(params?: T['params']): string {
+    const values: Record<string, string | number> = params || {};
+    const missing = this.paramNames.filter((name) => values[name] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Missing path parameter(s) ${missing.join(', ')} for ${this}`);
+    }
+
+    return this.path.replace(/{([^}]+)}/g, (_match, name: string) =>
+      encodeURIComponent(String(values[name]))
+    );
+  }
+
+  toString(): string {
+    return `${this.method} ${this.path}`;
+  }
+}
+
+/**
+ * Declare an endpoint. The type argument describes params, query, body and response:
+ *
+ * ```ts
+ * const getPost = defineEndpoint<{ params: { id: number }; response: Post }>({
+ *   method: 'GET',
+ *   path: '/posts/{id}',
+ *   responseSchema: 'post.schema.json',
+ * });
+ * const { data } = await apiClient.call(getPost, { params: { id: 1 } }); // data: Post
+ * ```
+ */
+export function defineEndpoint<T extends EndpointTypes = EndpointTypes>(
+  definition: EndpointDefinition
+): ApiEndpoint<T> {
+  return new ApiEndpoint<T>(definition);
+}
@@ -0,0 +1,421 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from './logger';
+import { REDACTED, SecretStore } from './secret-store';
+import type { ApiRequest, ApiResponse } from '../types/test-data';
+
+/**
+ * Recording mode
+ *
+ * - `off`: no cassette is used
+ * - `record`: every call goes to the network and the cassette is rewritten
+ * - `replay`: recorded calls are served from the cassette, new calls go to the network and are appended
+ * - `strict`: recorded calls only; a call without a recording fails
+ */
+export type RecordingMode = 'off' | 'record' | 'replay' | 'strict';
+
+/**
+ * Request/response recording configuration
+ */
+export interface RecordingConfig {
+  mode: RecordingMode;
+
+  /**
+   * Directory holding the cassette files
+   */
+  dir?: string;
+
+  /**
+   * Request parts that must be equal for a recording to match
+   */
+  match?: {
+    method?: boolean;
+    url?: boolean;
+    query?: boolean;
+    body?: boolean;
+  };
+
+  /**
+   * Header names whose values are redacted in cassettes
+   */
+  redactHeaders?: string[];
+
+  /**
+   * Query parameter names whose values are redacted in cassettes
+   */
+  redactQueryParams?: string[];
+
+  /**
+   * Request and response body field names whose values are redacted in cassettes, at any
+   * depth. Resolved secrets are masked in bodies as well.
+   */
+  redactBodyFields?: string[];
+}
+
+/**
+ * URL-encoded or multipart fields of a request, sent instead of its data
+ */
+export interface RequestFields {
+  form?: Record<string, string | number | boolean>;
+  multipart?: Record<
+    string,
+    string | number | boolean | { name: string; mimeType: string; buffer: Buffer }
+  >;
+}
+
+/**
+ * A recorded multipart field. Files are kept as their name, type and digest, not their content.
+ */
+export type RecordedPart =
+  | string
+  | number
+  | boolean
+  | { name: string; mimeType: string; sha256: string };
+
+/**
+ * A recorded request/response pair
+ */
+export interface RecordedInteraction {
+  request: {
+    method: string;
+    url: string;
+    query: Record<string, string>;
+    headers: Record<string, string>;
+    body?: any;
+    form?: Record<string, string | number | boolean>;
+    multipart?: Record<string, RecordedPart>;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: any;
+
+    /**
+     * Set when the body is a binary response stored as a base64 string
+     */
+    bodyEncoding?: 'base64';
+    responseTime: number;
+  };
+}
+
+interface Cassette {
+  version: number;
+  interactions: RecordedInteraction[];
+}
+
+export { REDACTED };
+export const DEFAULT_REDACT_HEADERS = [
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'x-api-key',
+];
+export const DEFAULT_REDACT_QUERY_PARAMS = ['access_token', 'api_key', 'apikey', 'token'];
+export const DEFAULT_REDACT_BODY_FIELDS = [
+  'password',
+  'client_secret',
+  'secret',
+  'access_token',
+  'refresh_token',
+  'token',
+];
+
+/**
+ * Copy of a JSON or form body with the values of the named fields redacted, at any depth
+ */
+export function redactFields<T>(body: T, fields: string[]): T {
+  if (Array.isArray(body)) {
+    return body.map((item) => redactFields(item, fields)) as T;
+  }
+  if (!body || typeof body !== 'object' || Buffer.isBuffer(body)) {
+    return body;
+  }
+
+  const redacted: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(body)) {
+    redacted[name] = fields.includes(name) ? REDACTED : redactFields(value, fields);
+  }
+  return redacted as T;
+}
+
+/**
+ * Records ApiClient calls into a cassette file and replays them without network access
+ */
+export class ApiRecorder {
+  readonly mode: RecordingMode;
+  private readonly cassettePath: string;
+  private readonly match: Required<NonNullable<RecordingConfig['match']>>;
+  private readonly redactHeaders: string[];
+  private readonly redactQueryParams: string[];
+  private readonly redactBodyFields: string[];
+  private readonly logger: Logger;
+  private readonly interactions: RecordedInteraction[];
+  private readonly usedInteractions = new Set<number>();
+  private changed: boolean = false;
+
+  constructor(cassettePath: string, config: RecordingConfig) {
+    this.mode = config.mode;
+    this.cassettePath = cassettePath;
+    this.match = { method: true, url: true, query: true, body: true, ...config.match };
+    this.redactHeaders = (config.redactHeaders || DEFAULT_REDACT_HEADERS).map((name) =>
+      name.toLowerCase()
+    );
+    this.redactQueryParams = config.redactQueryParams || DEFAULT_REDACT_QUERY_PARAMS;
+    this.redactBodyFields = config.redactBodyFields || DEFAULT_REDACT_BODY_FIELDS;
+    this.logger = new Logger('ApiRecorder');
+    this.interactions = this.mode === 'record' ? [] : this.loadCassette();
+  }
+
+  /**
+   * Build the cassette path for a test from its file and title path
+   */
+  static cassettePathFor(dir: string, testFile: string, titlePath: string[]): string {
+    const slug = titlePath
+      .join(' ')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+    return path.join(dir, path.basename(testFile).replace(/(\.spec)?\.[jt]s$/, ''), `${slug}.json`);
+  }
+
+  /**
+   * Check if calls should be looked up in the cassette before going to the network
+   */
+  get isReplaying(): boolean {
+    return this.mode === 'replay' || this.mode === 'strict';
+  }
+
+  /**
+   * Check if live calls should be written to the cassette
+   */
+  get isRecording(): boolean {
+    return this.mode === 'record' || this.mode === 'replay';
+  }
+
+  /**
+   * Find the recorded response for a request. Identical requests replay their
+   * recordings in order. In strict mode a missing recording throws.
+   */
+  replay<T>(request: ApiRequest, fields?: RequestFields): ApiResponse<T> | null {
+    const index = this.interactions.findIndex(
+      (interaction, candidate) =>
+        !this.usedInteractions.has(candidate) && this.matches(interaction.request, request, fields)
+    );
+
+    if (index < 0) {
+      if (this.mode === 'strict') {
+        throw new Error(
+          `No recording matches ${request.method} ${request.url} in cassette ${this.cassettePath}`
+        );
+      }
+      return null;
+    }
+
+    this.usedInteractions.add(index);
+    const { response } = this.interactions[index] as RecordedInteraction;
+    this.logger.info(`Replaying ${request.method} ${request.url} from cassette`);
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      headers: { ...response.headers },
+      data:
+        response.bodyEncoding === 'base64'
+          ? Buffer.from(response.body, 'base64')
+          : structuredClone(response.body),
+      responseTime: response.responseTime,
+    };
+  }
+
+  /**
+   * Add a live request/response pair to the cassette. Pass the request as it is looked up
+   * for replay, i.e. before credentials and interceptors are applied.
+   */
+  record(request: ApiRequest, response: ApiResponse, fields?: RequestFields): void {
+    const url = new URL(request.url);
+    this.interactions.push({
+      request: {
+        method: request.method,
+        url: `${url.origin}${url.pathname}`,
+        query: this.redactQuery(this.getQuery(request)),
+        headers: this.redact(request.headers),
+        ...(request.data !== undefined && { body: this.redactBody(request.data) }),
+        ...(fields?.form && { form: this.redactBody(fields.form) }),
+        ...(fields?.multipart && { multipart: this.describeMultipart(fields.multipart) }),
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: this.redact(response.headers),
+        ...(Buffer.isBuffer(response.data)
+          ? { body: response.data.toString('base64'), bodyEncoding: 'base64' as const }
+          : { body: this.redactBody(response.data) }),
+        responseTime: response.responseTime,
+      },
+    });
+    this.usedInteractions.add(this.interactions.length - 1);
+    this.changed = true;
+  }
+
+  /**
+   * Write the cassette to disk when calls were recorded
+   */
+  save(): void {
+    if (!this.changed) {
+      return;
+    }
+
+    const cassette: Cassette = { version: 1, interactions: this.interactions };
+    fs.mkdirSync(path.dirname(this.cassettePath), { recursive: true });
+    fs.writeFileSync(this.cassettePath, JSON.stringify(cassette, null, 2));
+    this.changed = false;
+    this.logger.info(
+      `Cassette saved with ${this.interactions.length} interaction(s): ${this.cassettePath}`
+    );
+  }
+
+  /**
+   * Load the interactions of an existing cassette
+   */
+  private loadCassette(): RecordedInteraction[] {
+    if (!fs.existsSync(this.cassettePath)) {
+      if (this.mode === 'strict') {
+        this.logger.warn(`Cassette not found: ${this.cassettePath}`);
+      }
+      return [];
+    }
+
+    const cassette: Cassette = JSON.parse(fs.readFileSync(this.cassettePath, 'utf-8'));
+    this.logger.info(`Cassette loaded: ${this.cassettePath}`);
+    return cassette.interactions;
+  }
+
+  /**
+   * Compare a recorded request with a live one using the configured matchers
+   */
+  private matches(
+    recorded: RecordedInteraction['request'],
+    request: ApiRequest,
+    fields?: RequestFields
+  ): boolean {
+    const url = new URL(request.url);
+
+    if (this.match.method && recorded.method !== request.method) {
+      return false;
+    }
+    if (this.match.url && recorded.url !== `${url.origin}${url.pathname}`) {
+      return false;
+    }
+    if (this.match.query && !this.queryMatches(recorded.query, this.getQuery(request))) {
+      return false;
+    }
+    if (this.match.body) {
+      const multipart = fields?.multipart && this.describeMultipart(fields.multipart);
+      // Recorded bodies are redacted, so compare them with the live ones redacted alike
+      if (
+        this.canonicalize(recorded.body) !== this.canonicalize(this.redactBody(request.data)) ||
+        this.canonicalize(recorded.form) !== this.canonicalize(this.redactBody(fields?.form)) ||
+        this.canonicalize(recorded.multipart) !== this.canonicalize(multipart)
+      ) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Mask resolved secrets and the values of redacted fields in a body
+   */
+  private redactBody<T>(body: T): T {
+    return redactFields(SecretStore.redactValue(body), this.redactBodyFields);
+  }
+
+  /**
+   * Replace the content of multipart files with its digest and redact secret fields
+   */
+  private describeMultipart(
+    multipart: NonNullable<RequestFields['multipart']>
+  ): Record<string, RecordedPart> {
+    const described: Record<string, RecordedPart> = {};
+    for (const [field, value] of Object.entries(multipart)) {
+      described[field] =
+        typeof value === 'object'
+          ? {
+              name: value.name,
+              mimeType: value.mimeType,
+              sha256: crypto.createHash('sha256').update(value.buffer).digest('hex'),
+            }
+          : this.redactBodyFields.includes(field)
+            ? REDACTED
+            : SecretStore.redactValue(value);
+    }
+    return described;
+  }
+
+  /**
+   * Compare query parameters, ignoring the values of redacted parameters. A redacted
+   * parameter missing from the live request is ignored as well: it holds credentials
+   * (e.g. an API key in the query), which requests looked up for replay do not carry.
+   */
+  private queryMatches(recorded: Record<string, string>, live: Record<string, string>): boolean {
+    const names = new Set([...Object.keys(recorded), ...Object.keys(live)]);
+    for (const name of names) {
+      const redacted = this.redactQueryParams.includes(name);
+      if (redacted && !(name in live)) {
+        continue;
+      }
+      if (!(name in recorded) || !(name in live)) {
+        return false;
+      }
+      if (!redacted && recorded[name] !== live[name]) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Merge the query string of the URL with the request params
+   */
+  private getQuery(request: ApiRequest): Record<string, string> {
+    const query: Record<string, string> = {};
+    new URL(request.url).searchParams.forEach((value, key) => (query[key] = value));
+    return { ...query, ...request.params };
+  }
+
+  /**
+   * Serialize a body with sorted object keys so key order does not affect matching
+   */
+  private canonicalize(body: any): string {
+    return JSON.stringify(body, (_key, value) =>
+      value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+        : value
+    );
+  }
+
+  /**
+   * Replace secret header values
+   */
+  private redact(headers: Record<string, string>): Record<string, string> {
+    const redacted: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      redacted[name] = this.redactHeaders.includes(name.toLowerCase()) ? REDACTED : value;
+    }
+    return redacted;
+  }
+
+  /**
+   * Replace secret query parameter values
+   */
+  private redactQuery(query: Record<string, string>): Record<string, string> {
+    const redacted: Record<string, string> = {};
+    for (const [name, value] of Object.entries(query)) {
+      redacted[name] = this.redactQueryParams.includes(name) ? REDACTED : value;
+    }
+    return redacted;
+  }
+}
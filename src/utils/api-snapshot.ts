@@ -0,0 +1,233 @@
+import type { TestInfo } from '@playwright/test';
+import * as fs from 'fs';
+import { JSONPath } from 'jsonpath-plus';
+import * as path from 'path';
+import { Logger } from './logger';
+import type { ApiResponse } from '../types/test-data';
+
+/**
+ * A volatile value to mask: a JSONPath into the body, a pattern that string values are
+ * tested against, or a predicate receiving each value and its JSON pointer
+ */
+export type SnapshotMask = string | RegExp | ((value: unknown, pointer: string) => boolean);
+
+/**
+ * Options of `toMatchApiSnapshot`
+ */
+export interface ApiSnapshotOptions {
+  mask?: SnapshotMask[];
+
+  /**
+   * Include response headers: `true` for all but the volatile ones, or a list of names
+   */
+  headers?: boolean | string[];
+
+  /**
+   * Directory of the snapshot files (default `<spec>-snapshots` next to the spec)
+   */
+  snapshotDir?: string;
+}
+
+/**
+ * Patterns for common volatile values, usable in `mask`
+ */
+export const SNAPSHOT_MASKS = {
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  isoDate: /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})?$/,
+  // IPv4, full IPv6, or IPv6 with one `::` and at least one group (a list as in X-Forwarded-For)
+  ipAddress:
+    /^(\d{1,3}(\.\d{1,3}){3}|([0-9a-f]{1,4}:){7}[0-9a-f]{1,4}|[0-9a-f]{1,4}(:[0-9a-f]{1,4}){0,6}::([0-9a-f]{1,4}(:[0-9a-f]{1,4}){0,6})?|::[0-9a-f]{1,4}(:[0-9a-f]{1,4}){0,6})(,\s*\S+)*$/i,
+};
+
+/**
+ * Outcome of comparing a response with its stored snapshot
+ */
+export interface ApiSnapshotResult {
+  pass: boolean;
+  status: 'matched' | 'written' | 'updated' | 'mismatch' | 'missing';
+  snapshotPath: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export const MASKED = '[MASKED]';
+const VOLATILE_HEADERS = [
+  'age',
+  'connection',
+  'content-length',
+  'date',
+  'etag',
+  'keep-alive',
+  'last-modified',
+  'set-cookie',
+  'transfer-encoding',
+  'x-request-id',
+];
+
+/**
+ * Stores response snapshots next to the spec (`<spec>-snapshots/<name>.json`) and compares
+ * later responses with them. Honors `--update-snapshots` unless read-only.
+ */
+export class ApiSnapshot {
+  private static readonly counters = new WeakMap<TestInfo, number>();
+  private readonly testInfo: TestInfo;
+  private readonly readOnly: boolean;
+  private readonly logger: Logger;
+
+  /**
+   * A read-only instance never writes snapshots, e.g. for negated assertions
+   */
+  constructor(testInfo: TestInfo, readOnly = false) {
+    this.testInfo = testInfo;
+    this.readOnly = readOnly;
+    this.logger = new Logger('ApiSnapshot');
+  }
+
+  /**
+   * Compare a response with the named snapshot (by default the test title and a counter)
+   */
+  match(response: ApiResponse, name?: string, options?: ApiSnapshotOptions): ApiSnapshotResult {
+    const snapshotPath = this.pathFor(name, options?.snapshotDir);
+    const actual = this.serialize(response, options);
+    const updateMode = this.readOnly ? 'none' : this.testInfo.config.updateSnapshots;
+
+    if (!fs.existsSync(snapshotPath)) {
+      if (updateMode === 'none') {
+        return { pass: false, status: 'missing', snapshotPath, expected: undefined, actual };
+      }
+      this.write(snapshotPath, actual);
+      this.logger.warn(`Snapshot written: ${snapshotPath}`);
+      return { pass: true, status: 'written', snapshotPath, expected: actual, actual };
+    }
+
+    const expected = JSON.parse(fs.readFileSync(snapshotPath, 'utf-8'));
+    if (JSON.stringify(expected) === JSON.stringify(actual)) {
+      return { pass: true, status: 'matched', snapshotPath, expected, actual };
+    }
+
+    if (updateMode === 'all' || updateMode === 'changed') {
+      this.write(snapshotPath, actual);
+      this.logger.warn(`Snapshot updated: ${snapshotPath}`);
+      return { pass: true, status: 'updated', snapshotPath, expected: actual, actual };
+    }
+
+    return { pass: false, status: 'mismatch', snapshotPath, expected, actual };
+  }
+
+  /**
+   * The snapshot document of a response: status, selected headers and the masked body,
+   * with object keys sorted so key order does not cause diffs
+   */
+  serialize(response: ApiResponse, options?: ApiSnapshotOptions): unknown {
+    const data = Buffer.isBuffer(response.data)
+      ? response.data.toString('base64')
+      : structuredClone(response.data);
+    const body = this.applyMasks(data, options?.mask || []);
+    const headers = this.selectHeaders(response.headers, options?.headers);
+
+    return this.sortKeys({ status: response.status, ...(headers && { headers }), body });
+  }
+
+  private pathFor(name: string | undefined, snapshotDir?: string): string {
+    let snapshotName = name;
+    if (!snapshotName) {
+      const count = (ApiSnapshot.counters.get(this.testInfo) || 0) + 1;
+      ApiSnapshot.counters.set(this.testInfo, count);
+      snapshotName = `${this.testInfo.titlePath.slice(1).join(' ')} ${count}`;
+    }
+
+    const slug = snapshotName
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '');
+    return path.join(snapshotDir || `${this.testInfo.file}-snapshots`, `${slug}.json`);
+  }
+
+  private selectHeaders(
+    headers: Record<string, string>,
+    selection: ApiSnapshotOptions['headers']
+  ): Record<string, string> | null {
+    if (!selection) {
+      return null;
+    }
+
+    const names = Array.isArray(selection) ? selection.map((name) => name.toLowerCase()) : null;
+    const selected: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      const header = name.toLowerCase();
+      if (names ? names.includes(header) : !VOLATILE_HEADERS.includes(header)) {
+        selected[header] = value;
+      }
+    }
+    return selected;
+  }
+
+  private applyMasks(body: unknown, masks: SnapshotMask[]): unknown {
+    let masked = body;
+
+    for (const mask of masks) {
+      if (typeof mask === 'string') {
+        const expression = mask.startsWith('$') ? mask : `$.${mask.replace(/^\./, '')}`;
+        const matches: Array<{ parent: any; parentProperty: string | number | null }> =
+          JSONPath({ path: expression, json: masked as object, resultType: 'all', wrap: true }) ||
+          [];
+        for (const match of matches) {
+          if (match.parent && match.parentProperty !== null) {
+            match.parent[match.parentProperty] = MASKED;
+          } else {
+            masked = MASKED;
+          }
+        }
+      } else {
+        masked = this.maskValues(masked, '', (value, pointer) =>
+          mask instanceof RegExp
+            ? typeof value === 'string' && mask.test(value)
+            : mask(value, pointer)
+        );
+      }
+    }
+
+    return masked;
+  }
+
+  private maskValues(
+    value: unknown,
+    pointer: string,
+    shouldMask: (value: unknown, pointer: string) => boolean
+  ): unknown {
+    if (shouldMask(value, pointer)) {
+      return MASKED;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.maskValues(item, `${pointer}/${index}`, shouldMask));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          this.maskValues(item, `${pointer}/${key}`, shouldMask),
+        ])
+      );
+    }
+    return value;
+  }
+
+  private sortKeys(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.sortKeys(item));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([key, item]) => [key, this.sortKeys(item)])
+      );
+    }
+    return value;
+  }
+
+  private write(snapshotPath: string, snapshot: unknown): void {
+    fs.mkdirSync(path.dirname(snapshotPath), { recursive: true });
+    fs.writeFileSync(snapshotPath, JSON.stringify(snapshot, null, 2) + '\n');
+  }
+}
@@ -0,0 +1,359 @@
+import * as crypto from 'crypto';
+import type { RequestFields } from './api-recorder';
+import { Logger } from './logger';
+import type { ApiRequest } from '../types/test-data';
+
+/**
+ * Pluggable authentication strategy for ApiClient
+ */
+export interface AuthProvider {
+  /**
+   * Add credentials to an outgoing request. `fields` holds the form or multipart fields
+   * sent instead of `request.data`. Request interceptors run afterwards.
+   */
+  apply(request: ApiRequest, fields?: RequestFields): Promise<void>;
+
+  /**
+   * Renew credentials after a 401 response. Resolves to true when the request should be re-sent.
+   */
+  refresh?(): Promise<boolean>;
+}
+
+/**
+ * Authentication configuration accepted through `apiConfig.auth`
+ */
+export type AuthConfig =
+  | { type: 'bearer'; token: string }
+  | { type: 'basic'; username: string; password: string }
+  | { type: 'apiKey'; name: string; value: string; in: 'header' | 'query' }
+  | ({ type: 'oauth2' } & OAuth2Config)
+  | ({ type: 'hmac' } & HmacConfig);
+
+/**
+ * OAuth2 client-credentials or password grant configuration
+ */
+export interface OAuth2Config {
+  grantType: 'client_credentials' | 'password';
+  tokenUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  username?: string;
+  password?: string;
+  scope?: string;
+
+  /**
+   * Seconds before expiry at which a cached token is renewed
+   */
+  expiryMarginSeconds?: number;
+}
+
+/**
+ * HMAC request signing configuration
+ */
+export interface HmacConfig {
+  keyId: string;
+  secret: string;
+  algorithm?: 'sha256' | 'sha512';
+  headerName?: string;
+  timestampHeader?: string;
+}
+
+/**
+ * Static token sent in the Authorization header
+ */
+export class StaticTokenAuthProvider implements AuthProvider {
+  private readonly token: string;
+  private readonly scheme: string;
+
+  constructor(token: string, scheme: string = 'Bearer') {
+    this.token = token;
+    this.scheme = scheme;
+  }
+
+  async apply(request: ApiRequest): Promise<void> {
+    request.headers['Authorization'] = `${this.scheme} ${this.token}`;
+  }
+}
+
+/**
+ * HTTP Basic authentication
+ */
+export class BasicAuthProvider implements AuthProvider {
+  private readonly username: string;
+  private readonly password: string;
+
+  constructor(username: string, password: string) {
+    this.username = username;
+    this.password = password;
+  }
+
+  async apply(request: ApiRequest): Promise<void> {
+    const credentials = Buffer.from(`${this.username}:${this.password}`).toString('base64');
+    request.headers['Authorization'] = `Basic ${credentials}`;
+  }
+}
+
+/**
+ * API key sent as a header or a query parameter
+ */
+export class ApiKeyAuthProvider implements AuthProvider {
+  private readonly name: string;
+  private readonly value: string;
+  private readonly location: 'header' | 'query';
+
+  constructor(name: string, value: string, location: 'header' | 'query' = 'header') {
+    this.name = name;
+    this.value = value;
+    this.location = location;
+  }
+
+  async apply(request: ApiRequest): Promise<void> {
+    if (this.location === 'query') {
+      request.params[this.name] = this.value;
+    } else {
+      request.headers[this.name] = this.value;
+    }
+  }
+}
+
+interface CachedToken {
+  accessToken: string;
+  tokenType: string;
+  refreshToken?: string;
+  expiresAt: number;
+}
+
+/**
+ * OAuth2 client-credentials and password grants with token caching and refresh.
+ * Tokens are cached per worker, keyed by token URL, client, user, scope and a hash of the
+ * client secret and password. Concurrent requests share one token request.
+ */
+export class OAuth2AuthProvider implements AuthProvider {
+  private static readonly tokenCache = new Map<string, CachedToken>();
+  private static readonly pendingTokens = new Map<string, Promise<CachedToken>>();
+
+  private readonly config: OAuth2Config;
+  private readonly cacheKey: string;
+  private readonly logger: Logger;
+
+  constructor(config: OAuth2Config) {
+    this.config = config;
+    const credentials = crypto
+      .createHash('sha256')
+      .update(JSON.stringify([config.clientSecret, config.password]))
+      .digest('hex');
+    this.cacheKey = [
+      config.tokenUrl,
+      config.clientId,
+      config.username,
+      config.scope,
+      credentials,
+    ].join('|');
+    this.logger = new Logger('OAuth2AuthProvider');
+  }
+
+  async apply(request: ApiRequest): Promise<void> {
+    const token = await this.getToken();
+    request.headers['Authorization'] = `${token.tokenType} ${token.accessToken}`;
+  }
+
+  async refresh(): Promise<boolean> {
+    const cached = OAuth2AuthProvider.tokenCache.get(this.cacheKey);
+    OAuth2AuthProvider.tokenCache.delete(this.cacheKey);
+
+    this.logger.info('Access token rejected, requesting a new one');
+    try {
+      await this.sharedTokenRequest(cached?.refreshToken);
+      return true;
+    } catch (error) {
+      this.logger.warn('Access token could not be renewed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Clear every cached token
+   */
+  static clearCache(): void {
+    OAuth2AuthProvider.tokenCache.clear();
+    OAuth2AuthProvider.pendingTokens.clear();
+  }
+
+  /**
+   * Get a valid access token, renewing it when it is about to expire
+   */
+  private async getToken(): Promise<CachedToken> {
+    const cached = OAuth2AuthProvider.tokenCache.get(this.cacheKey);
+    const margin = (this.config.expiryMarginSeconds ?? 30) * 1000;
+
+    if (cached && cached.expiresAt - margin > Date.now()) {
+      return cached;
+    }
+
+    return this.sharedTokenRequest(cached?.refreshToken);
+  }
+
+  /**
+   * Request a token, joining the request already in flight for the same cache key
+   */
+  private sharedTokenRequest(refreshToken?: string): Promise<CachedToken> {
+    const inFlight = OAuth2AuthProvider.pendingTokens.get(this.cacheKey);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const pending: Promise<CachedToken> = this.requestToken(refreshToken).finally(() => {
+      if (OAuth2AuthProvider.pendingTokens.get(this.cacheKey) === pending) {
+        OAuth2AuthProvider.pendingTokens.delete(this.cacheKey);
+      }
+    });
+    OAuth2AuthProvider.pendingTokens.set(this.cacheKey, pending);
+    return pending;
+  }
+
+  /**
+   * Request a token from the token endpoint, using the refresh token when one is available
+   */
+  private async requestToken(refreshToken?: string): Promise<CachedToken> {
+    if (refreshToken) {
+      try {
+        return await this.postTokenRequest({
+          grant_type: 'refresh_token',
+          refresh_token: refreshToken,
+        });
+      } catch (error) {
+        this.logger.warn('Refresh token rejected, falling back to the configured grant:', error);
+      }
+    }
+
+    const body: Record<string, string> = { grant_type: this.config.grantType };
+    if (this.config.grantType === 'password') {
+      body['username'] = this.config.username || '';
+      body['password'] = this.config.password || '';
+    }
+    if (this.config.scope) {
+      body['scope'] = this.config.scope;
+    }
+
+    return this.postTokenRequest(body);
+  }
+
+  /**
+   * Post a form-encoded token request and cache the result
+   */
+  private async postTokenRequest(body: Record<string, string>): Promise<CachedToken> {
+    const form = new URLSearchParams({ ...body, client_id: this.config.clientId });
+    if (this.config.clientSecret) {
+      form.set('client_secret', this.config.clientSecret);
+    }
+
+    const response = await fetch(this.config.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: form.toString(),
+    });
+    if (!response.ok) {
+      throw new Error(`Token request failed: HTTP ${response.status} ${response.statusText}`);
+    }
+
+    const payload: any = await response.json();
+    if (!payload.access_token) {
+      throw new Error('Token response did not contain an access_token');
+    }
+
+    const token: CachedToken = {
+      accessToken: payload.access_token,
+      tokenType: payload.token_type ? this.capitalize(payload.token_type) : 'Bearer',
+      expiresAt: Date.now() + (Number(payload.expires_in) || 3600) * 1000,
+      ...(payload.refresh_token && { refreshToken: payload.refresh_token }),
+    };
+
+    OAuth2AuthProvider.tokenCache.set(this.cacheKey, token);
+    this.logger.info(`Access token obtained via ${body['grant_type']} grant`);
+    return token;
+  }
+
+  /**
+   * Normalize the token type (`bearer` becomes `Bearer`)
+   */
+  private capitalize(value: string): string {
+    return value.charAt(0).toUpperCase() + value.slice(1).toLowerCase();
+  }
+}
+
+/**
+ * HMAC request signing.
+ *
+ * The signed string is `METHOD\npath?query\ntimestamp\nhex(hash(body))`, and the signature
+ * is sent as `HMAC-<ALGORITHM> keyId=<keyId>, signature=<hex>` next to a timestamp header.
+ * Form bodies are hashed URL-encoded; multipart bodies cannot be signed, as their boundary
+ * is only chosen when the request is sent. Requests are signed before request interceptors
+ * run, so an interceptor that changes the method, URL or body invalidates the signature.
+ */
+export class HmacAuthProvider implements AuthProvider {
+  private readonly config: HmacConfig;
+
+  constructor(config: HmacConfig) {
+    this.config = config;
+  }
+
+  async apply(request: ApiRequest, fields?: RequestFields): Promise<void> {
+    if (fields?.multipart) {
+      throw new Error(
+        `Cannot HMAC-sign multipart request ${request.method} ${request.url}: ` +
+          'the multipart body is only encoded when it is sent'
+      );
+    }
+
+    const algorithm = this.config.algorithm || 'sha256';
+    const timestamp = new Date().toISOString();
+
+    const url = new URL(request.url);
+    for (const [name, value] of Object.entries(request.params)) {
+      url.searchParams.set(name, value);
+    }
+
+    const body = fields?.form
+      ? new URLSearchParams(
+          Object.entries(fields.form).map(([name, value]) => [name, String(value)])
+        ).toString()
+      : request.data === undefined
+        ? ''
+        : typeof request.data === 'string' || Buffer.isBuffer(request.data)
+          ? request.data
+          : JSON.stringify(request.data);
+    const bodyHash = crypto.createHash(algorithm).update(body).digest('hex');
+    const signingString = [
+      request.method.toUpperCase(),
+      `${url.pathname}${url.search}`,
+      timestamp,
+      bodyHash,
+    ].join('\n');
+    const signature = crypto
+      .createHmac(algorithm, this.config.secret)
+      .update(signingString)
+      .digest('hex');
+
+    request.headers[this.config.timestampHeader || 'X-Timestamp'] = timestamp;
+    request.headers[this.config.headerName || 'Authorization'] =
+      `HMAC-${algorithm.toUpperCase()} keyId=${this.config.keyId}, signature=${signature}`;
+  }
+}
+
+/**
+ * Create the auth provider described by an `apiConfig.auth` entry
+ */
+export function createAuthProvider(config: AuthConfig): AuthProvider {
+  switch (config.type) {
+    case 'bearer':
+      return new StaticTokenAuthProvider(config.token);
+    case 'basic':
+      return new BasicAuthProvider(config.username, config.password);
+    case 'apiKey':
+      return new ApiKeyAuthProvider(config.name, config.value, config.in);
+    case 'oauth2':
+      return new OAuth2AuthProvider(config);
+    case 'hmac':
+      return new HmacAuthProvider(config);
+  }
+}
@@ -0,0 +1,438 @@
+import type { Address, SearchQuery, User, UserProfile } from '../types/test-data';
+
+/**
+ * Recursively optional version of a type, used for factory overrides
+ */
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+/**
+ * Locales factories generate names, addresses and the preferred language for
+ */
+export type Locale = 'en-US' | 'en-GB' | 'de-DE' | 'fr-FR' | 'es-ES' | 'ja-JP';
+
+export type UserTrait =
+  | 'admin'
+  | 'guest'
+  | 'dark-theme'
+  | 'light-theme'
+  | 'subscribed'
+  | 'unsubscribed';
+
+export type SearchQueryTrait = SearchQuery['category'];
+
+/**
+ * Environment variable fixing the seed of the `dataFactory` fixture, to reproduce a run
+ */
+export const TEST_DATA_SEED_ENV = 'TEST_DATA_SEED';
+
+interface LocaleData {
+  language: string;
+  country: string;
+  firstNames: string[];
+  lastNames: string[];
+  streets: string[];
+  formatStreet: (number: number, street: string) => string;
+
+  /**
+   * Cities with their state and postal code pattern (`#` digit, `A` letter)
+   */
+  cities: Array<{ city: string; state: string; zipCode: string }>;
+}
+
+const LOCALES: Record<Locale, LocaleData> = {
+  'en-US': {
+    language: 'en',
+    country: 'United States',
+    firstNames: ['James', 'Mary', 'Robert', 'Patricia', 'Michael', 'Jennifer', 'David', 'Linda'],
+    lastNames: ['Smith', 'Johnson', 'Williams', 'Brown', 'Jones', 'Miller', 'Davis', 'Wilson'],
+    streets: ['Main St', 'Oak Ave', 'Maple Dr', 'Cedar Ln', 'Park Blvd', 'Washington St'],
+    formatStreet: (number, street) => `${number} ${street}`,
+    cities: [
+      { city: 'Austin', state: 'Texas', zipCode: '787##' },
+      { city: 'Portland', state: 'Oregon', zipCode: '972##' },
+      { city: 'Denver', state: 'Colorado', zipCode: '802##' },
+      { city: 'Boston', state: 'Massachusetts', zipCode: '021##' },
+    ],
+  },
+  'en-GB': {
+    language: 'en',
+    country: 'United Kingdom',
+    firstNames: ['Oliver', 'Amelia', 'George', 'Isla', 'Harry', 'Ava', 'Jack', 'Emily'],
+    lastNames: ['Taylor', 'Davies', 'Evans', 'Thomas', 'Roberts', 'Walker', 'Wright', 'Hughes'],
+    streets: ['High Street', 'Station Road', 'Church Lane', 'Victoria Road', 'Mill Lane'],
+    formatStreet: (number, street) => `${number} ${street}`,
+    cities: [
+      { city: 'London', state: 'Greater London', zipCode: 'SW# #AA' },
+      { city: 'Manchester', state: 'Greater Manchester', zipCode: 'M# #AA' },
+      { city: 'Leeds', state: 'West Yorkshire', zipCode: 'LS# #AA' },
+      { city: 'Bristol', state: 'Bristol', zipCode: 'BS# #AA' },
+    ],
+  },
+  'de-DE': {
+    language: 'de',
+    country: 'Deutschland',
+    firstNames: ['Lukas', 'Anna', 'Jürgen', 'Lea', 'Felix', 'Sophie', 'Jonas', 'Käthe'],
+    lastNames: ['Müller', 'Schmidt', 'Schneider', 'Fischer', 'Weber', 'Becker', 'Schäfer'],
+    streets: ['Hauptstraße', 'Schulstraße', 'Bahnhofstraße', 'Gartenweg', 'Lindenallee'],
+    formatStreet: (number, street) => `${street} ${number}`,
+    cities: [
+      { city: 'Berlin', state: 'Berlin', zipCode: '10###' },
+      { city: 'München', state: 'Bayern', zipCode: '80###' },
+      { city: 'Hamburg', state: 'Hamburg', zipCode: '20###' },
+      { city: 'Köln', state: 'Nordrhein-Westfalen', zipCode: '50###' },
+    ],
+  },
+  'fr-FR': {
+    language: 'fr',
+    country: 'France',
+    firstNames: ['Louis', 'Chloé', 'Gabriel', 'Léa', 'Hugo', 'Manon', 'Théo', 'Camille'],
+    lastNames: ['Martin', 'Bernard', 'Dubois', 'Thomas', 'Robert', 'Petit', 'Lefèvre'],
+    streets: ['rue de la Paix', 'avenue Victor Hugo', 'rue du Moulin', 'boulevard Voltaire'],
+    formatStreet: (number, street) => `${number} ${street}`,
+    cities: [
+      { city: 'Paris', state: 'Île-de-France', zipCode: '750##' },
+      { city: 'Lyon', state: 'Auvergne-Rhône-Alpes', zipCode: '6900#' },
+      { city: 'Marseille', state: "Provence-Alpes-Côte d'Azur", zipCode: '130##' },
+      { city: 'Nantes', state: 'Pays de la Loire', zipCode: '440##' },
+    ],
+  },
+  'es-ES': {
+    language: 'es',
+    country: 'España',
+    firstNames: ['Hugo', 'Lucía', 'Martín', 'Sofía', 'Pablo', 'María', 'Álvaro', 'Paula'],
+    lastNames: ['García', 'Fernández', 'González', 'Rodríguez', 'López', 'Martínez', 'Sánchez'],
+    streets: ['Calle Mayor', 'Calle del Sol', 'Avenida de la Constitución', 'Calle Real'],
+    formatStreet: (number, street) => `${street}, ${number}`,
+    cities: [
+      { city: 'Madrid', state: 'Comunidad de Madrid', zipCode: '280##' },
+      { city: 'Barcelona', state: 'Cataluña', zipCode: '080##' },
+      { city: 'Valencia', state: 'Comunidad Valenciana', zipCode: '460##' },
+      { city: 'Sevilla', state: 'Andalucía', zipCode: '410##' },
+    ],
+  },
+  'ja-JP': {
+    language: 'ja',
+    country: '日本',
+    firstNames: ['Haruto', 'Yui', 'Sota', 'Hina', 'Ren', 'Sakura', 'Yuto', 'Aoi'],
+    lastNames: ['Sato', 'Suzuki', 'Takahashi', 'Tanaka', 'Watanabe', 'Ito', 'Yamamoto'],
+    streets: ['Chuo', 'Sakae', 'Midori', 'Honcho', 'Asahi'],
+    formatStreet: (number, street) => `${street} ${number}-${(number % 9) + 1}`,
+    cities: [
+      { city: 'Shibuya', state: 'Tokyo', zipCode: '150-00##' },
+      { city: 'Kita-ku', state: 'Osaka', zipCode: '530-00##' },
+      { city: 'Naka-ku', state: 'Aichi', zipCode: '460-00##' },
+      { city: 'Chuo-ku', state: 'Hokkaido', zipCode: '060-00##' },
+    ],
+  },
+};
+
+const USER_TRAITS: Record<UserTrait, DeepPartial<User>> = {
+  admin: { role: 'admin' },
+  guest: { role: 'guest' },
+  'dark-theme': { profile: { preferences: { theme: 'dark' } } },
+  'light-theme': { profile: { preferences: { theme: 'light' } } },
+  subscribed: { profile: { preferences: { newsletter: true, notifications: true } } },
+  unsubscribed: { profile: { preferences: { newsletter: false, notifications: false } } },
+};
+
+const SEARCH_TERMS = [
+  'playwright',
+  'typescript',
+  'automation',
+  'testing',
+  'accessibility',
+  'performance',
+  'web development',
+  'api',
+  'selectors',
+  'fixtures',
+];
+
+const EDGE_CASE_QUERIES = [
+  { query: '', description: 'Empty search query' },
+  { query: 'test @#$%^&*()', description: 'Search with special characters' },
+  { query: '测试 тест テスト', description: 'Search with unicode characters' },
+  { query: "'; DROP TABLE users; --", description: 'SQL injection attempt in search' },
+  { query: "<script>alert('xss')</script>", description: 'XSS attempt in search' },
+  { query: '   padded   ', description: 'Search with surrounding whitespace' },
+];
+
+/**
+ * Deterministic pseudo-random numbers (mulberry32): the same seed always yields the
+ * same sequence
+ */
+export class SeededRandom {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * A random 32-bit seed
+   */
+  static newSeed(): number {
+    return Math.floor(Math.random() * 2 ** 32);
+  }
+
+  /**
+   * Next number in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let value = this.state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 2 ** 32;
+  }
+
+  /**
+   * Integer between min and max, both included
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  boolean(probability = 0.5): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    if (items.length === 0) {
+      throw new Error('Cannot pick from an empty list');
+    }
+    return items[Math.floor(this.next() * items.length)] as T;
+  }
+
+  /**
+   * Fill a pattern: `#` becomes a digit, `A` an uppercase letter, anything else is kept
+   */
+  pattern(pattern: string): string {
+    return pattern.replace(/[#A]/g, (placeholder) =>
+      placeholder === '#' ? String(this.int(0, 9)) : String.fromCharCode(this.int(65, 90))
+    );
+  }
+}
+
+/**
+ * Factories generating valid, realistic test data from a seeded PRNG.
+ *
+ * Every factory takes traits and overrides applied in order over the generated record:
+ * `factory.user('admin', 'dark-theme', { profile: { firstName: 'Ada' } })`. Passing a locale
+ * such as `'de-DE'` generates names, address and language for it. Generating the same
+ * calls with the same seed gives the same data.
+ */
+export class DataFactory {
+  /**
+   * Type of the test annotation carrying the seed, printed by the custom reporter
+   */
+  static readonly annotationType = 'data-seed';
+
+  readonly random: SeededRandom;
+  private sequence = 0;
+
+  constructor(seed: number = DataFactory.seedFromEnv()) {
+    this.random = new SeededRandom(seed);
+  }
+
+  get seed(): number {
+    return this.random.seed;
+  }
+
+  /**
+   * Seed set in `TEST_DATA_SEED`, or a new random one
+   */
+  static seedFromEnv(env: Record<string, string | undefined> = process.env): number {
+    const value = env[TEST_DATA_SEED_ENV];
+    if (value === undefined || value === '') {
+      return SeededRandom.newSeed();
+    }
+    if (!/^\d+$/.test(value) || Number(value) >= 2 ** 32) {
+      throw new Error(`${TEST_DATA_SEED_ENV} must be an integer from 0 to 4294967295: '${value}'`);
+    }
+    return Number(value);
+  }
+
+  user(...traits: Array<UserTrait | Locale | DeepPartial<User>>): User {
+    const locale = this.localeOf(traits);
+    const profile = this.profile(locale);
+    const number = ++this.sequence;
+
+    const user = this.build<User, UserTrait>(
+      {
+        id: `user-${number}`,
+        username: '',
+        email: '',
+        password: this.password(),
+        role: 'user',
+        profile,
+      },
+      traits,
+      USER_TRAITS
+    );
+
+    // The handle follows the final name, unless username or email are given explicitly
+    const handle = `${this.ascii(user.profile.firstName)}.${this.ascii(user.profile.lastName)}${number}`;
+    const overrides = traits.filter(
+      (trait): trait is DeepPartial<User> => typeof trait === 'object'
+    );
+    return {
+      ...user,
+      username: overrides.some((override) => override.username !== undefined)
+        ? user.username
+        : handle.replace('.', '_'),
+      email: overrides.some((override) => override.email !== undefined)
+        ? user.email
+        : `${handle}@example.com`,
+    };
+  }
+
+  users(count: number, ...traits: Array<UserTrait | Locale | DeepPartial<User>>): User[] {
+    return Array.from({ length: count }, () => this.user(...traits));
+  }
+
+  profile(...traits: Array<Locale | DeepPartial<UserProfile>>): UserProfile {
+    const locale = this.localeOf(traits);
+    const data = LOCALES[locale];
+    const dateOfBirth = new Date(
+      Date.UTC(this.random.int(1950, 2005), this.random.int(0, 11), this.random.int(1, 28))
+    );
+
+    const profile: UserProfile = {
+      firstName: this.random.pick(data.firstNames),
+      lastName: this.random.pick(data.lastNames),
+      dateOfBirth: dateOfBirth.toISOString().slice(0, 10),
+      address: this.address(locale),
+      preferences: {
+        language: data.language,
+        theme: this.random.boolean() ? 'dark' : 'light',
+        notifications: this.random.boolean(0.7),
+        newsletter: this.random.boolean(0.3),
+      },
+    };
+    return this.build(profile, traits, {});
+  }
+
+  address(...traits: Array<Locale | DeepPartial<Address>>): Address {
+    const data = LOCALES[this.localeOf(traits)];
+    const city = this.random.pick(data.cities);
+
+    const address: Address = {
+      street: data.formatStreet(this.random.int(1, 250), this.random.pick(data.streets)),
+      city: city.city,
+      state: city.state,
+      country: data.country,
+      zipCode: this.random.pattern(city.zipCode),
+    };
+    return this.build(address, traits, {});
+  }
+
+  /**
+   * A search query of the category given as trait (`valid` by default)
+   */
+  searchQuery(...traits: Array<SearchQueryTrait | DeepPartial<SearchQuery>>): SearchQuery {
+    const category =
+      [...traits].reverse().find((trait): trait is SearchQueryTrait => typeof trait === 'string') ||
+      'valid';
+    const number = ++this.sequence;
+
+    let query: Pick<SearchQuery, 'query' | 'expectedResults' | 'description' | 'expectedBehavior'>;
+    switch (category) {
+      case 'valid': {
+        const terms = [this.random.pick(SEARCH_TERMS), this.random.pick(SEARCH_TERMS)];
+        query = {
+          query: [...new Set(terms)].join(' '),
+          expectedResults: this.random.int(1, 20),
+          description: `Valid search for ${terms[0]}`,
+          expectedBehavior: 'pass',
+        };
+        break;
+      }
+      case 'invalid':
+        query = {
+          query: Array.from({ length: 3 }, () => this.random.pattern('AAAA####')).join(' '),
+          expectedResults: 0,
+          description: 'Search for terms that match nothing',
+          expectedBehavior: 'fail',
+        };
+        break;
+      case 'edge-case':
+        query = {
+          ...this.random.pick(EDGE_CASE_QUERIES),
+          expectedResults: 0,
+          expectedBehavior: 'pass',
+        };
+        break;
+      case 'performance':
+        query = {
+          query: this.random.pick(SEARCH_TERMS),
+          expectedResults: this.random.int(100, 1000),
+          description: 'Broad search returning many results',
+          expectedBehavior: 'pass',
+        };
+        break;
+    }
+
+    return this.build({ id: `search-${number}`, category, ...query }, traits, {});
+  }
+
+  /**
+   * Apply the named traits and the overrides, in order, over a generated record
+   */
+  private build<T, Trait extends string>(
+    record: T,
+    traits: Array<string | DeepPartial<T>>,
+    definitions: Partial<Record<Trait, DeepPartial<T>>>
+  ): T {
+    return traits.reduce<T>((built, trait) => {
+      const overrides =
+        typeof trait === 'string' ? definitions[trait as Trait] : (trait as DeepPartial<T>);
+      return overrides ? (this.merge(built, overrides) as T) : built;
+    }, record);
+  }
+
+  private merge(target: unknown, overrides: unknown): unknown {
+    if (!this.isObject(target) || !this.isObject(overrides)) {
+      return overrides === undefined ? target : overrides;
+    }
+    const merged: Record<string, unknown> = { ...target };
+    for (const [key, value] of Object.entries(overrides)) {
+      merged[key] = this.merge(target[key], value);
+    }
+    return merged;
+  }
+
+  /**
+   * Last locale among the traits, or a random one
+   */
+  private localeOf(traits: unknown[]): Locale {
+    const locale = [...traits]
+      .reverse()
+      .find((trait): trait is Locale => typeof trait === 'string' && trait in LOCALES);
+    return locale || this.random.pick(Object.keys(LOCALES) as Locale[]);
+  }
+
+  private password(): string {
+    const letters = this.random.pattern('AAAAAAAA');
+    return `${letters.slice(0, 4)}${letters.slice(4).toLowerCase()}${this.random.pattern('##')}!`;
+  }
+
+  /**
+   * Lowercase ASCII form of a name, for usernames and email addresses
+   */
+  private ascii(name: string): string {
+    return name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^a-zA-Z]/g, '')
+      .toLowerCase();
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,357 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import {
+  buildClientSchema,
+  buildSchema,
+  getIntrospectionQuery,
+  Kind,
+  parse,
+  validate,
+  type GraphQLSchema,
+  type IntrospectionQuery,
+  type OperationTypeNode,
+} from 'graphql';
+import type { ApiClient } from './api-client';
+import { Logger } from './logger';
+import type { ApiResponse } from '../types/test-data';
+
+/**
+ * An entry of the GraphQL `errors` array
+ */
+export interface GraphQLError {
+  message: string;
+  path?: Array<string | number>;
+  locations?: Array<{ line: number; column: number }>;
+  extensions?: Record<string, any>;
+}
+
+/**
+ * Body of a GraphQL response
+ */
+export interface GraphQLPayload<T> {
+  data?: T | null;
+  errors?: GraphQLError[];
+  extensions?: Record<string, any>;
+}
+
+/**
+ * Result of a successful GraphQL operation
+ */
+export interface GraphQLResult<T> {
+  data: T;
+  errors: GraphQLError[];
+  response: ApiResponse<GraphQLPayload<T>>;
+}
+
+/**
+ * Options for a single GraphQL operation
+ */
+export interface GraphQLOperationOptions {
+  variables?: Record<string, any>;
+  operationName?: string;
+  headers?: Record<string, string>;
+
+  /**
+   * Resolve with the `errors` array instead of throwing when the server reports errors
+   */
+  allowErrors?: boolean;
+}
+
+/**
+ * GraphQL client configuration
+ */
+export interface GraphQLClientConfig {
+  endpoint?: string;
+
+  /**
+   * Send automatic persisted queries (sha256 hash first, full document when unknown)
+   */
+  persistedQueries?: boolean;
+
+  /**
+   * Validate operations against the schema before sending them
+   */
+  validateOperations?: boolean;
+
+  /**
+   * SDL file to validate against instead of running an introspection query
+   */
+  schemaPath?: string;
+}
+
+/**
+ * Error thrown when a GraphQL response contains errors, whatever its HTTP status
+ */
+export class GraphQLRequestError extends Error {
+  readonly errors: GraphQLError[];
+  readonly response: ApiResponse<GraphQLPayload<unknown>>;
+
+  constructor(operation: string, errors: GraphQLError[], response: ApiResponse) {
+    super(
+      `GraphQL operation '${operation}' failed (HTTP ${response.status}):\n` +
+        errors
+          .map((error) => `  - ${error.message}${error.path ? ` at ${error.path.join('.')}` : ''}`)
+          .join('\n')
+    );
+    this.name = 'GraphQLRequestError';
+    this.errors = errors;
+    this.response = response;
+  }
+}
+
+/**
+ * Error thrown when an operation is invalid against the GraphQL schema
+ */
+export class GraphQLValidationError extends Error {
+  readonly messages: string[];
+
+  constructor(operation: string, messages: string[]) {
+    super(
+      `GraphQL operation '${operation}' is invalid against the schema:\n` +
+        messages.map((message) => `  - ${message}`).join('\n')
+    );
+    this.name = 'GraphQLValidationError';
+    this.messages = messages;
+  }
+}
+
+/**
+ * GraphQL client that sends operations through an ApiClient, sharing its
+ * request context, headers and auth provider. Operations are POSTed, so they
+ * are retried only when the retry policy sets retryNonIdempotent.
+ */
+export class GraphQLClient {
+  private readonly apiClient: ApiClient;
+  private readonly endpoint: string;
+  private readonly persistedQueries: boolean;
+  private readonly validateOperations: boolean;
+  private readonly schemaPath: string | undefined;
+  private readonly logger: Logger;
+  private schema: GraphQLSchema | null = null;
+
+  constructor(apiClient: ApiClient, config?: GraphQLClientConfig) {
+    this.apiClient = apiClient;
+    this.endpoint = config?.endpoint || '/graphql';
+    this.persistedQueries = config?.persistedQueries ?? false;
+    this.validateOperations = config?.validateOperations ?? false;
+    this.schemaPath = config?.schemaPath;
+    this.logger = new Logger('GraphQLClient');
+  }
+
+  /**
+   * Run a query
+   */
+  async query<T = any>(
+    document: string,
+    options?: GraphQLOperationOptions
+  ): Promise<GraphQLResult<T>> {
+    return this.execute<T>(document, 'query', options);
+  }
+
+  /**
+   * Run a mutation
+   */
+  async mutate<T = any>(
+    document: string,
+    options?: GraphQLOperationOptions
+  ): Promise<GraphQLResult<T>> {
+    return this.execute<T>(document, 'mutation', options);
+  }
+
+  /**
+   * Load the schema from the SDL file or by introspecting the endpoint
+   */
+  async loadSchema(): Promise<GraphQLSchema> {
+    if (this.schema) {
+      return this.schema;
+    }
+
+    if (this.schemaPath) {
+      this.schema = buildSchema(fs.readFileSync(this.schemaPath, 'utf-8'));
+      this.logger.info(`GraphQL schema loaded from: ${this.schemaPath}`);
+    } else {
+      const result = await this.send<IntrospectionQuery>(getIntrospectionQuery(), {
+        operationName: 'IntrospectionQuery',
+      });
+      this.schema = buildClientSchema(result.data);
+      this.logger.info(`GraphQL schema loaded by introspection from: ${this.endpoint}`);
+    }
+
+    return this.schema;
+  }
+
+  /**
+   * Validate an operation against the schema and return every problem found
+   */
+  async validateOperation(document: string): Promise<string[]> {
+    const schema = await this.loadSchema();
+    try {
+      return validate(schema, parse(document)).map((error) => error.message);
+    } catch (error) {
+      return [error instanceof Error ? error.message : String(error)];
+    }
+  }
+
+  /**
+   * Get the persisted-query hash of a document
+   */
+  static hashQuery(document: string): string {
+    return crypto.createHash('sha256').update(document).digest('hex');
+  }
+
+  /**
+   * Check the operation kind, validate (when enabled) and send an operation
+   */
+  private async execute<T>(
+    document: string,
+    kind: 'query' | 'mutation',
+    options?: GraphQLOperationOptions
+  ): Promise<GraphQLResult<T>> {
+    const operation = this.getOperationLabel(document, options?.operationName);
+
+    const actual = this.getOperationKind(document, options?.operationName);
+    if (actual !== kind) {
+      const hint =
+        actual === 'subscription'
+          ? 'subscriptions are not supported'
+          : `use ${actual === 'mutation' ? 'mutate' : 'query'}()`;
+      const error = new Error(
+        `GraphQL operation '${operation}' is a ${actual}, not a ${kind}: ${hint}`
+      );
+      this.logger.error(error.message);
+      throw error;
+    }
+
+    if (this.validateOperations) {
+      const messages = await this.validateOperation(document);
+      if (messages.length > 0) {
+        const error = new GraphQLValidationError(operation, messages);
+        this.logger.error(error.message);
+        throw error;
+      }
+    }
+
+    return this.send<T>(document, options);
+  }
+
+  /**
+   * Post an operation, using the persisted-query protocol when enabled
+   */
+  private async send<T>(
+    document: string,
+    options?: GraphQLOperationOptions
+  ): Promise<GraphQLResult<T>> {
+    const operation = this.getOperationLabel(document, options?.operationName);
+    const body: Record<string, any> = {
+      ...(options?.operationName && { operationName: options.operationName }),
+      ...(options?.variables && { variables: options.variables }),
+    };
+    const requestOptions = options?.headers ? { headers: options.headers } : undefined;
+
+    this.logger.info(`GraphQL operation: ${operation}`);
+
+    let response: ApiResponse<GraphQLPayload<T>>;
+    if (this.persistedQueries) {
+      const extensions = {
+        persistedQuery: { version: 1, sha256Hash: GraphQLClient.hashQuery(document) },
+      };
+      response = await this.apiClient.post(this.endpoint, { ...body, extensions }, requestOptions);
+
+      if (this.isPersistedQueryNotFound(response.data)) {
+        this.logger.info(`Persisted query not registered, sending full document: ${operation}`);
+        response = await this.apiClient.post(
+          this.endpoint,
+          { ...body, query: document, extensions },
+          requestOptions
+        );
+      }
+    } else {
+      response = await this.apiClient.post(
+        this.endpoint,
+        { ...body, query: document },
+        requestOptions
+      );
+    }
+
+    return this.toResult<T>(operation, response, options?.allowErrors ?? false);
+  }
+
+  /**
+   * Turn a response into a result, raising GraphQL errors as typed failures
+   */
+  private toResult<T>(
+    operation: string,
+    response: ApiResponse<GraphQLPayload<T>>,
+    allowErrors: boolean
+  ): GraphQLResult<T> {
+    const payload = response.data;
+    if (!payload || typeof payload !== 'object') {
+      throw new Error(
+        `GraphQL operation '${operation}' returned a non-JSON response (HTTP ${response.status})`
+      );
+    }
+
+    const errors = payload.errors || [];
+    if (errors.length > 0 && !allowErrors) {
+      const error = new GraphQLRequestError(operation, errors, response);
+      this.logger.error(error.message);
+      throw error;
+    }
+
+    if (errors.length === 0 && (response.status < 200 || response.status >= 300)) {
+      throw new GraphQLRequestError(
+        operation,
+        [{ message: `HTTP ${response.status} ${response.statusText}` }],
+        response
+      );
+    }
+
+    return { data: payload.data as T, errors, response };
+  }
+
+  /**
+   * Check for the persisted-query miss reported by the server
+   */
+  private isPersistedQueryNotFound(payload: GraphQLPayload<unknown> | null): boolean {
+    return (payload?.errors || []).some(
+      (error) =>
+        error.message === 'PersistedQueryNotFound' ||
+        error.extensions?.['code'] === 'PERSISTED_QUERY_NOT_FOUND'
+    );
+  }
+
+  /**
+   * Get the kind of the operation a document runs: the one named `operationName`,
+   * or its only operation
+   */
+  private getOperationKind(document: string, operationName?: string): OperationTypeNode {
+    const operations = parse(document).definitions.filter(
+      (definition) => definition.kind === Kind.OPERATION_DEFINITION
+    );
+    const selected = operationName
+      ? operations.find((definition) => definition.name?.value === operationName)
+      : operations.length === 1
+        ? operations[0]
+        : undefined;
+
+    if (!selected) {
+      throw new Error(
+        operationName
+          ? `GraphQL document does not define an operation named '${operationName}'`
+          : `GraphQL document defines ${operations.length} operations: set operationName to pick one`
+      );
+    }
+    return selected.operation;
+  }
+
+  /**
+   * Get a readable name for an operation
+   */
+  private getOperationLabel(document: string, operationName?: string): string {
+    if (operationName) {
+      return operationName;
+    }
+    const match = /^\s*(query|mutation|subscription)\s+(\w+)/m.exec(document);
+    return match?.[2] || 'anonymous';
+  }
+}
@@ -0,0 +1,115 @@
+import type { ApiRequest, ApiResponse } from '../types/test-data';
+
+/**
+ * Mutates (or replaces) an outgoing request. Returning a response short-circuits the call:
+ * nothing is sent and the response goes straight to the response interceptors.
+ * Request interceptors run after the auth provider, so they see its credentials, and a
+ * change to a request signed with `hmac` auth invalidates its signature.
+ */
+export type RequestInterceptor = (
+  request: ApiRequest
+) => ApiRequest | ApiResponse | void | Promise<ApiRequest | ApiResponse | void>;
+
+/**
+ * Post-processes a response, returning a replacement or mutating it in place
+ */
+export type ResponseInterceptor = (
+  response: ApiResponse,
+  request: ApiRequest
+) => ApiResponse | void | Promise<ApiResponse | void>;
+
+/**
+ * Interceptors registered through `apiConfig` or per call
+ */
+export interface InterceptorConfig {
+  request?: RequestInterceptor[];
+  response?: ResponseInterceptor[];
+}
+
+/**
+ * Build a response for a request interceptor to answer with
+ */
+export function syntheticResponse<T = any>(
+  status: number,
+  data: T,
+  headers: Record<string, string> = {}
+): ApiResponse<T> {
+  return { status, statusText: 'Synthetic Response', headers, data, responseTime: 0 };
+}
+
+/**
+ * Ordered request and response interceptors of an ApiClient. Interceptors run in
+ * registration order, client-wide ones before those passed with a single call.
+ */
+export class InterceptorChain {
+  private readonly requestInterceptors: RequestInterceptor[];
+  private readonly responseInterceptors: ResponseInterceptor[];
+
+  constructor(config?: InterceptorConfig) {
+    this.requestInterceptors = [...(config?.request || [])];
+    this.responseInterceptors = [...(config?.response || [])];
+  }
+
+  /**
+   * Register a request interceptor. Returns a function that removes it.
+   */
+  addRequestInterceptor(interceptor: RequestInterceptor): () => void {
+    this.requestInterceptors.push(interceptor);
+    return () => this.remove(this.requestInterceptors, interceptor);
+  }
+
+  /**
+   * Register a response interceptor. Returns a function that removes it.
+   */
+  addResponseInterceptor(interceptor: ResponseInterceptor): () => void {
+    this.responseInterceptors.push(interceptor);
+    return () => this.remove(this.responseInterceptors, interceptor);
+  }
+
+  /**
+   * Run the request interceptors on the request (in place). Resolves to the response of an
+   * interceptor that short-circuited the call, or null when the request should be sent.
+   */
+  async interceptRequest(
+    request: ApiRequest,
+    callInterceptors?: RequestInterceptor[]
+  ): Promise<ApiResponse | null> {
+    for (const interceptor of [...this.requestInterceptors, ...(callInterceptors || [])]) {
+      const result = await interceptor(request);
+      if (!result) {
+        continue;
+      }
+      if ('status' in result) {
+        return result;
+      }
+      if (result !== request) {
+        Object.assign(request, result);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Run the response interceptors, each receiving the previous one's result
+   */
+  async interceptResponse<T>(
+    response: ApiResponse<T>,
+    request: ApiRequest,
+    callInterceptors?: ResponseInterceptor[]
+  ): Promise<ApiResponse<T>> {
+    let current: ApiResponse = response;
+    for (const interceptor of [...this.responseInterceptors, ...(callInterceptors || [])]) {
+      current = (await interceptor(current, request)) || current;
+    }
+
+    return current as ApiResponse<T>;
+  }
+
+  private remove<T>(interceptors: T[], interceptor: T): void {
+    const index = interceptors.indexOf(interceptor);
+    if (index !== -1) {
+      interceptors.splice(index, 1);
+    }
+  }
+}
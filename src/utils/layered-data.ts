@@ -0,0 +1,189 @@
+/**
+ * Data built from layers applied in order, each overriding the previous ones, that
+ * remembers which layer every value came from.
+ *
+ * Objects are deep-merged. Arrays of objects that all carry an `id` (or a `name`) are
+ * merged item by item on that key, new items are appended; other arrays are replaced.
+ */
+export class LayeredData<T = unknown> {
+  private value: unknown = undefined;
+  private readonly sources = new Map<string, string>();
+  private readonly layers: string[] = [];
+
+  /**
+   * The merged data
+   */
+  get data(): T {
+    return this.value as T;
+  }
+
+  /**
+   * Names of the applied layers, in order
+   */
+  get layerSources(): readonly string[] {
+    return this.layers;
+  }
+
+  /**
+   * Merge a layer over the current data
+   */
+  apply(layer: unknown, source: string): void {
+    this.value = this.merge(this.value, layer, '', source);
+    this.layers.push(source);
+  }
+
+  /**
+   * Set one value addressed by path segments, array items being addressed by their `id`
+   * or `name`. A string replacing a value that is not a string is parsed as JSON, so
+   * environment variables can set numbers, booleans, objects and arrays.
+   */
+  override(segments: string[], value: unknown, source: string): void {
+    let parent = this.value as Record<string | number, unknown> | unknown[];
+    let pointer = '';
+
+    for (const [position, segment] of segments.entries()) {
+      let key: string | number = segment;
+      if (Array.isArray(parent)) {
+        key = parent.findIndex((item) => this.keyOf(item) === segment);
+        if (key === -1) {
+          throw new Error(`${source}: no item with id or name '${segment}' at ${pointer || '/'}`);
+        }
+      } else if (!this.isObject(parent)) {
+        throw new Error(`${source}: ${pointer || '/'} is not an object`);
+      }
+
+      const container = parent as Record<string | number, unknown>;
+      pointer += `/${this.escape(String(key))}`;
+      if (position === segments.length - 1) {
+        this.forget(pointer);
+        container[key] = this.assign(this.coerce(container[key], value, source), pointer, source);
+        break;
+      }
+
+      if (container[key] === undefined) {
+        container[key] = {};
+        this.sources.set(pointer, source);
+      }
+      parent = container[key] as Record<string | number, unknown> | unknown[];
+    }
+
+    if (!this.layers.includes(source)) {
+      this.layers.push(source);
+    }
+  }
+
+  /**
+   * Layer that set the value at a JSON pointer, or the closest enclosing value
+   */
+  sourceOf(pointer: string): string | undefined {
+    for (let current = pointer; ; current = current.slice(0, current.lastIndexOf('/'))) {
+      const source = this.sources.get(current);
+      if (source || current === '') {
+        return source;
+      }
+    }
+  }
+
+  /**
+   * Layer of every value by JSON pointer
+   */
+  provenance(): Record<string, string> {
+    return Object.fromEntries(this.sources);
+  }
+
+  private merge(target: unknown, layer: unknown, pointer: string, source: string): unknown {
+    if (this.isObject(target) && this.isObject(layer)) {
+      const merged: Record<string, unknown> = { ...target };
+      for (const [key, value] of Object.entries(layer)) {
+        merged[key] = this.merge(target[key], value, `${pointer}/${this.escape(key)}`, source);
+      }
+      return merged;
+    }
+
+    if (Array.isArray(target) && this.isKeyedArray(target) && this.isKeyedArray(layer)) {
+      const merged: unknown[] = [...target];
+      for (const item of layer) {
+        const index = merged.findIndex((existing) => this.keyOf(existing) === this.keyOf(item));
+        if (index === -1) {
+          merged.push(this.assign(item, `${pointer}/${merged.length}`, source));
+        } else {
+          merged[index] = this.merge(merged[index], item, `${pointer}/${index}`, source);
+        }
+      }
+      return merged;
+    }
+
+    this.forget(pointer);
+    return this.assign(layer, pointer, source);
+  }
+
+  /**
+   * Copy a value into the data, recording its source and the sources of everything in it
+   */
+  private assign(value: unknown, pointer: string, source: string): unknown {
+    if (pointer !== '') {
+      this.sources.set(pointer, source);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.assign(item, `${pointer}/${index}`, source));
+    }
+    if (this.isObject(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          this.assign(item, `${pointer}/${this.escape(key)}`, source),
+        ])
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Drop the recorded sources of a value and everything in it
+   */
+  private forget(pointer: string): void {
+    for (const key of [...this.sources.keys()]) {
+      if (key === pointer || key.startsWith(`${pointer}/`)) {
+        this.sources.delete(key);
+      }
+    }
+  }
+
+  private coerce(current: unknown, value: unknown, source: string): unknown {
+    if (typeof value !== 'string' || current === undefined || typeof current === 'string') {
+      return value;
+    }
+    try {
+      return JSON.parse(value);
+    } catch {
+      throw new Error(`${source}: expected a JSON ${typeof current} but got '${value}'`);
+    }
+  }
+
+  private isKeyedArray(value: unknown): value is Array<Record<string, unknown>> {
+    return (
+      Array.isArray(value) &&
+      value.length > 0 &&
+      value.every((item) => this.keyOf(item) !== undefined)
+    );
+  }
+
+  private keyOf(item: unknown): string | undefined {
+    if (!this.isObject(item)) {
+      return undefined;
+    }
+    const key = item['id'] ?? item['name'];
+    return typeof key === 'string' || typeof key === 'number' ? String(key) : undefined;
+  }
+
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Escape a property name for use as a JSON pointer segment
+   */
+  private escape(segment: string): string {
+    return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+}
@@ -0,0 +1,413 @@
+import type { TestInfo } from '@playwright/test';
+import type { ApiCall } from './api-call-log';
+import type { ApiClient } from './api-client';
+import { Logger } from './logger';
+import { RequestTimer } from './request-timing';
+import { SecretStore } from './secret-store';
+
+/**
+ * A load scenario run repeatedly by every virtual user
+ */
+export type LoadScenario = (
+  client: ApiClient,
+  context: { vu: number; iteration: number }
+) => Promise<void>;
+
+export type LoadMetric =
+  | 'p50'
+  | 'p90'
+  | 'p95'
+  | 'p99'
+  | 'mean'
+  | 'max'
+  | 'errorRate'
+  | 'throughput';
+
+/**
+ * A rule the load test must satisfy, for every request or for one endpoint
+ * (`GET /users/{id}`, with numeric and UUID path segments written as `{id}`)
+ */
+export interface LoadThreshold {
+  metric: LoadMetric;
+  endpoint?: string;
+  max?: number;
+  min?: number;
+}
+
+/**
+ * Load test configuration. Without `duration` or `iterations`, each virtual user runs once.
+ */
+export interface LoadTestConfig {
+  name?: string;
+
+  /**
+   * Number of virtual users running the scenario concurrently
+   */
+  vus: number;
+
+  /**
+   * Milliseconds during which virtual users start new iterations
+   */
+  duration?: number;
+
+  /**
+   * Total iterations shared by every virtual user
+   */
+  iterations?: number;
+
+  /**
+   * Milliseconds over which virtual users are started one after another
+   */
+  rampUp?: number;
+
+  /**
+   * Milliseconds each virtual user pauses between iterations
+   */
+  thinkTime?: number;
+
+  thresholds?: LoadThreshold[];
+}
+
+/**
+ * Latency distribution in milliseconds
+ */
+export interface LatencyStats {
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+
+  /**
+   * Request counts per upper latency bound (`<=100ms`, ..., `>10000ms`)
+   */
+  histogram: Record<string, number>;
+}
+
+/**
+ * Request statistics of one endpoint, or of every request
+ */
+export interface EndpointStats {
+  endpoint: string;
+  requests: number;
+  errors: number;
+  errorRate: number;
+
+  /**
+   * Requests per second
+   */
+  throughput: number;
+  latency: LatencyStats;
+}
+
+/**
+ * Outcome of one threshold rule
+ */
+export interface ThresholdResult {
+  rule: string;
+  actual: number;
+  passed: boolean;
+}
+
+/**
+ * Results of a load test run
+ */
+export interface LoadTestResult {
+  name: string;
+  vus: number;
+  duration: number;
+  iterations: number;
+  failedIterations: number;
+  iterationErrors: string[];
+  total: EndpointStats;
+  endpoints: EndpointStats[];
+  thresholds: ThresholdResult[];
+  passed: boolean;
+}
+
+/**
+ * Error thrown when a load test breaks one of its thresholds
+ */
+export class LoadThresholdError extends Error {
+  readonly result: LoadTestResult;
+
+  constructor(result: LoadTestResult) {
+    super(
+      `Load test '${result.name}' failed its thresholds:\n` +
+        result.thresholds
+          .filter((threshold) => !threshold.passed)
+          .map((threshold) => `  - ${threshold.rule} (actual: ${threshold.actual})`)
+          .join('\n')
+    );
+    this.name = 'LoadThresholdError';
+    this.result = result;
+  }
+}
+
+interface Sample {
+  endpoint: string;
+  duration: number;
+  error: boolean;
+}
+
+const HISTOGRAM_BOUNDS = [10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+const MAX_ITERATION_ERRORS = 10;
+
+/**
+ * Drives an ApiClient scenario with concurrent virtual users and measures every call.
+ *
+ * Samples are the HTTP exchanges of the client's call log, whichever method made them.
+ * Each retry attempt is a sample of its own, so backoff delays are not counted as latency.
+ */
+export class LoadRunner {
+  /**
+   * Name of the test attachment holding the results, read by the custom reporter
+   */
+  static readonly attachmentName = 'load-test-results';
+
+  private readonly apiClient: ApiClient;
+  private readonly testInfo: TestInfo | null;
+  private readonly logger: Logger;
+
+  constructor(apiClient: ApiClient, testInfo?: TestInfo) {
+    this.apiClient = apiClient;
+    this.testInfo = testInfo || null;
+    this.logger = new Logger('LoadRunner');
+  }
+
+  /**
+   * Run a scenario, attach the results to the test and throw when a threshold fails
+   */
+  async run(scenario: LoadScenario, config: LoadTestConfig): Promise<LoadTestResult> {
+    if (config.vus < 1) {
+      throw new Error(`Load test needs at least one virtual user (got ${config.vus})`);
+    }
+
+    const name = config.name || this.testInfo?.title || 'load test';
+    const iterationLimit = config.duration ? (config.iterations ?? Infinity) : config.iterations;
+    const samples: Sample[] = [];
+    const iterationErrors: string[] = [];
+    let startedIterations = 0;
+    let failedIterations = 0;
+
+    this.logger.info(
+      `Starting load test '${name}': ${config.vus} VUs, ` +
+        (config.duration ? `${config.duration}ms` : `${iterationLimit ?? config.vus} iterations`)
+    );
+
+    const startTime = Date.now();
+    const deadline = config.duration ? startTime + config.duration : Infinity;
+
+    const runVirtualUser = async (vu: number): Promise<void> => {
+      const startDelay = config.rampUp ? (config.rampUp * vu) / config.vus : 0;
+      if (startDelay > 0) {
+        await this.sleep(startDelay);
+      }
+
+      let ownIterations = 0;
+      while (Date.now() < deadline) {
+        if (
+          iterationLimit === undefined ? ownIterations >= 1 : startedIterations >= iterationLimit
+        ) {
+          break;
+        }
+        const iteration = startedIterations++;
+        ownIterations++;
+
+        try {
+          await scenario(this.apiClient, { vu, iteration });
+        } catch (error) {
+          failedIterations++;
+          const message = error instanceof Error ? error.message : String(error);
+          if (iterationErrors.length < MAX_ITERATION_ERRORS && !iterationErrors.includes(message)) {
+            iterationErrors.push(message);
+          }
+        }
+
+        if (config.thinkTime) {
+          await this.sleep(config.thinkTime);
+        }
+      }
+    };
+
+    const unsubscribe = this.apiClient
+      .getCallLog()
+      .subscribe((call) => samples.push(this.toSample(call)));
+    try {
+      await Promise.all(Array.from({ length: config.vus }, (_value, vu) => runVirtualUser(vu)));
+    } finally {
+      unsubscribe();
+    }
+    const duration = Date.now() - startTime;
+
+    const endpoints = [...new Set(samples.map((sample) => sample.endpoint))]
+      .sort()
+      .map((endpoint) =>
+        this.summarize(
+          endpoint,
+          samples.filter((sample) => sample.endpoint === endpoint),
+          duration
+        )
+      );
+    const total = this.summarize('all', samples, duration);
+    const thresholds = (config.thresholds || []).map((threshold) =>
+      this.evaluateThreshold(threshold, total, endpoints)
+    );
+
+    const result: LoadTestResult = {
+      name,
+      vus: config.vus,
+      duration,
+      iterations: startedIterations,
+      failedIterations,
+      iterationErrors,
+      total,
+      endpoints,
+      thresholds,
+      passed: thresholds.every((threshold) => threshold.passed),
+    };
+
+    this.logSummary(result);
+    await this.testInfo?.attach(LoadRunner.attachmentName, {
+      body: JSON.stringify(SecretStore.redactValue(result), null, 2),
+      contentType: 'application/json',
+    });
+
+    if (!result.passed) {
+      const error = new LoadThresholdError(result);
+      this.logger.error(error.message);
+      throw error;
+    }
+
+    return result;
+  }
+
+  /**
+   * Turn a logged HTTP exchange into a latency sample
+   */
+  private toSample(call: ApiCall): Sample {
+    return {
+      endpoint: `${call.request.method} ${RequestTimer.endpointOf(call.request.url)}`,
+      duration: call.duration,
+      error: !call.response || call.response.status >= 400,
+    };
+  }
+
+  /**
+   * Compute request statistics for a set of samples
+   */
+  private summarize(endpoint: string, samples: Sample[], duration: number): EndpointStats {
+    const errors = samples.filter((sample) => sample.error).length;
+    return {
+      endpoint,
+      requests: samples.length,
+      errors,
+      errorRate: samples.length > 0 ? this.round(errors / samples.length, 4) : 0,
+      throughput: duration > 0 ? this.round((samples.length * 1000) / duration) : 0,
+      latency: this.latency(samples.map((sample) => sample.duration)),
+    };
+  }
+
+  /**
+   * Compute nearest-rank percentiles and a latency histogram
+   */
+  private latency(durations: number[]): LatencyStats {
+    const sorted = [...durations].sort((a, b) => a - b);
+    const percentile = (rank: number): number => this.round(RequestTimer.percentile(sorted, rank));
+
+    const histogram: Record<string, number> = {};
+    for (const bound of HISTOGRAM_BOUNDS) {
+      histogram[`<=${bound}ms`] = 0;
+    }
+    histogram[`>${HISTOGRAM_BOUNDS[HISTOGRAM_BOUNDS.length - 1]}ms`] = 0;
+    for (const duration of sorted) {
+      const bound = HISTOGRAM_BOUNDS.find((candidate) => duration <= candidate);
+      const bucket = bound ? `<=${bound}ms` : `>${HISTOGRAM_BOUNDS[HISTOGRAM_BOUNDS.length - 1]}ms`;
+      histogram[bucket] = (histogram[bucket] || 0) + 1;
+    }
+
+    return {
+      min: this.round(sorted[0] ?? 0),
+      max: this.round(sorted[sorted.length - 1] ?? 0),
+      mean:
+        sorted.length > 0
+          ? this.round(sorted.reduce((sum, duration) => sum + duration, 0) / sorted.length)
+          : 0,
+      p50: percentile(50),
+      p90: percentile(90),
+      p95: percentile(95),
+      p99: percentile(99),
+      histogram,
+    };
+  }
+
+  /**
+   * Check one threshold rule against the overall or endpoint statistics
+   */
+  private evaluateThreshold(
+    threshold: LoadThreshold,
+    total: EndpointStats,
+    endpoints: EndpointStats[]
+  ): ThresholdResult {
+    const bounds = [
+      threshold.max !== undefined ? `<= ${threshold.max}` : '',
+      threshold.min !== undefined ? `>= ${threshold.min}` : '',
+    ]
+      .filter(Boolean)
+      .join(' and ');
+    const rule = `${threshold.endpoint || 'all'} ${threshold.metric} ${bounds}`;
+
+    const stats = threshold.endpoint
+      ? endpoints.find((endpoint) => endpoint.endpoint === threshold.endpoint)
+      : total;
+    if (!stats) {
+      return { rule: `${rule} (endpoint not called)`, actual: 0, passed: false };
+    }
+
+    const actual =
+      threshold.metric === 'errorRate' || threshold.metric === 'throughput'
+        ? stats[threshold.metric]
+        : stats.latency[threshold.metric];
+    const passed =
+      (threshold.max === undefined || actual <= threshold.max) &&
+      (threshold.min === undefined || actual >= threshold.min);
+
+    return { rule, actual, passed };
+  }
+
+  /**
+   * Log the per-endpoint statistics
+   */
+  private logSummary(result: LoadTestResult): void {
+    this.logger.info(
+      `Load test '${result.name}' finished: ${result.iterations} iterations ` +
+        `(${result.failedIterations} failed) in ${result.duration}ms`
+    );
+    for (const stats of [...result.endpoints, result.total]) {
+      this.logger.info(
+        `${stats.endpoint}: ${stats.requests} req, ${stats.throughput} req/s, ` +
+          `errors ${(stats.errorRate * 100).toFixed(2)}%, p50 ${stats.latency.p50}ms, ` +
+          `p95 ${stats.latency.p95}ms, p99 ${stats.latency.p99}ms`
+      );
+    }
+    for (const threshold of result.thresholds.filter((candidate) => !candidate.passed)) {
+      this.logger.warn(`Threshold failed: ${threshold.rule} (actual: ${threshold.actual})`);
+    }
+  }
+
+  /**
+   * Round to a fixed number of decimals
+   */
+  private round(value: number, digits: number = 2): number {
+    return Math.round(value * 10 ** digits) / 10 ** digits;
+  }
+
+  /**
+   * Sleep for specified milliseconds
+   */
+  private async sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -1,3 +1,5 @@
+import { SecretStore } from './secret-store';
+
 /**
  * Logger utility class for structured logging
  */
@@ -55,7 +57,10 @@ export class Logger {
   /**
    * Internal log method
    */
-  private log(level: string, message: string, data?: any): void {
+  private log(level: string, rawMessage: string, rawData?: any): void {
+    // Mask secrets resolved from test data before anything is printed or persisted
+    const message = SecretStore.redact(rawMessage);
+    const data = SecretStore.redactValue(rawData);
     const timestamp = new Date().toISOString();
     const logMessage = `[${timestamp}] [${level}] [${this.context}] ${message}`;
 
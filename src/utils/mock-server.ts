@@ -0,0 +1,515 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as path from 'path';
+import { Logger } from './logger';
+import { OpenApiValidator } from './openapi-validator';
+
+/**
+ * A request received by the mock server
+ */
+export interface MockRequest {
+  method: string;
+  url: string;
+  path: string;
+  params: Record<string, string>;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+
+  /**
+   * Parsed JSON or form fields, text, or a Buffer for binary content types
+   */
+  body: any;
+}
+
+/**
+ * A response served by the mock server. Objects and arrays are sent as JSON.
+ */
+export interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: any;
+
+  /**
+   * Milliseconds to wait before responding
+   */
+  delay?: number;
+}
+
+export type MockHandler = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+/**
+ * A mocked endpoint. Paths may use `{name}` or `:name` parameters.
+ */
+export interface MockRoute {
+  method: string;
+  path: string;
+  response: MockResponse | MockHandler;
+
+  /**
+   * Number of calls the route answers before falling through to earlier routes
+   */
+  times?: number;
+}
+
+/**
+ * A call received by the mock server, in arrival order
+ */
+export interface MockCall extends MockRequest {
+  sequence: number;
+  timestamp: number;
+
+  /**
+   * `METHOD path` of the route that answered, null when no route matched
+   */
+  route: string | null;
+}
+
+/**
+ * Mock server definition. Routes are registered in the order OpenAPI document,
+ * fixture files, inline routes; when several routes match, the last registered wins.
+ */
+export interface MockServerConfig {
+  routes?: MockRoute[];
+
+  /**
+   * Directory of JSON files, each holding a route or an array of routes with static responses
+   */
+  fixturesDir?: string;
+
+  /**
+   * OpenAPI document whose operations answer with their examples or schema-generated bodies
+   */
+  openApiSpec?: string;
+}
+
+const TEXTUAL_CONTENT_TYPE =
+  /^$|^text\/|^multipart\/|json|xml|javascript|yaml|graphql|html|x-www-form-urlencoded/i;
+
+interface RegisteredRoute {
+  method: string;
+  path: string;
+  pattern: RegExp;
+  paramNames: string[];
+  response: MockResponse | MockHandler;
+  remaining: number;
+}
+
+/**
+ * In-process HTTP mock server on a random local port that records every call it receives
+ */
+export class MockServer {
+  private readonly server: http.Server;
+  private readonly routes: RegisteredRoute[] = [];
+  private readonly receivedCalls: MockCall[] = [];
+  private readonly logger: Logger;
+  private baseUrl: string | null = null;
+
+  constructor(config?: MockServerConfig) {
+    this.logger = new Logger('MockServer');
+    this.server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        this.handle(req, res, Buffer.concat(chunks)).catch((error) => {
+          this.logger.error(`Mock handler failed for ${req.method} ${req.url}:`, error);
+          this.send(res, { status: 500, body: { error: String(error) } });
+        });
+      });
+    });
+
+    if (config?.openApiSpec) {
+      this.loadOpenApi(config.openApiSpec);
+    }
+    if (config?.fixturesDir) {
+      this.loadFixtures(config.fixturesDir);
+    }
+    for (const route of config?.routes || []) {
+      this.addRoute(route);
+    }
+  }
+
+  /**
+   * Base URL of the running server
+   */
+  get url(): string {
+    if (!this.baseUrl) {
+      throw new Error('Mock server is not running. Enable it with test.use({ mockApi: {...} })');
+    }
+    return this.baseUrl;
+  }
+
+  /**
+   * Every call received so far, in arrival order
+   */
+  get calls(): MockCall[] {
+    return [...this.receivedCalls];
+  }
+
+  /**
+   * Start listening on a random local port
+   */
+  async start(): Promise<string> {
+    if (this.baseUrl) {
+      return this.baseUrl;
+    }
+
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    this.baseUrl = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    this.logger.info(`Mock server listening on ${this.baseUrl} (${this.routes.length} routes)`);
+    return this.baseUrl;
+  }
+
+  /**
+   * Stop the server
+   */
+  async stop(): Promise<void> {
+    if (!this.baseUrl) {
+      return;
+    }
+
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+    this.logger.info(`Mock server stopped after ${this.receivedCalls.length} call(s)`);
+    this.baseUrl = null;
+  }
+
+  /**
+   * Register a route that takes precedence over every route registered before it
+   */
+  route(
+    method: string,
+    routePath: string,
+    response: MockResponse | MockHandler,
+    options?: { times?: number }
+  ): void {
+    this.addRoute({
+      method,
+      path: routePath,
+      response,
+      ...(options?.times !== undefined && { times: options.times }),
+    });
+  }
+
+  /**
+   * Get the received calls, optionally filtered by method and by request path or route path
+   */
+  getCalls(method?: string, callPath?: string): MockCall[] {
+    return this.receivedCalls.filter(
+      (call) =>
+        (!method || call.method === method.toUpperCase()) &&
+        (!callPath || call.path === callPath || call.route === `${call.method} ${callPath}`)
+    );
+  }
+
+  /**
+   * Count the received calls, optionally filtered by method and path
+   */
+  callCount(method?: string, callPath?: string): number {
+    return this.getCalls(method, callPath).length;
+  }
+
+  /**
+   * Get the most recent call, optionally filtered by method and path
+   */
+  lastCall(method?: string, callPath?: string): MockCall | undefined {
+    return this.getCalls(method, callPath).at(-1);
+  }
+
+  /**
+   * Forget the received calls (routes are kept)
+   */
+  reset(): void {
+    this.receivedCalls.length = 0;
+  }
+
+  /**
+   * Register the routes of every JSON fixture file in a directory
+   */
+  loadFixtures(dir: string): void {
+    const files = fs
+      .readdirSync(dir)
+      .filter((file) => file.endsWith('.json'))
+      .sort();
+
+    for (const file of files) {
+      const content = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8'));
+      const routes: MockRoute[] = Array.isArray(content) ? content : [content];
+      routes.forEach((route) => this.addRoute(route));
+    }
+
+    this.logger.info(`Mock fixtures loaded from: ${dir} (${files.length} files)`);
+  }
+
+  /**
+   * Register a route per OpenAPI operation, answering with its first success response
+   */
+  loadOpenApi(specPath: string): void {
+    const document = OpenApiValidator.loadDocument(specPath);
+    const basePath = OpenApiValidator.basePathOf(document);
+
+    let count = 0;
+    for (const [pathTemplate, pathItem] of Object.entries<any>(document.paths || {})) {
+      for (const method of Object.keys(pathItem)) {
+        if (!['get', 'put', 'post', 'delete', 'options', 'head', 'patch'].includes(method)) {
+          continue;
+        }
+        this.addRoute({
+          method,
+          path: `${basePath}${pathTemplate}`,
+          response: this.exampleResponse(document, pathItem[method]),
+        });
+        count++;
+      }
+    }
+
+    this.logger.info(`Mock routes generated from OpenAPI document: ${specPath} (${count})`);
+  }
+
+  /**
+   * Compile a route path into a matcher and register it
+   */
+  private addRoute(route: MockRoute): void {
+    const paramNames: string[] = [];
+    const pattern = route.path
+      .split(/({[^}]+}|:\w+)/)
+      .map((part) => {
+        if (part.startsWith('{') || part.startsWith(':')) {
+          paramNames.push(part.replace(/^[{:]|}$/g, ''));
+          return '([^/]+)';
+        }
+        return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+
+    this.routes.push({
+      method: route.method.toUpperCase(),
+      path: route.path,
+      pattern: new RegExp(`^${pattern}/?$`),
+      paramNames,
+      response: route.response,
+      remaining: route.times ?? Infinity,
+    });
+  }
+
+  /**
+   * Record a call and answer it with the last registered matching route
+   */
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    rawBody: Buffer
+  ): Promise<void> {
+    const url = new URL(req.url || '/', `http://${req.headers.host || '127.0.0.1'}`);
+    const method = (req.method || 'GET').toUpperCase();
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(req.headers)) {
+      if (value !== undefined) {
+        headers[name] = Array.isArray(value) ? value.join(', ') : value;
+      }
+    }
+
+    const request: MockRequest = {
+      method,
+      url: url.toString(),
+      path: url.pathname,
+      params: {},
+      query: Object.fromEntries(url.searchParams),
+      headers,
+      body: this.parseBody(rawBody, headers['content-type']),
+    };
+
+    let matched: RegisteredRoute | null = null;
+    for (let index = this.routes.length - 1; index >= 0; index--) {
+      const route = this.routes[index] as RegisteredRoute;
+      const match =
+        route.method === method && route.remaining > 0 && route.pattern.exec(url.pathname);
+      if (match) {
+        route.paramNames.forEach(
+          (name, position) => (request.params[name] = decodeURIComponent(match[position + 1] || ''))
+        );
+        matched = route;
+        break;
+      }
+    }
+
+    this.receivedCalls.push({
+      ...request,
+      sequence: this.receivedCalls.length + 1,
+      timestamp: Date.now(),
+      route: matched ? `${matched.method} ${matched.path}` : null,
+    });
+
+    if (!matched) {
+      this.logger.warn(`No mock route for ${method} ${url.pathname}`);
+      this.send(res, {
+        status: 404,
+        body: { error: `No mock route for ${method} ${url.pathname}` },
+      });
+      return;
+    }
+
+    matched.remaining--;
+    const response =
+      typeof matched.response === 'function' ? await matched.response(request) : matched.response;
+
+    if (response.delay) {
+      await new Promise((resolve) => setTimeout(resolve, response.delay));
+    }
+    this.send(res, response);
+  }
+
+  /**
+   * Decode a request body according to its content type. Binary bodies stay Buffers.
+   */
+  private parseBody(rawBody: Buffer, contentType: string | undefined): any {
+    if (rawBody.length === 0) {
+      return undefined;
+    }
+    if (!TEXTUAL_CONTENT_TYPE.test(contentType || '')) {
+      return rawBody;
+    }
+
+    const text = rawBody.toString('utf-8');
+    if (contentType?.includes('application/json')) {
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    }
+    if (contentType?.includes('application/x-www-form-urlencoded')) {
+      return Object.fromEntries(new URLSearchParams(text));
+    }
+    return text;
+  }
+
+  /**
+   * Write a mock response
+   */
+  private send(res: http.ServerResponse, response: MockResponse): void {
+    const headers: Record<string, string> = { ...response.headers };
+    const hasContentType = Object.keys(headers).some(
+      (name) => name.toLowerCase() === 'content-type'
+    );
+    let payload: string | Buffer | undefined;
+
+    if (Buffer.isBuffer(response.body) || typeof response.body === 'string') {
+      payload = response.body;
+      if (!hasContentType) {
+        headers['Content-Type'] = Buffer.isBuffer(response.body)
+          ? 'application/octet-stream'
+          : 'text/plain';
+      }
+    } else if (response.body !== undefined) {
+      payload = JSON.stringify(response.body);
+      if (!hasContentType) {
+        headers['Content-Type'] = 'application/json';
+      }
+    }
+
+    res.writeHead(response.status ?? 200, headers);
+    res.end(payload);
+  }
+
+  /**
+   * Build the static response of an OpenAPI operation from its first declared success status
+   */
+  private exampleResponse(document: any, operation: any): MockResponse {
+    const responses: Record<string, any> = operation.responses || {};
+    const statusKey =
+      Object.keys(responses).find((key) => /^2(\d\d|XX)$/i.test(key)) ||
+      (responses['default'] ? 'default' : undefined);
+    if (!statusKey) {
+      return { status: 501 };
+    }
+
+    const status = /^\d{3}$/.test(statusKey) ? Number(statusKey) : 200;
+    const declared = OpenApiValidator.resolveRef(document, responses[statusKey]);
+    const [contentType, mediaType] = Object.entries<any>(declared?.content || {})[0] || [];
+    if (!contentType) {
+      return { status };
+    }
+
+    const example =
+      mediaType.example !== undefined
+        ? mediaType.example
+        : mediaType.examples
+          ? OpenApiValidator.resolveRef(document, Object.values<any>(mediaType.examples)[0])?.value
+          : this.generateValue(document, mediaType.schema, 0);
+
+    return {
+      status,
+      headers: { 'Content-Type': contentType },
+      body: contentType.includes('json') ? example : String(example ?? ''),
+    };
+  }
+
+  /**
+   * Generate a value that satisfies a schema, preferring declared examples and defaults
+   */
+  private generateValue(document: any, node: any, depth: number): any {
+    const schema = OpenApiValidator.resolveRef(document, node);
+    if (!schema || depth > 8) {
+      return null;
+    }
+    if (schema.example !== undefined) {
+      return schema.example;
+    }
+    if (schema.default !== undefined) {
+      return schema.default;
+    }
+    if (Array.isArray(schema.enum)) {
+      return schema.enum[0];
+    }
+    if (Array.isArray(schema.allOf)) {
+      return Object.assign(
+        {},
+        ...schema.allOf.map((part: any) => this.generateValue(document, part, depth + 1))
+      );
+    }
+    const variant = schema.oneOf?.[0] || schema.anyOf?.[0];
+    if (variant) {
+      return this.generateValue(document, variant, depth + 1);
+    }
+
+    switch (schema.type) {
+      case 'object': {
+        const value: Record<string, any> = {};
+        for (const [name, property] of Object.entries<any>(schema.properties || {})) {
+          value[name] = this.generateValue(document, property, depth + 1);
+        }
+        return value;
+      }
+      case 'array':
+        return schema.items ? [this.generateValue(document, schema.items, depth + 1)] : [];
+      case 'integer':
+      case 'number':
+        return schema.minimum ?? 0;
+      case 'boolean':
+        return true;
+      case 'string':
+        return this.generateString(schema.format);
+      default:
+        return schema.properties
+          ? this.generateValue(document, { ...schema, type: 'object' }, depth)
+          : null;
+    }
+  }
+
+  /**
+   * Generate a string for a schema format
+   */
+  private generateString(format: string | undefined): string {
+    const samples: Record<string, string> = {
+      email: 'user@example.com',
+      uri: 'https://example.com',
+      url: 'https://example.com',
+      uuid: '00000000-0000-4000-8000-000000000000',
+      date: '2024-01-01',
+      'date-time': '2024-01-01T00:00:00Z',
+      ipv4: '127.0.0.1',
+    };
+    return (format && samples[format]) || 'string';
+  }
+}
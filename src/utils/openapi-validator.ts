@@ -0,0 +1,601 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import type { RequestFields } from './api-recorder';
+import { Logger } from './logger';
+import { SchemaValidator } from './schema-validator';
+import type { ApiResponse } from '../types/test-data';
+
+/**
+ * A single mismatch between an API call and the OpenAPI document
+ */
+export interface ContractViolation {
+  location: 'request.path' | 'request.query' | 'request.header' | 'request.body' | 'response';
+  message: string;
+}
+
+/**
+ * The parts of an outgoing request checked against the OpenAPI document. Form and
+ * multipart bodies are given as their fields.
+ */
+export interface ContractRequest extends RequestFields {
+  method: string;
+  url: string;
+  params?: Record<string, string>;
+  headers?: Record<string, string>;
+  data?: any;
+}
+
+/**
+ * Operations and status codes of one OpenAPI document that no test exercised
+ */
+export interface ContractCoverage {
+  spec: string;
+  totalOperations: number;
+  coveredOperations: number;
+  uncoveredOperations: string[];
+  uncoveredStatuses: Record<string, string[]>;
+}
+
+/**
+ * Error thrown when an API call does not match its OpenAPI operation
+ */
+export class ContractViolationError extends Error {
+  readonly violations: ContractViolation[];
+
+  constructor(method: string, endpoint: string, violations: ContractViolation[]) {
+    super(
+      `${method} ${endpoint} violates the OpenAPI contract:\n` +
+        violations.map((violation) => `  - [${violation.location}] ${violation.message}`).join('\n')
+    );
+    this.name = 'ContractViolationError';
+    this.violations = violations;
+  }
+}
+
+interface OperationMatch {
+  method: string;
+  pathTemplate: string;
+  operation: any;
+  pathParams: Record<string, string>;
+  parameters: Array<{ parameter: any; pointer: string }>;
+  pointer: string;
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+const COVERAGE_DIR = path.join('test-results', 'openapi-coverage');
+
+/**
+ * Validates API calls against an OpenAPI 3 document and records which
+ * operations and status codes were exercised
+ */
+export class OpenApiValidator {
+  /**
+   * Documents this process has already recorded in its coverage file
+   */
+  private static readonly registeredSpecs = new Set<string>();
+
+  private readonly specPath: string;
+  private readonly specId: string;
+  private readonly document: any;
+  private readonly basePath: string;
+  private readonly schemaValidator: SchemaValidator;
+  private readonly logger: Logger;
+
+  constructor(specPath: string) {
+    this.specPath = path.resolve(specPath);
+    this.specId = path.basename(this.specPath);
+    this.logger = new Logger('OpenApiValidator');
+    this.document = OpenApiValidator.loadDocument(this.specPath);
+    this.basePath = OpenApiValidator.basePathOf(this.document);
+
+    this.schemaValidator = new SchemaValidator();
+    this.registerOpenApiFormats();
+    this.schemaValidator.addSchema(this.normalizeSchema(this.document), this.specId);
+    this.logger.info(`OpenAPI document loaded: ${this.specPath}`);
+
+    // Recorded up front, so a document whose operations no test calls is reported as uncovered
+    if (!OpenApiValidator.registeredSpecs.has(this.specPath)) {
+      OpenApiValidator.registeredSpecs.add(this.specPath);
+      this.appendCoverage({ spec: this.specPath });
+    }
+  }
+
+  /**
+   * Validate a request and its response against the matching operation
+   */
+  validate(request: ContractRequest, response: ApiResponse): ContractViolation[] {
+    const url = new URL(request.url);
+    const method = request.method.toLowerCase();
+    const match = this.findOperation(method, url.pathname);
+
+    if (!match) {
+      return [
+        {
+          location: 'request.path',
+          message: `No operation in ${this.specId} matches ${request.method} ${url.pathname}`,
+        },
+      ];
+    }
+
+    const query: Record<string, string> = {};
+    url.searchParams.forEach((value, key) => (query[key] = value));
+    Object.assign(query, request.params);
+
+    const violations = [
+      ...this.validateParameters(match, query, request.headers || {}),
+      ...this.validateRequestBody(match, request),
+      ...this.validateResponse(match, response),
+    ];
+
+    return violations;
+  }
+
+  /**
+   * Load an OpenAPI document from a JSON or YAML file
+   */
+  static loadDocument(specPath: string): any {
+    const content = fs.readFileSync(specPath, 'utf-8');
+    return specPath.endsWith('.json') ? JSON.parse(content) : yaml.parse(content);
+  }
+
+  /**
+   * Get the path prefix declared by a document's first server entry
+   */
+  static basePathOf(document: any): string {
+    const serverUrl: string | undefined = document.servers?.[0]?.url;
+    if (!serverUrl) {
+      return '';
+    }
+    return new URL(serverUrl, 'http://localhost').pathname.replace(/\/$/, '');
+  }
+
+  /**
+   * Resolve a local `$ref` inside a document
+   */
+  static resolveRef(document: any, node: any): any {
+    let current = node;
+    while (current && typeof current.$ref === 'string' && current.$ref.startsWith('#/')) {
+      current = current.$ref
+        .slice(2)
+        .split('/')
+        .map((segment: string) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+        .reduce((value: any, segment: string) => value?.[segment], document);
+    }
+    return current;
+  }
+
+  /**
+   * Find the operation for a method and request path, preferring literal paths
+   */
+  private findOperation(method: string, pathname: string): OperationMatch | null {
+    const requestPath =
+      this.basePath && pathname.startsWith(this.basePath)
+        ? pathname.slice(this.basePath.length) || '/'
+        : pathname;
+
+    const candidates = Object.keys(this.document.paths || {}).sort(
+      (a, b) => (a.match(/{/g) || []).length - (b.match(/{/g) || []).length
+    );
+
+    for (const pathTemplate of candidates) {
+      const pathItem = this.document.paths[pathTemplate];
+      const operation = pathItem[method];
+      if (!operation) {
+        continue;
+      }
+
+      const pathParams = this.matchPathTemplate(pathTemplate, requestPath);
+      if (!pathParams) {
+        continue;
+      }
+
+      const pathItemPointer = `#/paths/${this.escapePointer(pathTemplate)}`;
+      return {
+        method,
+        pathTemplate,
+        operation,
+        pathParams,
+        parameters: this.mergeParameters(pathItem, pathItemPointer, method),
+        pointer: `${pathItemPointer}/${method}`,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Match a request path against a path template and extract its parameters
+   */
+  private matchPathTemplate(
+    pathTemplate: string,
+    requestPath: string
+  ): Record<string, string> | null {
+    const names: string[] = [];
+    const pattern = pathTemplate
+      .split(/({[^}]+})/)
+      .map((part) => {
+        if (part.startsWith('{') && part.endsWith('}')) {
+          names.push(part.slice(1, -1));
+          return '([^/]+)';
+        }
+        return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+
+    const match = new RegExp(`^${pattern}/?$`).exec(requestPath);
+    if (!match) {
+      return null;
+    }
+
+    const params: Record<string, string> = {};
+    names.forEach((name, index) => (params[name] = decodeURIComponent(match[index + 1] || '')));
+    return params;
+  }
+
+  /**
+   * Merge path-level and operation-level parameters (operation wins), keeping the
+   * JSON pointer of each declaration so its schema can be validated in place
+   */
+  private mergeParameters(
+    pathItem: any,
+    pathItemPointer: string,
+    method: string
+  ): Array<{ parameter: any; pointer: string }> {
+    const merged = new Map<string, { parameter: any; pointer: string }>();
+    const declarations = [
+      { list: pathItem.parameters || [], pointer: `${pathItemPointer}/parameters` },
+      {
+        list: pathItem[method].parameters || [],
+        pointer: `${pathItemPointer}/${method}/parameters`,
+      },
+    ];
+
+    for (const { list, pointer } of declarations) {
+      list.forEach((declaration: any, index: number) => {
+        const parameter = this.resolveRef(declaration);
+        merged.set(`${parameter.in}:${parameter.name}`, {
+          parameter,
+          pointer: declaration.$ref || `${pointer}/${index}`,
+        });
+      });
+    }
+
+    return [...merged.values()];
+  }
+
+  /**
+   * Validate path, query and header parameters
+   */
+  private validateParameters(
+    match: OperationMatch,
+    query: Record<string, string>,
+    headers: Record<string, string>
+  ): ContractViolation[] {
+    const violations: ContractViolation[] = [];
+    const lowerCaseHeaders: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+      lowerCaseHeaders[name.toLowerCase()] = value;
+    }
+
+    for (const { parameter, pointer } of match.parameters) {
+      const sources: Record<string, Record<string, string>> = {
+        path: match.pathParams,
+        query,
+        header: lowerCaseHeaders,
+      };
+      const source = sources[parameter.in];
+      if (!source) {
+        continue;
+      }
+
+      const name = parameter.in === 'header' ? parameter.name.toLowerCase() : parameter.name;
+      const location = `request.${parameter.in}` as ContractViolation['location'];
+      const value = source[name];
+
+      if (value === undefined) {
+        if (parameter.required || parameter.in === 'path') {
+          violations.push({
+            location,
+            message: `Missing required ${parameter.in} parameter '${parameter.name}'`,
+          });
+        }
+        continue;
+      }
+
+      if (parameter.schema) {
+        const result = this.schemaValidator.validate(
+          this.coerceParameter(value, this.resolveRef(parameter.schema)),
+          `${this.specId}${pointer}/schema`
+        );
+        for (const error of result.errors) {
+          violations.push({
+            location,
+            message: `Parameter '${parameter.name}' ${error.message}`,
+          });
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Validate the request body against the declared JSON, form or multipart schema
+   */
+  private validateRequestBody(
+    match: OperationMatch,
+    request: ContractRequest
+  ): ContractViolation[] {
+    const requestBody = match.operation.requestBody
+      ? this.resolveRef(match.operation.requestBody)
+      : null;
+
+    if (!requestBody) {
+      return [];
+    }
+
+    const fields = request.form || request.multipart;
+    if (request.data === undefined && !fields) {
+      return requestBody.required
+        ? [{ location: 'request.body', message: 'Missing required request body' }]
+        : [];
+    }
+
+    const contentType = request.form
+      ? 'application/x-www-form-urlencoded'
+      : request.multipart
+        ? 'multipart/form-data'
+        : 'application/json';
+    const mediaType = this.findMediaType(requestBody.content, contentType);
+    if (!mediaType?.schema) {
+      return [];
+    }
+    const data = fields ? this.fieldsBody(fields, mediaType.schema) : request.data;
+
+    const pointer = match.operation.requestBody.$ref
+      ? match.operation.requestBody.$ref
+      : `${match.pointer}/requestBody`;
+    const result = this.schemaValidator.validate(
+      data,
+      `${this.specId}${pointer}/content/${this.escapePointer(mediaType.name)}/schema`
+    );
+
+    return result.errors.map((error) => ({
+      location: 'request.body' as const,
+      message: `${error.path}: ${error.message}`,
+    }));
+  }
+
+  /**
+   * Validate the response status and body, and record the exercised status
+   */
+  private validateResponse(match: OperationMatch, response: ApiResponse): ContractViolation[] {
+    const responses = match.operation.responses || {};
+    const status = String(response.status);
+    const statusKey = [status, `${status[0]}XX`, 'default'].find((key) => key in responses);
+
+    if (!statusKey) {
+      return [
+        {
+          location: 'response',
+          message: `Status ${status} is not declared for ${match.pathTemplate} (declared: ${Object.keys(responses).join(', ')})`,
+        },
+      ];
+    }
+
+    this.recordCoverage(match, statusKey);
+
+    const declared = this.resolveRef(responses[statusKey]);
+    const contentType = (response.headers['content-type'] || '').split(';')[0]?.trim() || '';
+    const mediaType = this.findMediaType(declared.content, contentType);
+    if (!mediaType?.schema || typeof response.data === 'string') {
+      return [];
+    }
+
+    const pointer = responses[statusKey].$ref
+      ? responses[statusKey].$ref
+      : `${match.pointer}/responses/${statusKey}`;
+    const result = this.schemaValidator.validate(
+      response.data,
+      `${this.specId}${pointer}/content/${this.escapePointer(mediaType.name)}/schema`
+    );
+
+    return result.errors.map((error) => ({
+      location: 'response' as const,
+      message: `${error.path}: ${error.message}`,
+    }));
+  }
+
+  /**
+   * Pick the declared media type for a content type, falling back to wildcards
+   */
+  private findMediaType(
+    content: Record<string, any> | undefined,
+    contentType: string
+  ): { name: string; schema: any } | null {
+    if (!content) {
+      return null;
+    }
+
+    const [type] = contentType.split('/');
+    const name = [contentType, `${type}/*`, '*/*'].find((key) => key in content);
+    return name ? { name, schema: content[name].schema } : null;
+  }
+
+  /**
+   * Form or multipart fields as their schema sees them: values sent as text, converted to
+   * the declared property types, and file parts as their file name
+   */
+  private fieldsBody(
+    fields: NonNullable<ContractRequest['form'] | ContractRequest['multipart']>,
+    schema: any
+  ): Record<string, unknown> {
+    const properties = this.resolveRef(schema)?.properties || {};
+    const body: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(fields)) {
+      body[name] =
+        typeof value === 'object'
+          ? value.name
+          : this.coerceParameter(String(value), this.resolveRef(properties[name]));
+    }
+    return body;
+  }
+
+  /**
+   * Convert a string parameter value to the type its schema declares
+   */
+  private coerceParameter(value: string, schema: any): unknown {
+    switch (schema?.type) {
+      case 'integer':
+      case 'number':
+        return value.trim() !== '' && !Number.isNaN(Number(value)) ? Number(value) : value;
+      case 'boolean':
+        return value === 'true' ? true : value === 'false' ? false : value;
+      case 'array':
+        return value.split(',').map((item) => this.coerceParameter(item, schema.items));
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Resolve a local `$ref` inside the document
+   */
+  private resolveRef(node: any): any {
+    return OpenApiValidator.resolveRef(this.document, node);
+  }
+
+  /**
+   * Escape a value for use as a URI-encoded JSON pointer segment
+   */
+  private escapePointer(segment: string): string {
+    return encodeURIComponent(segment.replace(/~/g, '~0').replace(/\//g, '~1'));
+  }
+
+  /**
+   * Translate OpenAPI 3.0 `nullable` into a JSON Schema type union
+   */
+  private normalizeSchema(node: any): any {
+    if (Array.isArray(node)) {
+      return node.map((item) => this.normalizeSchema(item));
+    }
+    if (!node || typeof node !== 'object') {
+      return node;
+    }
+
+    const normalized: Record<string, any> = {};
+    for (const [key, value] of Object.entries(node)) {
+      normalized[key] = this.normalizeSchema(value);
+    }
+    if (normalized['nullable'] === true && typeof normalized['type'] === 'string') {
+      normalized['type'] = [normalized['type'], 'null'];
+    }
+    return normalized;
+  }
+
+  /**
+   * Register the OpenAPI-specific formats that JSON Schema does not define
+   */
+  private registerOpenApiFormats(): void {
+    this.schemaValidator.addFormat('int32', /^-?\d+$/);
+    this.schemaValidator.addFormat('int64', /^-?\d+$/);
+    this.schemaValidator.addFormat('float', () => true);
+    this.schemaValidator.addFormat('double', () => true);
+    this.schemaValidator.addFormat('byte', /^[A-Za-z0-9+/]*={0,2}$/);
+    this.schemaValidator.addFormat('binary', () => true);
+    this.schemaValidator.addFormat('password', () => true);
+  }
+
+  /**
+   * Record an exercised operation and status
+   */
+  private recordCoverage(match: OperationMatch, statusKey: string): void {
+    this.appendCoverage({
+      spec: this.specPath,
+      operation: `${match.method.toUpperCase()} ${match.pathTemplate}`,
+      status: statusKey,
+    });
+  }
+
+  /**
+   * Append an entry to this worker's coverage file: a document, or a hit of one of its
+   * operations
+   */
+  private appendCoverage(entry: { spec: string; operation?: string; status?: string }): void {
+    try {
+      if (!fs.existsSync(COVERAGE_DIR)) {
+        fs.mkdirSync(COVERAGE_DIR, { recursive: true });
+      }
+
+      fs.appendFileSync(
+        path.join(COVERAGE_DIR, `hits-${process.pid}.jsonl`),
+        JSON.stringify(entry) + '\n'
+      );
+    } catch (error) {
+      this.logger.warn('Failed to record OpenAPI coverage:', error);
+    }
+  }
+
+  /**
+   * Remove coverage recorded by a previous run
+   */
+  static resetCoverage(): void {
+    fs.rmSync(COVERAGE_DIR, { recursive: true, force: true });
+    OpenApiValidator.registeredSpecs.clear();
+  }
+
+  /**
+   * Summarize the operations and status codes that no recorded call exercised, for every
+   * document a validator was created for
+   */
+  static summarizeCoverage(): ContractCoverage[] {
+    if (!fs.existsSync(COVERAGE_DIR)) {
+      return [];
+    }
+
+    const hits = new Map<string, Set<string>>();
+    for (const file of fs.readdirSync(COVERAGE_DIR).filter((name) => name.endsWith('.jsonl'))) {
+      const lines = fs.readFileSync(path.join(COVERAGE_DIR, file), 'utf-8').split('\n');
+      for (const line of lines.filter(Boolean)) {
+        const hit = JSON.parse(line);
+        const specHits = hits.get(hit.spec) || new Set<string>();
+        if (hit.operation) {
+          specHits.add(`${hit.operation} ${hit.status}`);
+        }
+        hits.set(hit.spec, specHits);
+      }
+    }
+
+    return [...hits.entries()].map(([spec, specHits]) => {
+      const document = OpenApiValidator.loadDocument(spec);
+      const coverage: ContractCoverage = {
+        spec,
+        totalOperations: 0,
+        coveredOperations: 0,
+        uncoveredOperations: [],
+        uncoveredStatuses: {},
+      };
+
+      for (const [pathTemplate, pathItem] of Object.entries<any>(document.paths || {})) {
+        for (const method of HTTP_METHODS.filter((name) => pathItem[name])) {
+          const operation = `${method.toUpperCase()} ${pathTemplate}`;
+          const statuses = Object.keys(pathItem[method].responses || {});
+          const missing = statuses.filter((status) => !specHits.has(`${operation} ${status}`));
+
+          coverage.totalOperations++;
+          if (missing.length === statuses.length) {
+            coverage.uncoveredOperations.push(operation);
+          } else {
+            coverage.coveredOperations++;
+            if (missing.length > 0) {
+              coverage.uncoveredStatuses[operation] = missing;
+            }
+          }
+        }
+      }
+
+      return coverage;
+    });
+  }
+}
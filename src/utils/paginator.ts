@@ -0,0 +1,311 @@
+import type { ApiClient, ApiRequestOptions } from './api-client';
+import { Logger } from './logger';
+import { ValueExtractor } from './value-extractor';
+import type { ApiResponse } from '../types/test-data';
+
+/**
+ * How a list endpoint pages through its results
+ */
+export type PaginationStrategy =
+  | {
+      /**
+       * Page numbers: `?page=1&per_page=20`
+       */
+      type: 'page';
+      pageParam?: string;
+      sizeParam?: string;
+      pageSize?: number;
+      firstPage?: number;
+    }
+  | {
+      /**
+       * Offset and limit: `?offset=40&limit=20`
+       */
+      type: 'offset';
+      offsetParam?: string;
+      limitParam?: string;
+      limit: number;
+    }
+  | {
+      /**
+       * Opaque cursor read from the response body and sent back as a query parameter
+       */
+      type: 'cursor';
+      cursorPath: string;
+      cursorParam?: string;
+    }
+  | {
+      /**
+       * RFC 5988 `Link` header with a `rel="next"` URL
+       */
+      type: 'link';
+    };
+
+/**
+ * Options of a paginated listing
+ */
+export interface PaginationOptions extends Omit<ApiRequestOptions, 'responseType'> {
+  strategy: PaginationStrategy;
+
+  /**
+   * JSONPath of the items in each page (the body itself when it is an array)
+   */
+  itemsPath?: string;
+
+  /**
+   * JSONPath of the total item count reported by the API, checked by `assertTotal`
+   */
+  totalPath?: string;
+
+  /**
+   * Fail instead of requesting more than this many pages (default 100)
+   */
+  maxPages?: number;
+}
+
+/**
+ * One fetched page
+ */
+export interface Page<T> {
+  /**
+   * 1-based position of the page in the iteration
+   */
+  number: number;
+  items: T[];
+  response: ApiResponse;
+}
+
+/**
+ * Error thrown when pagination runs past `maxPages`, fails, or yields an unexpected total
+ */
+export class PaginationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaginationError';
+  }
+}
+
+/**
+ * Follows a list endpoint's pagination. Iterating yields items; `pages()` yields pages.
+ *
+ * ```ts
+ * for await (const user of apiClient.paginate<User>('/users', { strategy: { type: 'link' } })) {
+ *   expect(user.email).toContain('@');
+ * }
+ * ```
+ */
+export class Paginator<T = any> implements AsyncIterable<T> {
+  private readonly apiClient: ApiClient;
+  private readonly endpoint: string;
+  private readonly options: PaginationOptions;
+  private readonly logger: Logger;
+  private readonly valueExtractor: ValueExtractor;
+  private lastResponse: ApiResponse | null = null;
+
+  constructor(apiClient: ApiClient, endpoint: string, options: PaginationOptions) {
+    this.apiClient = apiClient;
+    this.endpoint = endpoint;
+    this.options = options;
+    this.logger = new Logger('Paginator');
+    this.valueExtractor = new ValueExtractor();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    for await (const page of this.pages()) {
+      yield* page.items;
+    }
+  }
+
+  /**
+   * Fetch pages one at a time until the strategy reports no next page
+   */
+  async *pages(): AsyncGenerator<Page<T>> {
+    const {
+      strategy,
+      itemsPath,
+      totalPath: _totalPath,
+      maxPages = 100,
+      ...requestOptions
+    } = this.options;
+    let request: { endpoint: string; params: Record<string, string> } | null = {
+      endpoint: this.endpoint,
+      params: { ...requestOptions.params, ...this.firstPageParams() },
+    };
+
+    for (let number = 1; request; number++) {
+      if (number > maxPages) {
+        throw new PaginationError(
+          `Pagination of ${this.endpoint} exceeded maxPages (${maxPages}); raise maxPages or check the ${strategy.type} strategy`
+        );
+      }
+
+      const response = await this.apiClient.get(request.endpoint, {
+        ...requestOptions,
+        params: request.params,
+      });
+      if (response.status >= 400) {
+        throw new PaginationError(
+          `Page ${number} of ${this.endpoint} failed: HTTP ${response.status} ${response.statusText}`
+        );
+      }
+      this.lastResponse = response;
+
+      const items = this.extractItems(response, itemsPath);
+      this.logger.info(`Page ${number} of ${this.endpoint}: ${items.length} item(s)`);
+      yield { number, items, response };
+
+      request = this.nextRequest(request.params, response, items);
+    }
+  }
+
+  /**
+   * Fetch every page and return all items
+   */
+  async collect(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) {
+      items.push(item);
+    }
+    return items;
+  }
+
+  /**
+   * Count the items across all pages
+   */
+  async count(): Promise<number> {
+    let count = 0;
+    for await (const page of this.pages()) {
+      count += page.items.length;
+    }
+    return count;
+  }
+
+  /**
+   * Collect every item and fail unless their number matches `expected`, or the total the
+   * API reports at `totalPath` when no number is given
+   */
+  async assertTotal(expected?: number): Promise<T[]> {
+    const items = await this.collect();
+
+    let total = expected;
+    if (total === undefined) {
+      if (!this.options.totalPath || !this.lastResponse) {
+        throw new PaginationError('assertTotal needs an expected count or a totalPath');
+      }
+      total = Number(this.apiClient.extractValue(this.lastResponse, this.options.totalPath));
+    }
+
+    if (items.length !== total) {
+      throw new PaginationError(
+        `Expected ${total} item(s) from ${this.endpoint} but pagination returned ${items.length}`
+      );
+    }
+    this.logger.success(`Pagination of ${this.endpoint} returned all ${total} item(s)`);
+    return items;
+  }
+
+  private firstPageParams(): Record<string, string> {
+    const strategy = this.options.strategy;
+    switch (strategy.type) {
+      case 'page':
+        return {
+          [strategy.pageParam || 'page']: String(strategy.firstPage ?? 1),
+          ...(strategy.pageSize && {
+            [strategy.sizeParam || 'per_page']: String(strategy.pageSize),
+          }),
+        };
+      case 'offset':
+        return {
+          [strategy.offsetParam || 'offset']: '0',
+          [strategy.limitParam || 'limit']: String(strategy.limit),
+        };
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Work out the next request, or null after the last page
+   */
+  private nextRequest(
+    params: Record<string, string>,
+    response: ApiResponse,
+    items: T[]
+  ): { endpoint: string; params: Record<string, string> } | null {
+    const strategy = this.options.strategy;
+
+    switch (strategy.type) {
+      case 'page': {
+        const pageParam = strategy.pageParam || 'page';
+        if (items.length === 0 || (strategy.pageSize && items.length < strategy.pageSize)) {
+          return null;
+        }
+        return {
+          endpoint: this.endpoint,
+          params: { ...params, [pageParam]: String(Number(params[pageParam]) + 1) },
+        };
+      }
+      case 'offset': {
+        const offsetParam = strategy.offsetParam || 'offset';
+        if (items.length < strategy.limit) {
+          return null;
+        }
+        return {
+          endpoint: this.endpoint,
+          params: { ...params, [offsetParam]: String(Number(params[offsetParam]) + items.length) },
+        };
+      }
+      case 'cursor': {
+        const cursor = this.readCursor(response, strategy.cursorPath);
+        if (cursor === undefined || cursor === null || cursor === '') {
+          return null;
+        }
+        return {
+          endpoint: this.endpoint,
+          params: { ...params, [strategy.cursorParam || 'cursor']: String(cursor) },
+        };
+      }
+      case 'link': {
+        const next = this.parseLinkHeader(response.headers['link'] || '')['next'];
+        // The next URL carries its own query string
+        return next ? { endpoint: next, params: {} } : null;
+      }
+    }
+  }
+
+  /**
+   * Next cursor, or undefined when the last page omits it
+   */
+  private readCursor(response: ApiResponse, cursorPath: string): unknown {
+    try {
+      return this.valueExtractor.extractAll(response.data, cursorPath)[0];
+    } catch {
+      return undefined;
+    }
+  }
+
+  private extractItems(response: ApiResponse, itemsPath?: string): T[] {
+    const items = itemsPath ? this.apiClient.extractValue(response, itemsPath) : response.data;
+    if (!Array.isArray(items)) {
+      throw new PaginationError(
+        `Page of ${this.endpoint} has no item array` +
+          (itemsPath ? ` at ${itemsPath}` : '; set itemsPath to locate it')
+      );
+    }
+    return items;
+  }
+
+  /**
+   * Parse `<url>; rel="next", <url>; rel="last"` into URLs by relation
+   */
+  private parseLinkHeader(header: string): Record<string, string> {
+    const links: Record<string, string> = {};
+    for (const match of header.matchAll(/<([^>]*)>\s*((?:;\s*[^,;]+)*)/g)) {
+      const rel = /;\s*rel="?([^";]+)"?/i.exec(match[2] || '')?.[1];
+      for (const name of (rel || '').split(/\s+/).filter(Boolean)) {
+        links[name] = match[1] || '';
+      }
+    }
+    return links;
+  }
+}
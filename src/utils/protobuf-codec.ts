@@ -0,0 +1,246 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as protobuf from 'protobufjs';
+import { Logger } from './logger';
+
+/**
+ * Wire protocol of an RPC call: gRPC-web (length-prefixed frames and trailers) or
+ * Connect unary (the bare message, errors as JSON)
+ */
+export type RpcProtocol = 'grpc-web' | 'connect';
+
+/**
+ * Request and response message types of an RPC method
+ */
+export interface RpcMethod {
+  path: string;
+  requestType: string;
+  responseType: string;
+}
+
+/**
+ * Messages and trailers of a gRPC-web response body
+ */
+export interface GrpcWebFrames {
+  messages: Buffer[];
+  trailers: Record<string, string>;
+}
+
+/**
+ * gRPC status codes by number, named as in the Connect protocol
+ */
+export const RPC_STATUS_CODES = [
+  'ok',
+  'canceled',
+  'unknown',
+  'invalid_argument',
+  'deadline_exceeded',
+  'not_found',
+  'already_exists',
+  'permission_denied',
+  'resource_exhausted',
+  'failed_precondition',
+  'aborted',
+  'out_of_range',
+  'unimplemented',
+  'internal',
+  'unavailable',
+  'data_loss',
+  'unauthenticated',
+] as const;
+
+export type RpcStatus = (typeof RPC_STATUS_CODES)[number];
+
+/**
+ * Error thrown when a message cannot be encoded or decoded with its registered type
+ */
+export class ProtobufError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProtobufError';
+  }
+}
+
+/**
+ * Registry of `.proto` descriptors that encodes and decodes protobuf messages.
+ *
+ * Decoded messages are plain objects (enums as names, 64-bit integers as strings, defaults
+ * filled in), so they can be asserted on and queried like JSON responses.
+ */
+export class ProtobufCodec {
+  private readonly root: protobuf.Root;
+  private readonly protoDir: string | undefined;
+  private readonly logger: Logger;
+  private readonly loaded = new Set<string>();
+
+  constructor(protoDir?: string) {
+    this.root = new protobuf.Root();
+    this.protoDir = protoDir;
+    this.logger = new Logger('ProtobufCodec');
+  }
+
+  /**
+   * Register `.proto` files (relative paths resolve against the proto directory).
+   * Imports are resolved relative to the importing file.
+   */
+  load(...files: string[]): void {
+    for (const file of files) {
+      const resolved = path.resolve(this.protoDir || process.cwd(), file);
+      if (this.loaded.has(resolved)) {
+        continue;
+      }
+      if (!fs.existsSync(resolved)) {
+        throw new ProtobufError(`Proto file not found: ${resolved}`);
+      }
+
+      this.root.loadSync(resolved, { keepCase: true });
+      this.loaded.add(resolved);
+      this.logger.info(`Registered proto file: ${path.basename(resolved)}`);
+    }
+    this.root.resolveAll();
+  }
+
+  /**
+   * Encode a plain object as the given message type, failing on invalid fields
+   */
+  encode(typeName: string, value: object): Buffer {
+    const type = this.lookupType(typeName);
+    try {
+      return Buffer.from(type.encode(type.fromObject(value)).finish());
+    } catch (error) {
+      throw new ProtobufError(`Cannot encode ${typeName}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Decode a message into a plain object
+   */
+  decode<T = any>(typeName: string, buffer: Uint8Array): T {
+    const type = this.lookupType(typeName);
+    try {
+      return type.toObject(type.decode(buffer), {
+        enums: String,
+        longs: String,
+        bytes: String,
+        defaults: true,
+        oneofs: true,
+      }) as T;
+    } catch (error) {
+      throw new ProtobufError(`Cannot decode ${typeName}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Resolve `package.Service/Method` to its HTTP path and message types
+   */
+  lookupMethod(name: string): RpcMethod {
+    const separator = name.lastIndexOf('/');
+    if (separator === -1) {
+      throw new ProtobufError(`RPC method must be named package.Service/Method: ${name}`);
+    }
+    const serviceName = name.slice(0, separator).replace(/^\//, '');
+    const methodName = name.slice(separator + 1);
+
+    let service: protobuf.Service;
+    try {
+      service = this.root.lookupService(serviceName);
+    } catch {
+      throw new ProtobufError(`Unknown protobuf service: ${serviceName}`);
+    }
+
+    const method = service.methods[methodName];
+    if (!method) {
+      throw new ProtobufError(`Unknown method ${methodName} on ${serviceName}`);
+    }
+
+    return {
+      path: `/${service.fullName.replace(/^\./, '')}/${method.name}`,
+      requestType: (method.resolvedRequestType as protobuf.Type).fullName.replace(/^\./, ''),
+      responseType: (method.resolvedResponseType as protobuf.Type).fullName.replace(/^\./, ''),
+    };
+  }
+
+  /**
+   * Status of a call answered without an RPC status (e.g. by a proxy), as in the Connect protocol
+   */
+  static statusFromHttp(httpStatus: number): RpcStatus {
+    if (httpStatus >= 200 && httpStatus < 300) {
+      return 'ok';
+    }
+    const statuses: Record<number, RpcStatus> = {
+      400: 'internal',
+      401: 'unauthenticated',
+      403: 'permission_denied',
+      404: 'unimplemented',
+      429: 'unavailable',
+      502: 'unavailable',
+      503: 'unavailable',
+      504: 'unavailable',
+    };
+    return statuses[httpStatus] || 'unknown';
+  }
+
+  /**
+   * Wrap a message in a gRPC-web data frame
+   */
+  static frame(message: Buffer): Buffer {
+    const header = Buffer.alloc(5);
+    header.writeUInt32BE(message.length, 1);
+    return Buffer.concat([header, message]);
+  }
+
+  /**
+   * Wrap trailers in a gRPC-web trailer frame
+   */
+  static trailerFrame(trailers: Record<string, string>): Buffer {
+    const body = Buffer.from(
+      Object.entries(trailers)
+        .map(([name, value]) => `${name}: ${value}\r\n`)
+        .join('')
+    );
+    const header = Buffer.alloc(5);
+    header.writeUInt8(0x80, 0);
+    header.writeUInt32BE(body.length, 1);
+    return Buffer.concat([header, body]);
+  }
+
+  /**
+   * Split a gRPC-web response body into its messages and trailers
+   */
+  static parseFrames(body: Buffer): GrpcWebFrames {
+    const frames: GrpcWebFrames = { messages: [], trailers: {} };
+
+    let offset = 0;
+    while (offset + 5 <= body.length) {
+      const flags = body.readUInt8(offset);
+      const length = body.readUInt32BE(offset + 1);
+      const payload = body.subarray(offset + 5, offset + 5 + length);
+      offset += 5 + length;
+
+      if (flags & 0x80) {
+        for (const line of payload.toString('utf-8').split('\r\n')) {
+          const separator = line.indexOf(':');
+          if (separator > 0) {
+            frames.trailers[line.slice(0, separator).trim().toLowerCase()] = line
+              .slice(separator + 1)
+              .trim();
+          }
+        }
+      } else {
+        frames.messages.push(payload);
+      }
+    }
+
+    return frames;
+  }
+
+  private lookupType(typeName: string): protobuf.Type {
+    try {
+      return this.root.lookupType(typeName);
+    } catch {
+      throw new ProtobufError(
+        `Unknown protobuf message type: ${typeName}. Register its .proto file first`
+      );
+    }
+  }
+}
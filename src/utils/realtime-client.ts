@@ -0,0 +1,605 @@
+import type { Page, TestInfo, WebSocket as PageWebSocket } from '@playwright/test';
+import WebSocket from 'ws';
+import type { ApiClient } from './api-client';
+import { Logger } from './logger';
+import { SecretStore } from './secret-store';
+
+/**
+ * Kind of connection a frame log belongs to
+ */
+export type RealtimeTransport = 'websocket' | 'sse' | 'page-websocket';
+
+/**
+ * A single frame sent or received on a realtime connection
+ */
+export interface RealtimeFrame {
+  direction: 'sent' | 'received';
+
+  /**
+   * Parsed JSON when the payload is JSON, the raw text otherwise (a Buffer for binary frames)
+   */
+  data: any;
+  binary?: boolean;
+
+  /**
+   * Server-Sent Events fields
+   */
+  event?: string;
+  id?: string;
+  timestamp: number;
+}
+
+/**
+ * Frame log of one connection, as attached to the test for the reporter
+ */
+export interface RealtimeConnectionLog {
+  transport: RealtimeTransport;
+  url: string;
+  openedAt: number;
+  closedAt: number | null;
+  sent: number;
+  received: number;
+  frames: RealtimeFrame[];
+}
+
+/**
+ * Predicate selecting a received message
+ */
+export type MessagePredicate<T = any> = (data: T, frame: RealtimeFrame) => boolean;
+
+/**
+ * Options for opening a WebSocket or SSE connection
+ */
+export interface RealtimeConnectOptions {
+  headers?: Record<string, string>;
+  params?: Record<string, string>;
+
+  /**
+   * WebSocket subprotocols
+   */
+  protocols?: string | string[];
+
+  /**
+   * Connection timeout in milliseconds
+   */
+  timeout?: number;
+}
+
+const DEFAULT_WAIT_TIMEOUT = 10000;
+
+/**
+ * Error thrown when no matching message arrives in time or the connection closes first
+ */
+export class RealtimeWaitError extends Error {
+  readonly frames: RealtimeFrame[];
+
+  constructor(message: string, frames: RealtimeFrame[]) {
+    super(message);
+    this.name = 'RealtimeWaitError';
+    this.frames = frames;
+  }
+}
+
+interface Waiter {
+  predicate: MessagePredicate;
+  resolve: (frame: RealtimeFrame) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Frame log and message waiting shared by every connection type
+ */
+export abstract class RealtimeConnection {
+  abstract readonly transport: RealtimeTransport;
+  readonly url: string;
+  protected readonly logger: Logger;
+  private readonly log: RealtimeFrame[] = [];
+  private readonly consumed = new Set<RealtimeFrame>();
+  private readonly waiters = new Set<Waiter>();
+  private readonly openedAt = Date.now();
+  private closedAt: number | null = null;
+
+  constructor(url: string, loggerName: string) {
+    this.url = url;
+    this.logger = new Logger(loggerName);
+  }
+
+  /**
+   * Every frame sent and received so far, in order
+   */
+  get frames(): readonly RealtimeFrame[] {
+    return this.log;
+  }
+
+  get isClosed(): boolean {
+    return this.closedAt !== null;
+  }
+
+  /**
+   * Data of the received messages, optionally filtered
+   */
+  messages<T = any>(predicate?: MessagePredicate<T>): T[] {
+    return this.log
+      .filter((frame) => frame.direction === 'received')
+      .filter((frame) => !predicate || predicate(frame.data, frame))
+      .map((frame) => frame.data as T);
+  }
+
+  /**
+   * Wait for a received message matching the predicate. Messages that arrived before the
+   * call count too, but each message satisfies at most one wait.
+   */
+  async waitForMessage<T = any>(
+    predicate: MessagePredicate<T> = () => true,
+    options?: { timeout?: number }
+  ): Promise<T> {
+    const frame = await this.waitForFrame(predicate, options);
+    return frame.data as T;
+  }
+
+  /**
+   * Like `waitForMessage`, but resolves with the full frame (direction, SSE event and id)
+   */
+  waitForFrame<T = any>(
+    predicate: MessagePredicate<T> = () => true,
+    options?: { timeout?: number }
+  ): Promise<RealtimeFrame> {
+    const existing = this.log.find((frame) => this.claim(frame, predicate));
+    if (existing) {
+      return Promise.resolve(existing);
+    }
+    if (this.isClosed) {
+      return Promise.reject(this.waitError(`${this} closed before a matching message arrived`));
+    }
+
+    const timeout = options?.timeout ?? DEFAULT_WAIT_TIMEOUT;
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        predicate,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          this.waiters.delete(waiter);
+          reject(this.waitError(`Timed out after ${timeout}ms waiting for a message on ${this}`));
+        }, timeout),
+      };
+      this.waiters.add(waiter);
+    });
+  }
+
+  /**
+   * Frame log in the shape attached to the test
+   */
+  toLog(): RealtimeConnectionLog {
+    return {
+      transport: this.transport,
+      url: this.url,
+      openedAt: this.openedAt,
+      closedAt: this.closedAt,
+      sent: this.log.filter((frame) => frame.direction === 'sent').length,
+      received: this.log.filter((frame) => frame.direction === 'received').length,
+      frames: this.log.map((frame) =>
+        Buffer.isBuffer(frame.data) ? { ...frame, data: frame.data.toString('base64') } : frame
+      ),
+    };
+  }
+
+  abstract close(): Promise<void>;
+
+  toString(): string {
+    return `${this.transport} ${this.url}`;
+  }
+
+  protected record(
+    direction: RealtimeFrame['direction'],
+    payload: string | Buffer,
+    extra?: Pick<RealtimeFrame, 'event' | 'id'>
+  ): RealtimeFrame {
+    const binary = Buffer.isBuffer(payload);
+    const frame: RealtimeFrame = {
+      direction,
+      data: binary ? payload : this.parse(payload),
+      ...(binary && { binary }),
+      ...extra,
+      timestamp: Date.now(),
+    };
+    this.log.push(frame);
+
+    if (direction === 'sent') {
+      return frame;
+    }
+    for (const waiter of this.waiters) {
+      if (this.claim(frame, waiter.predicate)) {
+        clearTimeout(waiter.timer);
+        this.waiters.delete(waiter);
+        waiter.resolve(frame);
+        break;
+      }
+    }
+    return frame;
+  }
+
+  /**
+   * Drop a recorded frame, e.g. a sent frame whose write failed
+   */
+  protected unrecord(frame: RealtimeFrame): void {
+    const index = this.log.indexOf(frame);
+    if (index !== -1) {
+      this.log.splice(index, 1);
+    }
+  }
+
+  protected markClosed(): void {
+    if (this.isClosed) {
+      return;
+    }
+    this.closedAt = Date.now();
+    this.logger.info(`Connection closed: ${this.url}`);
+
+    for (const waiter of this.waiters) {
+      clearTimeout(waiter.timer);
+      waiter.reject(this.waitError(`${this} closed before a matching message arrived`));
+    }
+    this.waiters.clear();
+  }
+
+  private claim(frame: RealtimeFrame, predicate: MessagePredicate): boolean {
+    if (frame.direction !== 'received' || this.consumed.has(frame)) {
+      return false;
+    }
+    if (!predicate(frame.data, frame)) {
+      return false;
+    }
+    this.consumed.add(frame);
+    return true;
+  }
+
+  private waitError(message: string): RealtimeWaitError {
+    const received = this.log.filter((frame) => frame.direction === 'received').length;
+    return new RealtimeWaitError(`${message} (${received} message(s) received)`, [...this.log]);
+  }
+
+  private parse(payload: string): any {
+    try {
+      return JSON.parse(payload);
+    } catch {
+      return payload;
+    }
+  }
+}
+
+/**
+ * WebSocket connection opened directly from the test
+ */
+export class WebSocketConnection extends RealtimeConnection {
+  readonly transport = 'websocket';
+  private readonly socket: WebSocket;
+
+  private constructor(url: string, socket: WebSocket) {
+    super(url, 'WebSocketConnection');
+    this.socket = socket;
+
+    socket.on('message', (data: Buffer, isBinary: boolean) =>
+      this.record('received', isBinary ? data : data.toString('utf-8'))
+    );
+    socket.on('close', () => this.markClosed());
+    socket.on('error', (error) => this.logger.warn(`Socket error on ${url}: ${error.message}`));
+  }
+
+  /**
+   * Open a connection, failing on a rejected handshake or timeout
+   */
+  static open(url: string, options?: RealtimeConnectOptions): Promise<WebSocketConnection> {
+    const socket = new WebSocket(url, options?.protocols, {
+      headers: options?.headers || {},
+      handshakeTimeout: options?.timeout || 30000,
+    });
+    // Frames can arrive right after the handshake, so attach the log before resolving
+    const connection = new WebSocketConnection(url, socket);
+
+    return new Promise((resolve, reject) => {
+      socket.once('open', () => {
+        connection.logger.info(`Connection opened: ${url}`);
+        resolve(connection);
+      });
+      socket.once('unexpected-response', (_request, response) => {
+        socket.terminate();
+        reject(new Error(`WebSocket handshake to ${url} failed: HTTP ${response.statusCode}`));
+      });
+      socket.once('error', (error) => reject(error));
+    });
+  }
+
+  /**
+   * Send a frame. Objects are sent as JSON text.
+   */
+  async send(data: string | Buffer | object): Promise<void> {
+    const payload = typeof data === 'string' || Buffer.isBuffer(data) ? data : JSON.stringify(data);
+
+    // Record before writing so a fast reply cannot precede its request in the log
+    const frame = this.record('sent', payload);
+    try {
+      await new Promise<void>((resolve, reject) =>
+        this.socket.send(payload, (error) => (error ? reject(error) : resolve()))
+      );
+    } catch (error) {
+      this.unrecord(frame);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a frame and wait for the reply matching the predicate
+   */
+  async request<T = any>(
+    data: string | Buffer | object,
+    predicate?: MessagePredicate<T>,
+    options?: { timeout?: number }
+  ): Promise<T> {
+    await this.send(data);
+    return this.waitForMessage(predicate, options);
+  }
+
+  async close(code: number = 1000, reason?: string): Promise<void> {
+    if (this.isClosed) {
+      return;
+    }
+
+    const closed = new Promise<void>((resolve) => this.socket.once('close', () => resolve()));
+    this.socket.close(code, reason);
+    await closed;
+  }
+}
+
+/**
+ * Server-Sent Events stream opened directly from the test
+ */
+export class SseConnection extends RealtimeConnection {
+  readonly transport = 'sse';
+  private readonly controller: AbortController;
+
+  private constructor(url: string, controller: AbortController) {
+    super(url, 'SseConnection');
+    this.controller = controller;
+  }
+
+  /**
+   * Open a stream, failing when the server does not answer with `text/event-stream`
+   */
+  static async open(url: string, options?: RealtimeConnectOptions): Promise<SseConnection> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options?.timeout || 30000);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: { Accept: 'text/event-stream', ...options?.headers },
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (!response.ok || !response.body || !contentType.includes('text/event-stream')) {
+      controller.abort();
+      throw new Error(
+        `SSE connection to ${url} failed: HTTP ${response.status} (${contentType || 'no content type'})`
+      );
+    }
+
+    const connection = new SseConnection(url, controller);
+    connection.logger.info(`Connection opened: ${url}`);
+    void connection.consume(response.body);
+    return connection;
+  }
+
+  async close(): Promise<void> {
+    this.controller.abort();
+    this.markClosed();
+  }
+
+  /**
+   * Read the stream and dispatch events as described by the SSE specification
+   */
+  private async consume(body: ReadableStream<Uint8Array>): Promise<void> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let event: { data: string[]; event?: string; id?: string } = { data: [] };
+
+    try {
+      for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(chunk, { stream: true });
+
+        const lines = buffer.split(/\r\n|\r|\n/);
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (line === '') {
+            if (event.data.length > 0) {
+              this.record('received', event.data.join('\n'), {
+                event: event.event || 'message',
+                ...(event.id !== undefined && { id: event.id }),
+              });
+            }
+            event = { data: [] };
+            continue;
+          }
+          if (line.startsWith(':')) {
+            continue;
+          }
+
+          const separator = line.indexOf(':');
+          const field = separator === -1 ? line : line.slice(0, separator);
+          const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+          if (field === 'data') {
+            event.data.push(value);
+          } else if (field === 'event') {
+            event.event = value;
+          } else if (field === 'id') {
+            event.id = value;
+          }
+        }
+      }
+    } catch (error) {
+      if (!this.controller.signal.aborted) {
+        this.logger.warn(`SSE stream ${this.url} failed: ${(error as Error).message}`);
+      }
+    } finally {
+      this.markClosed();
+    }
+  }
+}
+
+/**
+ * WebSocket opened by a page, observed through Playwright's network events
+ */
+export class PageWebSocketConnection extends RealtimeConnection {
+  readonly transport = 'page-websocket';
+
+  constructor(socket: PageWebSocket) {
+    super(socket.url(), 'PageWebSocketConnection');
+
+    socket.on('framesent', ({ payload }) => this.record('sent', payload));
+    socket.on('framereceived', ({ payload }) => this.record('received', payload));
+    socket.on('close', () => this.markClosed());
+    socket.on('socketerror', (error) => this.logger.warn(`Socket error on ${this.url}: ${error}`));
+  }
+
+  /**
+   * Page sockets are owned by the page; this only stops waiting on them
+   */
+  async close(): Promise<void> {
+    this.markClosed();
+  }
+}
+
+/**
+ * Opens WebSocket and SSE connections against the API and observes page WebSockets.
+ * Frame logs of all connections are attached to the test for the reporter.
+ */
+export class RealtimeClient {
+  /**
+   * Name of the test attachment carrying the frame logs
+   */
+  static readonly attachmentName = 'realtime-frames';
+
+  private readonly apiClient: ApiClient;
+  private readonly testInfo: TestInfo | null;
+  private readonly logger: Logger;
+  private readonly opened: RealtimeConnection[] = [];
+  private readonly pageSockets: PageWebSocketConnection[] = [];
+  private readonly pageWaiters = new Set<(connection: PageWebSocketConnection) => void>();
+  private readonly observedPages = new WeakSet<Page>();
+
+  constructor(apiClient: ApiClient, testInfo?: TestInfo) {
+    this.apiClient = apiClient;
+    this.testInfo = testInfo || null;
+    this.logger = new Logger('RealtimeClient');
+  }
+
+  /**
+   * Every connection opened or observed so far
+   */
+  get connections(): readonly RealtimeConnection[] {
+    return [...this.opened, ...this.pageSockets];
+  }
+
+  /**
+   * Open a WebSocket relative to the API base URL. Auth headers and jar cookies are sent
+   * with the handshake.
+   */
+  async websocket(
+    endpoint: string,
+    options?: RealtimeConnectOptions
+  ): Promise<WebSocketConnection> {
+    const { url, headers } = await this.apiClient.prepareRequest(endpoint, options);
+    url.protocol =
+      url.protocol === 'https:' ? 'wss:' : url.protocol === 'http:' ? 'ws:' : url.protocol;
+
+    this.logger.step(`Opening WebSocket: ${url}`);
+    const connection = await WebSocketConnection.open(url.toString(), { ...options, headers });
+    this.opened.push(connection);
+    return connection;
+  }
+
+  /**
+   * Open a Server-Sent Events stream relative to the API base URL
+   */
+  async sse(endpoint: string, options?: RealtimeConnectOptions): Promise<SseConnection> {
+    const { url, headers } = await this.apiClient.prepareRequest(endpoint, options);
+
+    this.logger.step(`Opening SSE stream: ${url}`);
+    const connection = await SseConnection.open(url.toString(), { ...options, headers });
+    this.opened.push(connection);
+    return connection;
+  }
+
+  /**
+   * Record the frames of every WebSocket the page opens from now on
+   */
+  observePage(page: Page): void {
+    if (this.observedPages.has(page)) {
+      return;
+    }
+    this.observedPages.add(page);
+
+    page.on('websocket', (socket) => {
+      this.logger.info(`Page opened WebSocket: ${socket.url()}`);
+      const connection = new PageWebSocketConnection(socket);
+      this.pageSockets.push(connection);
+      for (const waiter of this.pageWaiters) {
+        waiter(connection);
+      }
+    });
+  }
+
+  /**
+   * Wait for an observed page WebSocket whose URL matches (already opened ones count)
+   */
+  waitForPageSocket(
+    url?: string | RegExp,
+    options?: { timeout?: number }
+  ): Promise<PageWebSocketConnection> {
+    const matches = (connection: PageWebSocketConnection): boolean =>
+      url === undefined ||
+      (typeof url === 'string' ? connection.url.includes(url) : url.test(connection.url));
+
+    const existing = this.pageSockets.find(matches);
+    if (existing) {
+      return Promise.resolve(existing);
+    }
+
+    const timeout = options?.timeout ?? DEFAULT_WAIT_TIMEOUT;
+    return new Promise((resolve, reject) => {
+      const waiter = (connection: PageWebSocketConnection): void => {
+        if (matches(connection)) {
+          clearTimeout(timer);
+          this.pageWaiters.delete(waiter);
+          resolve(connection);
+        }
+      };
+      const timer = setTimeout(() => {
+        this.pageWaiters.delete(waiter);
+        reject(new Error(`Timed out after ${timeout}ms waiting for a page WebSocket ${url || ''}`));
+      }, timeout);
+      this.pageWaiters.add(waiter);
+    });
+  }
+
+  /**
+   * Close the connections opened by this client and attach all frame logs to the test
+   */
+  async cleanup(): Promise<void> {
+    await Promise.all(this.opened.map((connection) => connection.close()));
+
+    const logs = this.connections.map((connection) => connection.toLog());
+    if (logs.length > 0) {
+      await this.testInfo?.attach(RealtimeClient.attachmentName, {
+        body: JSON.stringify(SecretStore.redactValue(logs), null, 2),
+        contentType: 'application/json',
+      });
+    }
+  }
+}
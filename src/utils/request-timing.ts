@@ -0,0 +1,321 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import * as diagnosticsChannel from 'diagnostics_channel';
+import type { ClientRequest, IncomingMessage } from 'http';
+import type { Socket } from 'net';
+import { performance } from 'perf_hooks';
+import { TLSSocket } from 'tls';
+import type { ApiCall } from './api-call-log';
+import type { RequestTimings, TransferSizes } from '../types/test-data';
+
+/**
+ * Timings and sizes of one call (summed over redirects)
+ */
+export interface RequestMetrics {
+  timings: RequestTimings;
+  sizes: TransferSizes;
+}
+
+/**
+ * A measured call, as attached to the test for the reporter
+ */
+export interface TimedCall extends RequestMetrics {
+  method: string;
+
+  /**
+   * URL path with numeric and UUID segments replaced by `{id}`
+   */
+  endpoint: string;
+  status: number;
+}
+
+/**
+ * Per-endpoint aggregate in the performance report
+ */
+export interface EndpointPerformance {
+  endpoint: string;
+  calls: number;
+  average: RequestTimings;
+  p95: RequestTimings;
+  requestBytes: { average: number; total: number };
+  responseBytes: { average: number; total: number };
+}
+
+/**
+ * Moments (performance.now) of one HTTP exchange
+ */
+interface Exchange {
+  startAt: number;
+  socketAt?: number;
+  dnsAt?: number;
+  connectAt?: number;
+  tlsAt?: number;
+  firstByteAt?: number;
+  endAt?: number;
+  reused: boolean;
+  socket?: Socket;
+  sizes?: TransferSizes;
+}
+
+const PHASES: Array<keyof RequestTimings> = ['dns', 'connect', 'tls', 'ttfb', 'download', 'total'];
+
+/**
+ * Measures the network phases of HTTP requests through Node's `diagnostics_channel`.
+ *
+ * Requests are attributed to the `measure` call whose async context started them, so
+ * concurrent calls are measured independently. DNS time is 0 for IP hosts and is counted
+ * in `connect` when the lookup cannot be observed on its own (e.g. pooled TLS agents).
+ */
+export class RequestTimer {
+  /**
+   * Name of the test attachment read by the custom reporter
+   */
+  static readonly attachmentName = 'api-timings';
+
+  private static readonly storage = new AsyncLocalStorage<Exchange[]>();
+  private static readonly socketCreatedAt = new WeakMap<Socket, number>();
+  private static readonly socketBytes = new WeakMap<Socket, { written: number; read: number }>();
+  private static subscribed = false;
+
+  /**
+   * Run an operation and measure the HTTP requests it makes. Metrics are null when it
+   * made none (replayed or synthetic responses).
+   */
+  static async measure<T>(
+    operation: () => Promise<T>
+  ): Promise<{ result: T; metrics: RequestMetrics | null }> {
+    RequestTimer.subscribe();
+    const exchanges: Exchange[] = [];
+    const result = await RequestTimer.storage.run(exchanges, operation);
+    return { result, metrics: RequestTimer.toMetrics(exchanges) };
+  }
+
+  /**
+   * Timed calls of a call log, for the reporter attachment
+   */
+  static fromCalls(calls: readonly ApiCall[]): TimedCall[] {
+    return calls.flatMap((call) =>
+      call.response?.timings && call.response.sizes
+        ? [
+            {
+              method: call.request.method,
+              endpoint: RequestTimer.endpointOf(call.request.url),
+              status: call.response.status,
+              timings: call.response.timings,
+              sizes: call.response.sizes,
+            },
+          ]
+        : []
+    );
+  }
+
+  /**
+   * Aggregate timed calls per method and endpoint, slowest average first
+   */
+  static summarize(calls: TimedCall[]): EndpointPerformance[] {
+    const byEndpoint = new Map<string, TimedCall[]>();
+    for (const call of calls) {
+      const key = `${call.method} ${call.endpoint}`;
+      byEndpoint.set(key, [...(byEndpoint.get(key) || []), call]);
+    }
+
+    return [...byEndpoint.entries()]
+      .map(([endpoint, endpointCalls]) => {
+        const requestBytes = endpointCalls.map((call) => call.sizes.requestBytes);
+        const responseBytes = endpointCalls.map((call) => call.sizes.responseBytes);
+        return {
+          endpoint,
+          calls: endpointCalls.length,
+          average: RequestTimer.perPhase(endpointCalls, (values) => RequestTimer.average(values)),
+          p95: RequestTimer.perPhase(endpointCalls, (values) =>
+            RequestTimer.percentile(values, 95)
+          ),
+          requestBytes: {
+            average: Math.round(RequestTimer.average(requestBytes)),
+            total: RequestTimer.sum(requestBytes),
+          },
+          responseBytes: {
+            average: Math.round(RequestTimer.average(responseBytes)),
+            total: RequestTimer.sum(responseBytes),
+          },
+        };
+      })
+      .sort((a, b) => b.average.total - a.average.total);
+  }
+
+  /**
+   * Path of a URL with resource ids collapsed, so calls to one endpoint group together
+   */
+  static endpointOf(url: string): string {
+    return new URL(url).pathname
+      .split('/')
+      .map((segment) =>
+        /^\d+$/.test(segment) || /^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$/i.test(segment)
+          ? '{id}'
+          : segment
+      )
+      .join('/');
+  }
+
+  /**
+   * Nearest-rank percentile
+   */
+  static percentile(values: number[], rank: number): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.max(0, Math.ceil((rank / 100) * sorted.length) - 1)] || 0;
+  }
+
+  private static subscribe(): void {
+    if (RequestTimer.subscribed) {
+      return;
+    }
+    RequestTimer.subscribed = true;
+
+    // Pooled agents create the socket once the DNS lookup is done
+    diagnosticsChannel.subscribe('net.client.socket', (message) => {
+      if (RequestTimer.storage.getStore()) {
+        RequestTimer.socketCreatedAt.set((message as { socket: Socket }).socket, performance.now());
+      }
+    });
+    diagnosticsChannel.subscribe('http.client.request.start', (message) => {
+      const exchanges = RequestTimer.storage.getStore();
+      if (exchanges) {
+        exchanges.push(RequestTimer.track((message as { request: ClientRequest }).request));
+      }
+    });
+  }
+
+  /**
+   * Record the moments of a request as its socket and response events fire
+   */
+  private static track(request: ClientRequest): Exchange {
+    const exchange: Exchange = {
+      startAt: performance.now(),
+      reused: false,
+    };
+
+    const onSocket = (socket: Socket): void => {
+      exchange.socketAt = performance.now();
+      exchange.socket = socket;
+      exchange.reused = request.reusedSocket;
+      if (exchange.reused) {
+        return;
+      }
+
+      if (socket.connecting) {
+        socket.once('lookup', () => (exchange.dnsAt = performance.now()));
+        socket.once('connect', () => (exchange.connectAt = performance.now()));
+      } else {
+        const createdAt = RequestTimer.socketCreatedAt.get(socket);
+        if (createdAt !== undefined) {
+          exchange.dnsAt = createdAt;
+        }
+        exchange.connectAt = exchange.socketAt;
+      }
+      if (socket instanceof TLSSocket) {
+        socket.once('secureConnect', () => (exchange.tlsAt = performance.now()));
+      }
+    };
+    // Agents may hand over a socket before the start of the request is published
+    if (request.socket) {
+      onSocket(request.socket);
+    } else {
+      request.once('socket', onSocket);
+    }
+
+    request.once('response', (response: IncomingMessage) => {
+      exchange.firstByteAt = performance.now();
+      response.once('end', () => {
+        exchange.endAt = performance.now();
+        const socket = exchange.socket;
+        if (socket) {
+          // Headers are flushed before the start is published, so count from the end of the
+          // previous exchange on a kept-alive socket
+          const before = RequestTimer.socketBytes.get(socket) || { written: 0, read: 0 };
+          exchange.sizes = {
+            requestBytes: socket.bytesWritten - before.written,
+            responseBytes: socket.bytesRead - before.read,
+          };
+          RequestTimer.socketBytes.set(socket, {
+            written: socket.bytesWritten,
+            read: socket.bytesRead,
+          });
+        }
+      });
+    });
+
+    return exchange;
+  }
+
+  private static toMetrics(exchanges: Exchange[]): RequestMetrics | null {
+    const completed = exchanges.filter((exchange) => exchange.endAt !== undefined);
+    if (completed.length === 0) {
+      return null;
+    }
+
+    const metrics: RequestMetrics = {
+      timings: { dns: 0, connect: 0, tls: 0, ttfb: 0, download: 0, total: 0 },
+      sizes: { requestBytes: 0, responseBytes: 0 },
+    };
+    for (const exchange of completed) {
+      const timings = RequestTimer.phases(exchange);
+      for (const phase of PHASES) {
+        metrics.timings[phase] = RequestTimer.round(metrics.timings[phase] + timings[phase]);
+      }
+      metrics.sizes.requestBytes += exchange.sizes?.requestBytes || 0;
+      metrics.sizes.responseBytes += exchange.sizes?.responseBytes || 0;
+    }
+    return metrics;
+  }
+
+  private static phases(exchange: Exchange): RequestTimings {
+    const socketAt = exchange.socketAt ?? exchange.startAt;
+    const firstByteAt = exchange.firstByteAt ?? socketAt;
+    const endAt = exchange.endAt ?? firstByteAt;
+
+    if (exchange.reused) {
+      return {
+        dns: 0,
+        connect: 0,
+        tls: 0,
+        ttfb: firstByteAt - exchange.startAt,
+        download: endAt - firstByteAt,
+        total: endAt - exchange.startAt,
+      };
+    }
+
+    const lookupAt = exchange.dnsAt ?? exchange.startAt;
+    const connectAt = exchange.connectAt ?? socketAt;
+    const readyAt = exchange.tlsAt ?? connectAt;
+    return {
+      dns: lookupAt - exchange.startAt,
+      connect: connectAt - lookupAt,
+      tls: exchange.tlsAt !== undefined ? exchange.tlsAt - connectAt : 0,
+      ttfb: firstByteAt - readyAt,
+      download: endAt - firstByteAt,
+      total: endAt - exchange.startAt,
+    };
+  }
+
+  private static perPhase(
+    calls: TimedCall[],
+    aggregate: (values: number[]) => number
+  ): RequestTimings {
+    const timings = { dns: 0, connect: 0, tls: 0, ttfb: 0, download: 0, total: 0 };
+    for (const phase of PHASES) {
+      timings[phase] = RequestTimer.round(aggregate(calls.map((call) => call.timings[phase])));
+    }
+    return timings;
+  }
+
+  private static average(values: number[]): number {
+    return values.length > 0 ? RequestTimer.sum(values) / values.length : 0;
+  }
+
+  private static sum(values: number[]): number {
+    return values.reduce((total, value) => total + value, 0);
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Retry configuration for API requests
+ */
+export interface RetryConfig {
+  /**
+   * Number of retries after the first attempt
+   */
+  retries?: number;
+
+  /**
+   * Response status codes that trigger a retry
+   */
+  statusCodes?: number[];
+
+  /**
+   * Base delay in milliseconds for exponential backoff
+   */
+  baseDelay?: number;
+
+  /**
+   * Upper bound in milliseconds for a single backoff delay (also caps Retry-After)
+   */
+  maxDelay?: number;
+
+  /**
+   * Also retry non-idempotent methods (POST, PATCH)
+   */
+  retryNonIdempotent?: boolean;
+}
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+/**
+ * Decides whether and when a failed API request should be retried
+ */
+export class RetryPolicy {
+  readonly retries: number;
+  readonly statusCodes: number[];
+  readonly baseDelay: number;
+  readonly maxDelay: number;
+  readonly retryNonIdempotent: boolean;
+
+  constructor(config?: RetryConfig) {
+    this.retries = config?.retries ?? 0;
+    this.statusCodes = config?.statusCodes || [429, 502, 503, 504];
+    this.baseDelay = config?.baseDelay ?? 200;
+    this.maxDelay = config?.maxDelay ?? 10000;
+    this.retryNonIdempotent = config?.retryNonIdempotent ?? false;
+  }
+
+  /**
+   * Check if the HTTP method may be retried under this policy
+   */
+  canRetryMethod(method: string): boolean {
+    return this.retryNonIdempotent || IDEMPOTENT_METHODS.includes(method.toUpperCase());
+  }
+
+  /**
+   * Check if a response status should be retried
+   */
+  isRetryableStatus(status: number): boolean {
+    return this.statusCodes.includes(status);
+  }
+
+  /**
+   * Get the delay before the next attempt.
+   * A `Retry-After` header (seconds or HTTP date) wins over exponential backoff.
+   */
+  getDelay(attempt: number, retryAfter?: string): number {
+    const retryAfterDelay = retryAfter ? this.parseRetryAfter(retryAfter) : null;
+    if (retryAfterDelay !== null) {
+      return Math.min(retryAfterDelay, this.maxDelay);
+    }
+
+    // Equal jitter: half of the exponential delay is fixed, the other half is random
+    const exponentialDelay = Math.min(this.maxDelay, this.baseDelay * 2 ** (attempt - 1));
+    return Math.round(exponentialDelay / 2 + Math.random() * (exponentialDelay / 2));
+  }
+
+  /**
+   * Parse a Retry-After header value into milliseconds
+   */
+  private parseRetryAfter(value: string): number | null {
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,157 @@
+import Ajv2020, { type ErrorObject, type ValidateFunction } from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from './logger';
+
+/**
+ * A single schema mismatch, addressed by a JSON pointer into the validated data
+ */
+export interface SchemaValidationError {
+  path: string;
+  message: string;
+  keyword: string;
+  schemaPath: string;
+}
+
+/**
+ * Outcome of validating data against a JSON schema
+ */
+export interface SchemaValidationResult {
+  valid: boolean;
+  errors: SchemaValidationError[];
+}
+
+/**
+ * JSON Schema (draft 2020-12) validator with support for a local schema directory.
+ *
+ * Every `*.json` file under the schema directory is registered by its `$id`, or by its
+ * path relative to the directory when it has none, so schemas can be validated by
+ * reference and can `$ref` each other.
+ */
+export class SchemaValidator {
+  private readonly ajv: Ajv2020;
+  private readonly schemaDir: string | undefined;
+  private readonly logger: Logger;
+  private schemasLoaded: boolean = false;
+
+  constructor(schemaDir?: string) {
+    this.schemaDir = schemaDir;
+    this.logger = new Logger('SchemaValidator');
+    this.ajv = new Ajv2020({ allErrors: true, strict: false });
+    addFormats(this.ajv);
+  }
+
+  /**
+   * Register every schema file found in the schema directory
+   */
+  loadSchemas(): void {
+    if (this.schemasLoaded) {
+      return;
+    }
+    this.schemasLoaded = true;
+
+    if (!this.schemaDir || !fs.existsSync(this.schemaDir)) {
+      if (this.schemaDir) {
+        this.logger.warn(`Schema directory not found: ${this.schemaDir}`);
+      }
+      return;
+    }
+
+    for (const file of this.findSchemaFiles(this.schemaDir)) {
+      const id = path.relative(this.schemaDir, file).split(path.sep).join('/');
+      const schema = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      if (!schema.$id) {
+        schema.$id = id;
+      }
+      this.ajv.addSchema(schema);
+      this.logger.debug(`Schema registered: ${schema.$id}`);
+    }
+  }
+
+  /**
+   * Register a schema under the given reference
+   */
+  addSchema(schema: object, ref: string): void {
+    this.ajv.addSchema(schema, ref);
+  }
+
+  /**
+   * Register a custom string format
+   */
+  addFormat(name: string, format: RegExp | ((value: string) => boolean)): void {
+    this.ajv.addFormat(name, format);
+  }
+
+  /**
+   * Validate data against a schema object or a reference to a registered schema
+   */
+  validate(data: unknown, schema: object | string): SchemaValidationResult {
+    const validateFn = this.getValidateFunction(schema);
+    const valid = validateFn(data) as boolean;
+
+    return {
+      valid,
+      errors: (validateFn.errors || []).map((error) => this.toValidationError(error)),
+    };
+  }
+
+  /**
+   * Resolve the compiled validate function for a schema or reference
+   */
+  private getValidateFunction(schema: object | string): ValidateFunction {
+    this.loadSchemas();
+
+    if (typeof schema === 'string') {
+      const validateFn = this.ajv.getSchema(schema);
+      if (!validateFn) {
+        throw new Error(`Schema not found: ${schema}`);
+      }
+      return validateFn;
+    }
+
+    return this.ajv.compile(schema);
+  }
+
+  /**
+   * Convert an Ajv error into a validation error pointing at the offending value
+   */
+  private toValidationError(error: ErrorObject): SchemaValidationError {
+    let pointer = error.instancePath;
+    if (error.keyword === 'required') {
+      pointer += `/${this.escapePointerSegment(String(error.params['missingProperty']))}`;
+    } else if (error.keyword === 'additionalProperties') {
+      pointer += `/${this.escapePointerSegment(String(error.params['additionalProperty']))}`;
+    }
+
+    return {
+      path: pointer || '/',
+      message: error.message || 'is invalid',
+      keyword: error.keyword,
+      schemaPath: error.schemaPath,
+    };
+  }
+
+  /**
+   * Escape a property name for use as a JSON pointer segment
+   */
+  private escapePointerSegment(segment: string): string {
+    return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+  }
+
+  /**
+   * Recursively collect schema files
+   */
+  private findSchemaFiles(dir: string): string[] {
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...this.findSchemaFiles(fullPath));
+      } else if (entry.name.endsWith('.json')) {
+        files.push(fullPath);
+      }
+    }
+    return files.sort();
+  }
+}
@@ -0,0 +1,280 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Replacement of secret values in logs, reports and exports
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Reference to a secret in a test data value: `${secret:STAGING_PASSWORD}`
+ */
+export const SECRET_REFERENCE = /\$\{secret:([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/**
+ * Environment variable holding the passphrase of the vault file
+ */
+export const VAULT_KEY_ENV = 'TEST_DATA_VAULT_KEY';
+
+/**
+ * Shortest secret value that is redacted; shorter values would mangle unrelated text
+ */
+const MIN_REDACTED_LENGTH = 4;
+
+/**
+ * Where secrets are looked up, in order: variables, `.env` file, vault file
+ */
+export interface SecretStoreOptions {
+  /**
+   * Variables searched first (default `process.env`)
+   */
+  env?: Record<string, string | undefined>;
+
+  /**
+   * `KEY=value` file searched next (default `.env`)
+   */
+  envFile?: string;
+
+  /**
+   * AES-256-GCM encrypted vault searched last (default `src/data/secrets.vault.json`)
+   */
+  vaultFile?: string;
+
+  /**
+   * Vault passphrase (default the `TEST_DATA_VAULT_KEY` variable)
+   */
+  vaultKey?: string;
+}
+
+/**
+ * Encrypted vault file contents, all binary fields base64 encoded
+ */
+interface VaultFile {
+  version: 1;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Resolves `${secret:NAME}` references and remembers every resolved value, so that
+ * `SecretStore.redact` can mask it wherever it is printed or saved.
+ */
+export class SecretStore {
+  /**
+   * Resolved secret values and their names, shared by every store of the process
+   */
+  private static readonly resolved = new Map<string, string>();
+
+  private readonly env: Record<string, string | undefined>;
+  private readonly envFile: string;
+  private readonly vaultFile: string;
+  private readonly vaultKey: string | undefined;
+  private envFileSecrets: Record<string, string> | null = null;
+  private vaultSecrets: Record<string, string> | null = null;
+
+  constructor(options?: SecretStoreOptions) {
+    this.env = options?.env || process.env;
+    this.envFile = options?.envFile || path.join(process.cwd(), '.env');
+    this.vaultFile =
+      options?.vaultFile || path.join(process.cwd(), 'src', 'data', 'secrets.vault.json');
+    this.vaultKey = options?.vaultKey ?? this.env[VAULT_KEY_ENV];
+  }
+
+  /**
+   * Value of a secret, or undefined when no source defines it. An empty value (`NAME=`)
+   * counts as unset, so the next source is searched.
+   */
+  get(name: string): string | undefined {
+    const value =
+      SecretStore.nonEmpty(this.env[name]) ??
+      SecretStore.nonEmpty(this.readEnvFile()[name]) ??
+      SecretStore.nonEmpty(this.readVault()[name]);
+    if (value !== undefined) {
+      SecretStore.remember(name, value);
+    }
+    return value;
+  }
+
+  /**
+   * Replace the secret references in a string. Unknown secrets are reported to `onMissing`
+   * and left as they are.
+   */
+  resolve(text: string, onMissing: (name: string) => void): string {
+    return text.replace(SECRET_REFERENCE, (reference, name: string) => {
+      const value = this.get(name);
+      if (value === undefined) {
+        onMissing(name);
+        return reference;
+      }
+      return value;
+    });
+  }
+
+  /**
+   * Copy of a value with the secret references of every string resolved; `onMissing`
+   * receives the JSON pointer of each string referencing an unknown secret
+   */
+  resolveAll<T>(value: T, onMissing: (name: string, pointer: string) => void): T {
+    const walk = (current: unknown, pointer: string): unknown => {
+      if (typeof current === 'string') {
+        return this.resolve(current, (name) => onMissing(name, pointer));
+      }
+      if (Array.isArray(current)) {
+        return current.map((item, index) => walk(item, `${pointer}/${index}`));
+      }
+      if (typeof current === 'object' && current !== null) {
+        return Object.fromEntries(
+          Object.entries(current).map(([key, item]) => [
+            key,
+            walk(item, `${pointer}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`),
+          ])
+        );
+      }
+      return current;
+    };
+    return walk(value, '') as T;
+  }
+
+  /**
+   * Mask every resolved secret in a text, with `[REDACTED]` or a replacement per secret name
+   */
+  static redact(text: string, replacement?: (name: string) => string): string {
+    let redacted = text;
+    // Longest first, so a secret containing another one is masked as a whole
+    const secrets = [...SecretStore.resolved.entries()].sort(([a], [b]) => b.length - a.length);
+    for (const [value, name] of secrets) {
+      if (redacted.includes(value)) {
+        redacted = redacted.split(value).join(replacement ? replacement(name) : REDACTED);
+      }
+    }
+    return redacted;
+  }
+
+  /**
+   * Copy of a value with every resolved secret masked in its strings. Errors become their
+   * redacted stack so nothing of the original message leaks.
+   */
+  static redactValue<T>(value: T, replacement?: (name: string) => string): T {
+    if (SecretStore.resolved.size === 0) {
+      return value;
+    }
+    if (typeof value === 'string') {
+      return SecretStore.redact(value, replacement) as T;
+    }
+    if (value instanceof Error) {
+      return SecretStore.redact(value.stack || value.message, replacement) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => SecretStore.redactValue(item, replacement)) as T;
+    }
+    if (SecretStore.isPlainObject(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          SecretStore.redactValue(item, replacement),
+        ])
+      ) as T;
+    }
+    return value;
+  }
+
+  /**
+   * Encrypt secrets into a vault file readable with the same passphrase
+   */
+  static writeVault(filePath: string, secrets: Record<string, string>, passphrase: string): void {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(
+      'aes-256-gcm',
+      SecretStore.deriveKey(passphrase, salt),
+      iv
+    );
+    const data = Buffer.concat([cipher.update(JSON.stringify(secrets), 'utf-8'), cipher.final()]);
+
+    const vault: VaultFile = {
+      version: 1,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(vault, null, 2) + '\n');
+  }
+
+  private static remember(name: string, value: string): void {
+    if (value.length >= MIN_REDACTED_LENGTH) {
+      SecretStore.resolved.set(value, name);
+    }
+  }
+
+  private static nonEmpty(value: string | undefined): string | undefined {
+    return value === '' ? undefined : value;
+  }
+
+  private static isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null) {
+      return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+  }
+
+  private static deriveKey(passphrase: string, salt: Buffer): Buffer {
+    return crypto.scryptSync(passphrase, salt, 32);
+  }
+
+  /**
+   * Variables of the `.env` file: `KEY=value` lines, optionally quoted or `export`ed
+   */
+  private readEnvFile(): Record<string, string> {
+    if (!this.envFileSecrets) {
+      this.envFileSecrets = {};
+      if (fs.existsSync(this.envFile)) {
+        for (const line of fs.readFileSync(this.envFile, 'utf-8').split(/\r?\n/)) {
+          const match = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*?)\s*$/.exec(line);
+          if (match) {
+            const value = match[2] as string;
+            this.envFileSecrets[match[1] as string] = /^(['"]).*\1$/.test(value)
+              ? value.slice(1, -1)
+              : value;
+          }
+        }
+      }
+    }
+    return this.envFileSecrets;
+  }
+
+  private readVault(): Record<string, string> {
+    if (!this.vaultSecrets) {
+      if (!fs.existsSync(this.vaultFile)) {
+        this.vaultSecrets = {};
+        return this.vaultSecrets;
+      }
+      if (!this.vaultKey) {
+        throw new Error(`Cannot open ${this.vaultFile}: set ${VAULT_KEY_ENV} to its passphrase`);
+      }
+
+      const vault = JSON.parse(fs.readFileSync(this.vaultFile, 'utf-8')) as VaultFile;
+      const decipher = crypto.createDecipheriv(
+        'aes-256-gcm',
+        SecretStore.deriveKey(this.vaultKey, Buffer.from(vault.salt, 'base64')),
+        Buffer.from(vault.iv, 'base64')
+      );
+      decipher.setAuthTag(Buffer.from(vault.tag, 'base64'));
+      try {
+        const data = Buffer.concat([
+          decipher.update(Buffer.from(vault.data, 'base64')),
+          decipher.final(),
+        ]);
+        this.vaultSecrets = JSON.parse(data.toString('utf-8')) as Record<string, string>;
+      } catch {
+        throw new Error(`Cannot open ${this.vaultFile}: wrong ${VAULT_KEY_ENV} or corrupt file`);
+      }
+    }
+    return this.vaultSecrets;
+  }
+}
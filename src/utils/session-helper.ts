@@ -0,0 +1,115 @@
+import type { BrowserContext } from '@playwright/test';
+import type { ApiClient, ApiRequestOptions } from './api-client';
+import { Logger } from './logger';
+import type { ApiResponse } from '../types/test-data';
+
+/**
+ * Options for logging in through the API
+ */
+export interface ApiLoginOptions {
+  /**
+   * Send the credentials URL-encoded instead of as JSON
+   */
+  form?: boolean;
+
+  /**
+   * JSONPath of a token in the login response. The token is sent as a Bearer header
+   * by the API client and stored in the browser's localStorage under `storageKey`.
+   */
+  tokenPath?: string;
+  storageKey?: string;
+
+  /**
+   * Origin whose localStorage receives the token (defaults to the API client's base URL)
+   */
+  origin?: string;
+  requestOptions?: ApiRequestOptions;
+}
+
+/**
+ * Moves an authenticated session between the API client and a browser context
+ */
+export class SessionHelper {
+  private readonly apiClient: ApiClient;
+  private readonly context: BrowserContext;
+  private readonly logger: Logger;
+
+  constructor(apiClient: ApiClient, context: BrowserContext) {
+    this.apiClient = apiClient;
+    this.context = context;
+    this.logger = new Logger('SessionHelper');
+  }
+
+  /**
+   * Log in through the API and inject the resulting session into the browser context
+   */
+  async loginViaApi(
+    endpoint: string,
+    credentials: Record<string, string>,
+    options?: ApiLoginOptions
+  ): Promise<ApiResponse> {
+    this.logger.step(`Logging in via API: ${endpoint}`);
+
+    const response = options?.form
+      ? await this.apiClient.post(endpoint, undefined, {
+          ...options.requestOptions,
+          form: credentials,
+        })
+      : await this.apiClient.post(endpoint, credentials, options?.requestOptions);
+
+    if (response.status >= 400) {
+      throw new Error(`API login failed: HTTP ${response.status} ${response.statusText}`);
+    }
+
+    await this.toBrowser();
+
+    if (options?.tokenPath) {
+      const token = this.apiClient.extractValue<string>(response, options.tokenPath);
+      this.apiClient.setAuthToken(token);
+      await this.injectToken(
+        token,
+        options.storageKey || 'token',
+        options.origin || new URL(this.apiClient.getBaseUrl()).origin
+      );
+    }
+
+    this.logger.success('Session injected into the browser context');
+    return response;
+  }
+
+  /**
+   * Copy the API client's cookies into the browser context
+   */
+  async toBrowser(): Promise<void> {
+    const cookies = await this.apiClient.getCookies();
+    if (cookies.length > 0) {
+      await this.context.addCookies(cookies);
+    }
+    this.logger.info(`Copied ${cookies.length} cookie(s) to the browser context`);
+  }
+
+  /**
+   * Copy the browser context's cookies into the API client
+   */
+  async toApi(): Promise<void> {
+    const cookies = await this.context.cookies();
+    if (cookies.length > 0) {
+      await this.apiClient.addCookies(cookies);
+    }
+    this.logger.info(`Copied ${cookies.length} cookie(s) to the API client`);
+  }
+
+  /**
+   * Store a token in localStorage for every page of the origin opened from now on
+   */
+  private async injectToken(token: string, storageKey: string, origin: string): Promise<void> {
+    await this.context.addInitScript(
+      ({ key, value, targetOrigin }) => {
+        if (window.location.origin === targetOrigin) {
+          window.localStorage.setItem(key, value);
+        }
+      },
+      { key: storageKey, value: token, targetOrigin: origin }
+    );
+  }
+}
@@ -1,19 +1,93 @@
 import type { TestData } from '../types/test-data';
+import type { SeededRandom } from './data-factory';
+import { LayeredData } from './layered-data';
 import { Logger } from './logger';
+import { SchemaValidator } from './schema-validator';
+import { SecretStore, type SecretStoreOptions } from './secret-store';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'yaml';
 
+/**
+ * A field of a test data source that does not match the TestData schema
+ */
+export interface TestDataIssue {
+  source: string;
+  path: string;
+  message: string;
+}
+
+/**
+ * Error thrown when loaded test data does not match the TestData schema
+ */
+export class TestDataValidationError extends Error {
+  readonly issues: TestDataIssue[];
+
+  constructor(issues: TestDataIssue[]) {
+    super(
+      `Invalid test data (${issues.length} issue(s)):\n` +
+        issues.map((issue) => `  ${issue.source}: ${issue.path} ${issue.message}`).join('\n')
+    );
+    this.name = 'TestDataValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Where the layers of test data are read from
+ */
+export interface TestDataOptions {
+  /**
+   * Directory of `default.json`, `<environment>.json` and `local.json` (default `src/data`)
+   */
+  dataDir?: string;
+
+  /**
+   * Variables scanned for `TEST_DATA__` overrides (default `process.env`)
+   */
+  env?: Record<string, string | undefined>;
+
+  /**
+   * Where `${secret:NAME}` references are resolved from (variables default to `env`)
+   */
+  secrets?: SecretStoreOptions;
+}
+
+/**
+ * Prefix of environment variables overriding single values, path segments separated by
+ * `__` and array items addressed by id: `TEST_DATA__users__user1__email=qa@example.com`
+ */
+export const TEST_DATA_ENV_PREFIX = 'TEST_DATA__';
+
+/**
+ * Schema generated from the TestData interface (`npm run generate:schemas`)
+ */
+const TEST_DATA_SCHEMA = 'test-data.schema.json';
+const schemaValidator = new SchemaValidator(path.join(process.cwd(), 'src', 'schemas'));
+
+/**
+ * Secrets already reported as missing, so each is warned about once per process
+ */
+const reportedMissingSecrets = new Set<string>();
+
 /**
  * Test Data Manager for loading and managing test data
  */
 export class TestDataManager {
   private readonly environment: string;
+  private readonly dataDir: string;
+  private readonly env: Record<string, string | undefined>;
+  private readonly secrets: SecretStore;
   private readonly logger: Logger;
   private testData: TestData | null = null;
+  private layers: LayeredData<TestData> | null = null;
+  private unresolvedSecrets: TestDataIssue[] = [];
 
-  constructor(environment: string) {
+  constructor(environment: string, options?: TestDataOptions) {
     this.environment = environment;
+    this.dataDir = options?.dataDir || path.join(process.cwd(), 'src', 'data');
+    this.env = options?.env || process.env;
+    this.secrets = new SecretStore({ env: this.env, ...options?.secrets });
     this.logger = new Logger('TestDataManager');
   }
 
@@ -21,35 +95,127 @@ export class TestDataManager {
    * Initialize the test data manager
    */
   async initialize(): Promise<void> {
+    this.initializeSync();
+  }
+
+  /**
+   * Initialize synchronously, for test collection where `await` is not available
+   */
+  initializeSync(): void {
     this.logger.info(`Initializing test data for environment: ${this.environment}`);
-    await this.loadTestData();
+    this.loadTestData();
   }
 
   /**
-   * Load test data from files
+   * Load test data in layers: `default.json` (or the built-in defaults), `<environment>.json`,
+   * an optional `local.json`, then `TEST_DATA__` environment variables
    */
-  private async loadTestData(): Promise<void> {
-    try {
-      const dataDir = path.join(process.cwd(), 'src', 'data');
-      const envDataFile = path.join(dataDir, `${this.environment}.json`);
-      const defaultDataFile = path.join(dataDir, 'default.json');
+  private loadTestData(): void {
+    const layers = new LayeredData<TestData>();
+
+    const defaultDataFile = path.join(this.dataDir, 'default.json');
+    if (fs.existsSync(defaultDataFile)) {
+      this.applyFile(layers, defaultDataFile);
+    } else {
+      this.logger.warn(`Test data file not found: ${defaultDataFile}. Using default data.`);
+      layers.apply(this.getDefaultTestData(), 'built-in defaults');
+    }
 
-      let dataFile = defaultDataFile;
-      if (fs.existsSync(envDataFile)) {
-        dataFile = envDataFile;
+    for (const name of [`${this.environment}.json`, 'local.json']) {
+      const dataFile = path.join(this.dataDir, name);
+      if (name !== 'default.json' && fs.existsSync(dataFile)) {
+        this.applyFile(layers, dataFile);
       }
+    }
 
-      if (fs.existsSync(dataFile)) {
-        const fileContent = fs.readFileSync(dataFile, 'utf-8');
-        this.testData = JSON.parse(fileContent);
-        this.logger.info(`Test data loaded from: ${dataFile}`);
-      } else {
-        this.logger.warn(`Test data file not found: ${dataFile}. Using default data.`);
-        this.testData = this.getDefaultTestData();
+    for (const [name, value] of Object.entries(this.env)) {
+      if (name.startsWith(TEST_DATA_ENV_PREFIX) && value !== undefined) {
+        const segments = name.slice(TEST_DATA_ENV_PREFIX.length).split('__');
+        layers.override(segments, value, `env:${name}`);
       }
+    }
+
+    const source = layers.layerSources.join(' + ');
+    const sourceOf = (pointer: string) => layers.sourceOf(pointer);
+    const { data, unresolved } = this.resolveSecrets(layers.data, source, sourceOf);
+    this.testData = this.validate(data, source, sourceOf);
+    this.layers = layers;
+    this.unresolvedSecrets = unresolved;
+    this.logger.info(`Test data loaded from: ${layers.layerSources.join(', ')}`);
+  }
+
+  private applyFile(layers: LayeredData<TestData>, dataFile: string): void {
+    const source = path.relative(process.cwd(), dataFile);
+    layers.apply(this.parse(fs.readFileSync(dataFile, 'utf-8'), source), source);
+  }
+
+  /**
+   * Check data against the TestData schema. Every invalid field is logged and reported
+   * in the thrown TestDataValidationError, attributed to the layer that set it when
+   * `sourceOf` is given.
+   */
+  validate(
+    data: unknown,
+    source: string,
+    sourceOf?: (pointer: string) => string | undefined
+  ): TestData {
+    const result = schemaValidator.validate(data, TEST_DATA_SCHEMA);
+    if (result.valid) {
+      return data as TestData;
+    }
+
+    const issues = result.errors.map((error) => ({
+      source: sourceOf?.(error.path) || source,
+      path: error.path,
+      message: error.message,
+    }));
+    for (const issue of issues) {
+      this.logger.error(
+        `Invalid test data in ${issue.source} at '${issue.path}': ${issue.message}`
+      );
+    }
+    throw new TestDataValidationError(issues);
+  }
+
+  /**
+   * Resolve the `${secret:NAME}` references of loaded data. Missing secrets are reported
+   * once per process and their references are left in place.
+   */
+  private resolveSecrets(
+    data: unknown,
+    source: string,
+    sourceOf?: (pointer: string) => string | undefined
+  ): { data: unknown; unresolved: TestDataIssue[] } {
+    const unresolved: TestDataIssue[] = [];
+    const resolved = this.secrets.resolveAll(data, (name, pointer) => {
+      const issue = {
+        source: sourceOf?.(pointer) || source,
+        path: pointer,
+        message: `secret '${name}' is not set in the environment, .env or the vault`,
+      };
+      unresolved.push(issue);
+      if (!reportedMissingSecrets.has(name)) {
+        reportedMissingSecrets.add(name);
+        this.logger.warn(`Unresolved secret in ${issue.source} at '${pointer}': ${issue.message}`);
+      }
+    });
+    return { data: resolved, unresolved };
+  }
+
+  /**
+   * Parse a JSON or YAML source, reporting syntax errors like schema mismatches
+   */
+  private parse(content: string, source: string, format: 'json' | 'yaml' = 'json'): unknown {
+    try {
+      return format === 'yaml' ? yaml.parse(content) : JSON.parse(content);
     } catch (error) {
-      this.logger.error('Failed to load test data:', error);
-      this.testData = this.getDefaultTestData();
+      throw new TestDataValidationError([
+        {
+          source,
+          path: '/',
+          message: `is not valid ${format.toUpperCase()}: ${(error as Error).message}`,
+        },
+      ]);
     }
   }
 
@@ -63,7 +229,7 @@ export class TestDataManager {
           id: 'user1',
           username: 'testuser1',
           email: 'testuser1@example.com',
-          password: 'password123',
+          password: '${secret:TEST_USER_PASSWORD}',
           role: 'user',
           profile: {
             firstName: 'Test',
@@ -145,7 +311,7 @@ export class TestDataManager {
           features: ['basic'],
           credentials: {
             username: 'staging_user',
-            password: 'staging_pass',
+            password: '${secret:STAGING_PASSWORD}',
           },
         },
         {
@@ -155,7 +321,7 @@ export class TestDataManager {
           features: ['basic'],
           credentials: {
             username: 'prod_user',
-            password: 'prod_pass',
+            password: '${secret:PROD_PASSWORD}',
           },
         },
       ],
@@ -242,19 +408,36 @@ export class TestDataManager {
   }
 
   /**
-   * Get random user
+   * Get random user, reproducibly when given a seeded generator (e.g. `dataFactory.random`)
    */
-  getRandomUser() {
+  getRandomUser(random?: SeededRandom) {
     const users = this.getUsers();
-    return users[Math.floor(Math.random() * users.length)];
+    return users[Math.floor((random ? random.next() : Math.random()) * users.length)];
   }
 
   /**
-   * Get random search query by category
+   * Get random search query by category, reproducibly when given a seeded generator
    */
-  getRandomSearchQuery(category?: 'valid' | 'invalid' | 'edge-case' | 'performance') {
+  getRandomSearchQuery(
+    category?: 'valid' | 'invalid' | 'edge-case' | 'performance',
+    random?: SeededRandom
+  ) {
     const queries = category ? this.getSearchQueriesByCategory(category) : this.getSearchQueries();
-    return queries[Math.floor(Math.random() * queries.length)];
+    return queries[Math.floor((random ? random.next() : Math.random()) * queries.length)];
+  }
+
+  /**
+   * File (or `env:<variable>`) that set the value at a JSON pointer such as `/users/0/email`
+   */
+  getValueSource(pointer: string): string | undefined {
+    return this.layers?.sourceOf(pointer);
+  }
+
+  /**
+   * Source of every loaded value by JSON pointer
+   */
+  getProvenance(): Record<string, string> {
+    return this.layers?.provenance() || {};
   }
 
   /**
@@ -263,7 +446,11 @@ export class TestDataManager {
   async loadFromYaml(filePath: string): Promise<void> {
     try {
       const fileContent = fs.readFileSync(filePath, 'utf-8');
-      this.testData = yaml.parse(fileContent);
+      const { data, unresolved } = this.resolveSecrets(
+        this.parse(fileContent, filePath, 'yaml'),
+        filePath
+      );
+      this.replaceTestData(this.validate(data, filePath), filePath, unresolved);
       this.logger.info(`Test data loaded from YAML: ${filePath}`);
     } catch (error) {
       this.logger.error('Failed to load YAML test data:', error);
@@ -280,7 +467,11 @@ export class TestDataManager {
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
-      this.testData = await response.json();
+      const { data, unresolved } = this.resolveSecrets(
+        this.parse(await response.text(), apiUrl),
+        apiUrl
+      );
+      this.replaceTestData(this.validate(data, apiUrl), apiUrl, unresolved);
       this.logger.info(`Test data loaded from API: ${apiUrl}`);
     } catch (error) {
       this.logger.error('Failed to load API test data:', error);
@@ -288,8 +479,23 @@ export class TestDataManager {
     }
   }
 
+  private replaceTestData(data: TestData, source: string, unresolved: TestDataIssue[]): void {
+    const layers = new LayeredData<TestData>();
+    layers.apply(data, source);
+    this.testData = layers.data;
+    this.layers = layers;
+    this.unresolvedSecrets = unresolved;
+  }
+
+  /**
+   * Secret references of the loaded data that no source defines
+   */
+  getUnresolvedSecrets(): TestDataIssue[] {
+    return this.unresolvedSecrets;
+  }
+
   /**
-   * Save test data to file
+   * Save test data to file, resolved secrets written back as their `${secret:NAME}` reference
    */
   async saveTestData(filePath: string, format: 'json' | 'yaml' = 'json'): Promise<void> {
     try {
@@ -298,11 +504,12 @@ export class TestDataManager {
         fs.mkdirSync(dir, { recursive: true });
       }
 
+      const testData = SecretStore.redactValue(this.testData, (name) => `\${secret:${name}}`);
       let content: string;
       if (format === 'yaml') {
-        content = yaml.stringify(this.testData);
+        content = yaml.stringify(testData);
       } else {
-        content = JSON.stringify(this.testData, null, 2);
+        content = JSON.stringify(testData, null, 2);
       }
 
       fs.writeFileSync(filePath, content);
@@ -322,7 +529,7 @@ export class TestDataManager {
   }
 
   /**
-   * Validate test data structure
+   * Validate the loaded test data against the TestData schema
    */
   validateTestData(): boolean {
     if (!this.testData) {
@@ -330,12 +537,13 @@ export class TestDataManager {
       return false;
     }
 
-    const requiredFields = ['users', 'searchQueries', 'urls', 'environments'];
-    for (const field of requiredFields) {
-      if (!this.testData[field as keyof TestData]) {
-        this.logger.error(`Required field missing in test data: ${field}`);
+    try {
+      this.validate(this.testData, 'loaded test data');
+    } catch (error) {
+      if (error instanceof TestDataValidationError) {
         return false;
       }
+      throw error;
     }
 
     this.logger.info('Test data validation passed');
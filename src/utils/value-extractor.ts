@@ -0,0 +1,197 @@
+import { JSONPath } from 'jsonpath-plus';
+import * as jmespath from 'jmespath';
+
+export type PathSyntax = 'jsonpath' | 'jmespath';
+
+/**
+ * Error thrown when a path expression does not resolve against the data
+ */
+export class PathResolutionError extends Error {
+  readonly path: string;
+  readonly segment: string;
+
+  constructor(path: string, segment: string, resolvedPath: string) {
+    super(
+      `Path '${path}' did not resolve: segment '${segment}' matched nothing at '${resolvedPath}'`
+    );
+    this.name = 'PathResolutionError';
+    this.path = path;
+    this.segment = segment;
+  }
+}
+
+const INDEFINITE_SEGMENT = /^(\.\.|\*|\?\(|\(|.*[:,])/;
+
+/**
+ * Extracts values from JSON-like data with JSONPath or JMESPath expressions.
+ *
+ * JSONPath expressions may omit the leading `$.` (`items[0].id` is `$.items[0].id`).
+ */
+export class ValueExtractor {
+  /**
+   * Extract a value. Definite paths return the single match, paths with wildcards,
+   * filters, slices, unions or recursive descent return every match as an array.
+   */
+  extract<T = any>(data: unknown, path: string, syntax: PathSyntax = 'jsonpath'): T {
+    if (syntax === 'jmespath') {
+      return this.searchJmesPath<T>(data, path);
+    }
+
+    const segments = this.toSegments(path);
+    const matches = this.evaluate(data, segments);
+
+    if (matches.length === 0) {
+      throw this.locateFailure(data, path, segments);
+    }
+
+    return (this.isDefinite(segments) ? matches[0] : matches) as T;
+  }
+
+  /**
+   * Extract every match as an array. An expression that matches nothing yields an
+   * empty array only when it contains a wildcard, filter, slice, union or recursive descent.
+   */
+  extractAll<T = any>(data: unknown, path: string, syntax: PathSyntax = 'jsonpath'): T[] {
+    if (syntax === 'jmespath') {
+      const result = this.searchJmesPath<T | T[]>(data, path);
+      return Array.isArray(result) ? result : [result];
+    }
+
+    const segments = this.toSegments(path);
+    const matches = this.evaluate(data, segments);
+
+    if (matches.length === 0 && this.isDefinite(segments)) {
+      throw this.locateFailure(data, path, segments);
+    }
+
+    return matches as T[];
+  }
+
+  /**
+   * Evaluate a JMESPath expression. JMESPath yields null for missing values too, so a null
+   * result only resolves when every null segment is a key present with a JSON null.
+   */
+  private searchJmesPath<T>(data: unknown, expression: string): T {
+    const result = jmespath.search(data as any, expression);
+    if (result !== null) {
+      return result as T;
+    }
+
+    // Re-evaluate growing prefixes of the expression to name the failing segment
+    const segments = this.splitJmesPath(expression);
+    let parent: unknown = data;
+    for (let index = 1; index <= segments.length; index++) {
+      const segment = segments[index - 1] as string;
+      let value: unknown = null;
+      try {
+        value = jmespath.search(data as any, segments.slice(0, index).join('.'));
+      } catch {
+        break;
+      }
+      if (value === null && !this.isNullMember(parent, segment)) {
+        throw new PathResolutionError(
+          expression,
+          segment,
+          segments.slice(0, index - 1).join('.') || '@'
+        );
+      }
+      if (index === segments.length) {
+        return result as T;
+      }
+      parent = value;
+    }
+
+    throw new PathResolutionError(expression, expression, '@');
+  }
+
+  /**
+   * Check if a JMESPath segment is a plain or quoted key holding a JSON null in its parent
+   */
+  private isNullMember(parent: unknown, segment: string): boolean {
+    if (typeof parent !== 'object' || parent === null || Array.isArray(parent)) {
+      return false;
+    }
+
+    let key: string;
+    if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(segment)) {
+      key = segment;
+    } else if (/^"(?:[^"\\]|\\.)*"$/.test(segment)) {
+      key = JSON.parse(segment) as string;
+    } else {
+      return false;
+    }
+
+    return (
+      Object.prototype.hasOwnProperty.call(parent, key) &&
+      (parent as Record<string, unknown>)[key] === null
+    );
+  }
+
+  /**
+   * Split a JMESPath expression on top-level dots
+   */
+  private splitJmesPath(expression: string): string[] {
+    const segments: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let current = '';
+
+    for (const char of expression) {
+      if (quote) {
+        quote = char === quote ? null : quote;
+      } else if (char === '"' || char === "'" || char === '`') {
+        quote = char;
+      } else if (char === '[' || char === '(' || char === '{') {
+        depth++;
+      } else if (char === ']' || char === ')' || char === '}') {
+        depth--;
+      } else if (char === '.' && depth === 0) {
+        segments.push(current);
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+    segments.push(current);
+
+    return segments.filter((segment) => segment.length > 0);
+  }
+
+  /**
+   * Parse a JSONPath expression into segments, adding the implicit root
+   */
+  private toSegments(path: string): string[] {
+    const normalized = path.startsWith('$') ? path : `$.${path.replace(/^\./, '')}`;
+    return [...JSONPath.toPathArray(normalized)];
+  }
+
+  /**
+   * Evaluate parsed JSONPath segments
+   */
+  private evaluate(data: unknown, segments: string[]): unknown[] {
+    return JSONPath({ path: segments, json: data as any, wrap: true }) as unknown[];
+  }
+
+  /**
+   * Check if a parsed JSONPath can match at most one value
+   */
+  private isDefinite(segments: string[]): boolean {
+    return segments.slice(1).every((segment) => !INDEFINITE_SEGMENT.test(segment));
+  }
+
+  /**
+   * Find the first segment whose prefix stops matching
+   */
+  private locateFailure(data: unknown, path: string, segments: string[]): PathResolutionError {
+    for (let index = 2; index <= segments.length; index++) {
+      if (this.evaluate(data, segments.slice(0, index)).length === 0) {
+        return new PathResolutionError(
+          path,
+          segments[index - 1] || path,
+          JSONPath.toPathString(segments.slice(0, index - 1))
+        );
+      }
+    }
+    return new PathResolutionError(path, path, '$');
+  }
+}
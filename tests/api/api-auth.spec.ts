@@ -0,0 +1,298 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import { ApiClient } from '../../src/utils/api-client';
+import { OAuth2AuthProvider } from '../../src/utils/auth-providers';
+import { allure } from 'allure-playwright';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * Local OAuth2 token endpoint and protected resource used by the auth tests
+ */
+class AuthStub {
+  readonly tokenRequests: Array<Record<string, string>> = [];
+  tokenEndpointDown = false;
+  private readonly server: http.Server;
+  private validTokens = new Set<string>();
+  private tokenCounter = 0;
+
+  constructor() {
+    this.server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => this.handle(req, res, body));
+    });
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  revokeTokens(): void {
+    this.validTokens.clear();
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse, body: string): void {
+    const url = new URL(req.url || '/', this.url);
+
+    if (url.pathname === '/oauth/token') {
+      const form = Object.fromEntries(new URLSearchParams(body));
+      this.tokenRequests.push(form);
+
+      if (this.tokenEndpointDown) {
+        this.json(res, 503, { error: 'temporarily_unavailable' });
+        return;
+      }
+      if (form['grant_type'] === 'password' && form['password'] !== 'secret') {
+        this.json(res, 400, { error: 'invalid_grant' });
+        return;
+      }
+
+      const token = `token-${++this.tokenCounter}`;
+      this.validTokens.add(token);
+      this.json(res, 200, { access_token: token, token_type: 'bearer', expires_in: 3600 });
+      return;
+    }
+
+    if (url.pathname === '/protected') {
+      const token = (req.headers['authorization'] || '').replace(/^Bearer /, '');
+      if (!this.validTokens.has(token)) {
+        this.json(res, 401, { error: 'invalid_token' });
+        return;
+      }
+      this.json(res, 200, { token });
+      return;
+    }
+
+    // Echo everything else so header and query credentials and signed bodies can be asserted
+    this.json(res, 200, {
+      headers: req.headers,
+      query: Object.fromEntries(url.searchParams),
+      body,
+    });
+  }
+
+  private json(res: http.ServerResponse, status: number, payload: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  }
+}
+
+test.describe('API Authentication Tests', () => {
+  const stub = new AuthStub();
+
+  test.beforeAll(async () => {
+    await stub.start();
+  });
+
+  test.afterAll(async () => {
+    await stub.stop();
+  });
+
+  test.beforeEach(async () => {
+    allure.feature('API Authentication');
+    OAuth2AuthProvider.clearCache();
+    stub.tokenRequests.length = 0;
+    stub.tokenEndpointDown = false;
+  });
+
+  test('should cache client-credentials tokens across requests @api @auth', async ({ logger }) => {
+    allure.story('OAuth2 Client Credentials');
+    allure.severity('critical');
+
+    const apiClient = new ApiClient(stub.url, {
+      auth: {
+        type: 'oauth2',
+        grantType: 'client_credentials',
+        tokenUrl: `${stub.url}/oauth/token`,
+        clientId: 'test-client',
+        clientSecret: 'test-secret',
+        scope: 'read',
+      },
+    });
+
+    const first = await apiClient.get('/protected');
+    const second = await apiClient.get('/protected');
+    await apiClient.cleanup();
+
+    expect(first.status).toBe(200);
+    expect(second.data.token).toBe(first.data.token);
+    expect(stub.tokenRequests).toEqual([
+      {
+        grant_type: 'client_credentials',
+        scope: 'read',
+        client_id: 'test-client',
+        client_secret: 'test-secret',
+      },
+    ]);
+
+    logger.success('✅ Client-credentials caching test passed');
+  });
+
+  test('should refresh the token after a 401 response @api @auth', async ({ logger }) => {
+    allure.story('OAuth2 Token Refresh');
+    allure.severity('critical');
+
+    const apiClient = new ApiClient(stub.url, {
+      auth: {
+        type: 'oauth2',
+        grantType: 'password',
+        tokenUrl: `${stub.url}/oauth/token`,
+        clientId: 'test-client',
+        username: 'testuser',
+        password: 'secret',
+      },
+    });
+
+    const before = await apiClient.get('/protected');
+    stub.revokeTokens();
+    const after = await apiClient.get('/protected');
+    await apiClient.cleanup();
+
+    expect(after.status).toBe(200);
+    expect(after.data.token).not.toBe(before.data.token);
+    expect(after.attempts?.map((attempt) => attempt.status)).toEqual([401, 200]);
+    expect(stub.tokenRequests).toHaveLength(2);
+
+    logger.success('✅ Token refresh test passed');
+  });
+
+  test('should share one token request and key tokens by credentials @api @auth', async ({
+    logger,
+  }) => {
+    allure.story('OAuth2 Token Cache');
+    allure.severity('normal');
+
+    const clientFor = (clientSecret: string) =>
+      new ApiClient(stub.url, {
+        auth: {
+          type: 'oauth2',
+          grantType: 'client_credentials',
+          tokenUrl: `${stub.url}/oauth/token`,
+          clientId: 'test-client',
+          clientSecret,
+        },
+      });
+
+    logger.step('Sending concurrent first requests');
+    const apiClient = clientFor('test-secret');
+    const responses = await Promise.all([
+      apiClient.get('/protected'),
+      apiClient.get('/protected'),
+      apiClient.get('/protected'),
+    ]);
+    expect(responses.map((response) => response.status)).toEqual([200, 200, 200]);
+    expect(new Set(responses.map((response) => response.data.token)).size).toBe(1);
+    expect(stub.tokenRequests).toHaveLength(1);
+
+    logger.step('Requesting a separate token for another client secret');
+    const otherClient = clientFor('other-secret');
+    const other = await otherClient.get('/protected');
+    expect(other.data.token).not.toBe(responses[0]?.data.token);
+    expect(stub.tokenRequests.map((form) => form['client_secret'])).toEqual([
+      'test-secret',
+      'other-secret',
+    ]);
+
+    await apiClient.cleanup();
+    await otherClient.cleanup();
+
+    logger.success('✅ Token sharing test passed');
+  });
+
+  test('should return the 401 response when the token cannot be renewed @api @auth', async ({
+    logger,
+  }) => {
+    allure.story('OAuth2 Token Refresh');
+    allure.severity('normal');
+
+    const apiClient = new ApiClient(stub.url, {
+      auth: {
+        type: 'oauth2',
+        grantType: 'client_credentials',
+        tokenUrl: `${stub.url}/oauth/token`,
+        clientId: 'test-client',
+        clientSecret: 'test-secret',
+      },
+    });
+
+    await apiClient.get('/protected');
+    stub.revokeTokens();
+    stub.tokenEndpointDown = true;
+    const rejected = await apiClient.get('/protected');
+    await apiClient.cleanup();
+
+    expect(rejected.status).toBe(401);
+    expect(stub.tokenRequests).toHaveLength(2);
+
+    logger.success('✅ Failed token renewal test passed');
+  });
+
+  test('should send API keys, basic credentials and HMAC signatures @api @auth', async ({
+    logger,
+  }) => {
+    allure.story('Header and Query Credentials');
+    allure.severity('normal');
+
+    const queryKeyClient = new ApiClient(stub.url, {
+      auth: { type: 'apiKey', name: 'api_key', value: 'key-123', in: 'query' },
+    });
+    const queryKey = await queryKeyClient.get('/echo');
+    await queryKeyClient.cleanup();
+    expect(queryKey.data.query.api_key).toBe('key-123');
+
+    const basicClient = new ApiClient(stub.url, {
+      auth: { type: 'basic', username: 'user', password: 'pass' },
+    });
+    const basic = await basicClient.get('/echo');
+    await basicClient.cleanup();
+    expect(basic.data.headers.authorization).toBe(
+      `Basic ${Buffer.from('user:pass').toString('base64')}`
+    );
+
+    const hmacClient = new ApiClient(stub.url, {
+      auth: { type: 'hmac', keyId: 'key-1', secret: 'shared-secret' },
+    });
+    const signed = await hmacClient.post('/echo', { amount: 10 });
+    await hmacClient.cleanup();
+    expect(signed.data.headers.authorization).toMatch(
+      /^HMAC-SHA256 keyId=key-1, signature=[0-9a-f]{64}$/
+    );
+    expect(signed.data.headers['x-timestamp']).toBeDefined();
+
+    logger.step('Signing the URL-encoded body of a form request');
+    const formClient = new ApiClient(stub.url, {
+      auth: { type: 'hmac', keyId: 'key-1', secret: 'shared-secret' },
+    });
+    const signedForm = await formClient.post('/echo', undefined, {
+      form: { name: 'Jane Doe', qty: 2, gift: true },
+    });
+    const signingString = [
+      'POST',
+      '/echo',
+      signedForm.data.headers['x-timestamp'],
+      crypto.createHash('sha256').update(signedForm.data.body).digest('hex'),
+    ].join('\n');
+    expect(signedForm.data.body).toBe('name=Jane+Doe&qty=2&gift=true');
+    expect(signedForm.data.headers.authorization).toBe(
+      `HMAC-SHA256 keyId=key-1, signature=${crypto
+        .createHmac('sha256', 'shared-secret')
+        .update(signingString)
+        .digest('hex')}`
+    );
+    await expect(
+      formClient.post('/echo', undefined, { multipart: { note: 'hello' } })
+    ).rejects.toThrow(/Cannot HMAC-sign multipart request POST/);
+    await formClient.cleanup();
+
+    logger.success('✅ Header and query credentials test passed');
+  });
+});
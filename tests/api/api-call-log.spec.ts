@@ -0,0 +1,118 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import { ApiCallLog } from '../../src/utils/api-call-log';
+import { allure } from 'allure-playwright';
+import * as fs from 'fs';
+
+test.describe('API Call Log Tests', () => {
+  test.use({
+    apiConfig: { timeout: 30000, retries: 0 },
+    mockApi: {
+      routes: [
+        { method: 'POST', path: '/login', response: { body: { token: 'secret-jwt' } } },
+        { method: 'GET', path: '/notes', response: { body: [{ text: "it's done" }] } },
+        {
+          method: 'GET',
+          path: '/avatar.png',
+          response: { headers: { 'Content-Type': 'image/png' }, body: Buffer.from([137, 80]) },
+        },
+      ],
+    },
+  });
+
+  test.beforeEach(async () => {
+    allure.feature('API Call Log');
+  });
+
+  test('should export calls as cURL commands with secrets redacted @api @debugging', async ({
+    apiClient,
+    mockServer,
+    logger,
+  }) => {
+    allure.story('cURL Export');
+    allure.severity('critical');
+
+    logger.step('Rendering the last call as a cURL command');
+
+    apiClient.setAuthToken('my-token');
+    await apiClient.addCookies([{ name: 'session', value: 's-1', url: mockServer.url }]);
+    await apiClient.post(
+      '/login',
+      { username: 'admin', password: 'hunter2', note: "it's me" },
+      { params: { api_key: 'k-123', lang: 'en' } }
+    );
+
+    expect(apiClient.toCurl()).toBe(
+      [
+        `curl -X POST '${mockServer.url}/login?api_key=%5BREDACTED%5D&lang=en'`,
+        `-H 'Authorization: [REDACTED]'`,
+        `-H 'Cookie: [REDACTED]'`,
+        `-H 'Content-Type: application/json'`,
+        `--data-raw '{"username":"admin","password":"[REDACTED]","note":"it'\\''s me"}'`,
+      ].join(' \\\n  ')
+    );
+
+    await apiClient.post('/login', undefined, { form: { username: 'admin', password: 'x' } });
+    expect(apiClient.toCurl()).toContain(`--data-urlencode 'password=[REDACTED]'`);
+    expect(apiClient.getCalls()).toHaveLength(2);
+
+    logger.success('✅ cURL export test passed');
+  });
+
+  test('should write calls to a HAR file @api @debugging', async ({
+    apiClient,
+    mockServer,
+    logger,
+  }, testInfo) => {
+    allure.story('HAR Export');
+    allure.severity('critical');
+
+    await apiClient.addCookies([{ name: 'session', value: 's-1', url: mockServer.url }]);
+    await apiClient.post('/login', { username: 'admin', password: 'hunter2' });
+    await apiClient.get('/notes', { params: { page: '1' } });
+    await apiClient.get('/avatar.png');
+
+    const harPath = testInfo.outputPath('calls.har');
+    apiClient.getCallLog().saveHar(harPath);
+    const har = JSON.parse(fs.readFileSync(harPath, 'utf-8'));
+    const [login, notes, avatar] = har.log.entries;
+
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.entries).toHaveLength(3);
+    expect(login.request.postData.text).toBe('{"username":"admin","password":"[REDACTED]"}');
+    expect(JSON.parse(login.response.content.text)).toEqual({ token: '[REDACTED]' });
+    expect(login.request.cookies).toEqual([{ name: 'session', value: '[REDACTED]' }]);
+    expect(notes.request.queryString).toEqual([{ name: 'page', value: '1' }]);
+    expect(notes.response.status).toBe(200);
+    expect(avatar.response.content).toMatchObject({
+      mimeType: 'image/png',
+      encoding: 'base64',
+      text: Buffer.from([137, 80]).toString('base64'),
+    });
+
+    logger.success('✅ HAR export test passed');
+  });
+
+  test('should attach the HAR and cURL commands to the test @api @debugging', async ({
+    apiClient,
+    logger,
+  }, testInfo) => {
+    allure.story('Failure Attachments');
+    allure.severity('normal');
+
+    // The apiClient fixture does this automatically when a test fails
+    await apiClient.get('/notes');
+    await apiClient.getCallLog().attachTo(testInfo);
+
+    const attachment = (name: string) =>
+      testInfo.attachments.find((candidate) => candidate.name === name)?.body?.toString('utf-8');
+
+    const har = JSON.parse(attachment(ApiCallLog.harAttachmentName) || '{}');
+    expect(har.log.entries).toHaveLength(1);
+
+    const script = attachment(ApiCallLog.curlAttachmentName);
+    expect(script).toContain('# GET ');
+    expect(script).toContain('/notes -> 200 OK');
+
+    logger.success('✅ Failure attachment test passed');
+  });
+});
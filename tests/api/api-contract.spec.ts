@@ -0,0 +1,217 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import { ApiClient } from '../../src/utils/api-client';
+import { MockServer } from '../../src/utils/mock-server';
+import { ContractViolationError, OpenApiValidator } from '../../src/utils/openapi-validator';
+import { allure } from 'allure-playwright';
+import * as fs from 'fs';
+
+test.describe('API Contract Tests', () => {
+  // Every call made through apiClient is checked against the httpbin OpenAPI document
+  test.use({
+    apiConfig: {
+      timeout: 30000,
+      retries: 0,
+      openApiSpec: 'src/schemas/httpbin.openapi.yaml',
+    },
+  });
+
+  test.beforeEach(async () => {
+    allure.feature('API Contract Testing');
+  });
+
+  test('should accept a GET request matching the contract @api @contract', async ({
+    apiClient,
+    logger,
+  }) => {
+    allure.story('OpenAPI Contract Validation');
+    allure.severity('critical');
+
+    logger.step('Starting GET contract test');
+
+    const response = await apiClient.get('/get', { params: { page: '2' } });
+
+    expect(response.status).toBe(200);
+    expect(response.data.args.page).toBe('2');
+
+    logger.success('✅ GET contract test passed');
+  });
+
+  test('should accept a POST body matching the contract @api @contract', async ({
+    apiClient,
+    logger,
+  }) => {
+    allure.story('OpenAPI Contract Validation');
+    allure.severity('normal');
+
+    logger.step('Starting POST contract test');
+
+    const message = { name: 'Test User', email: 'test@example.com', message: 'Hello' };
+    const response = await apiClient.post('/post', message);
+
+    expect(response.status).toBe(200);
+    expect(response.data.json).toEqual(message);
+
+    logger.success('✅ POST contract test passed');
+  });
+
+  test('should fail a request that violates the contract @api @contract', async ({
+    apiClient,
+    logger,
+  }) => {
+    allure.story('OpenAPI Contract Violations');
+    allure.severity('normal');
+
+    logger.step('Starting contract violation test');
+
+    const error = await apiClient
+      .post('/post', { name: 'Test User', email: 'not-an-email' })
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ContractViolationError);
+    expect(error.violations).toEqual([
+      { location: 'request.body', message: '/email: must match format "email"' },
+    ]);
+
+    allure.attachment('Violations', JSON.stringify(error.violations, null, 2), 'application/json');
+
+    logger.success('✅ Contract violation test passed');
+  });
+
+  test('should skip contract validation when disabled per call @api @contract', async ({
+    apiClient,
+    logger,
+  }) => {
+    allure.story('OpenAPI Contract Validation');
+    allure.severity('minor');
+
+    logger.step('Starting contract opt-out test');
+
+    const response = await apiClient.get('/uuid', { validateContract: false });
+
+    expect(response.status).toBe(200);
+
+    logger.success('✅ Contract opt-out test passed');
+  });
+
+  test('should report configured documents whose operations no test called @api @contract', async ({
+    logger,
+  }, testInfo) => {
+    allure.story('OpenAPI Coverage');
+    allure.severity('normal');
+
+    logger.step('Creating a validator for a document that no call has exercised');
+
+    const specPath = testInfo.outputPath('orders.openapi.json');
+    fs.writeFileSync(
+      specPath,
+      JSON.stringify({
+        openapi: '3.0.3',
+        info: { title: 'Orders', version: '1.0.0' },
+        paths: {
+          '/orders': {
+            get: { responses: { '200': { description: 'Orders' } } },
+            post: { responses: { '201': { description: 'Created' } } },
+          },
+        },
+      })
+    );
+    const validator = new OpenApiValidator(specPath);
+    const coverageOf = () =>
+      OpenApiValidator.summarizeCoverage().find((coverage) => coverage.spec === specPath);
+
+    expect(coverageOf()).toEqual({
+      spec: specPath,
+      totalOperations: 2,
+      coveredOperations: 0,
+      uncoveredOperations: ['GET /orders', 'POST /orders'],
+      uncoveredStatuses: {},
+    });
+
+    logger.step('Recording a call of one operation');
+    validator.validate(
+      { method: 'GET', url: 'http://localhost/orders' },
+      { status: 200, statusText: 'OK', headers: {}, data: '', responseTime: 1 }
+    );
+
+    expect(coverageOf()).toMatchObject({
+      coveredOperations: 1,
+      uncoveredOperations: ['POST /orders'],
+    });
+
+    logger.success('✅ Contract coverage test passed');
+  });
+
+  test('should check form and multipart bodies against their declared schemas @api @contract', async ({
+    logger,
+  }, testInfo) => {
+    allure.story('OpenAPI Contract Validation');
+    allure.severity('normal');
+
+    const specPath = testInfo.outputPath('uploads.openapi.json');
+    fs.writeFileSync(
+      specPath,
+      JSON.stringify({
+        openapi: '3.0.3',
+        info: { title: 'Uploads', version: '1.0.0' },
+        paths: {
+          '/orders': {
+            post: {
+              requestBody: {
+                required: true,
+                content: {
+                  'application/x-www-form-urlencoded': {
+                    schema: {
+                      type: 'object',
+                      required: ['item', 'quantity'],
+                      properties: { item: { type: 'string' }, quantity: { type: 'integer' } },
+                    },
+                  },
+                  'multipart/form-data': {
+                    schema: {
+                      type: 'object',
+                      required: ['file'],
+                      properties: { file: { type: 'string', format: 'binary' } },
+                    },
+                  },
+                },
+              },
+              responses: { '201': { description: 'Created' } },
+            },
+          },
+        },
+      })
+    );
+    const mockServer = new MockServer({ openApiSpec: specPath });
+    await mockServer.start();
+    const apiClient = new ApiClient(mockServer.url, { openApiSpec: specPath });
+
+    try {
+      logger.step('Posting a form and a multipart body to a required request body');
+      const form = await apiClient.post('/orders', undefined, {
+        form: { item: 'book', quantity: 2 },
+      });
+      expect(form.status).toBe(201);
+
+      const multipart = await apiClient.post('/orders', undefined, {
+        multipart: {
+          file: { name: 'order.csv', mimeType: 'text/csv', buffer: Buffer.from('book,2') },
+        },
+      });
+      expect(multipart.status).toBe(201);
+
+      logger.step('Rejecting form fields that do not match the schema');
+      const error = await apiClient
+        .post('/orders', undefined, { form: { item: 'book', quantity: 'two' } })
+        .catch((caught) => caught);
+      expect(error).toBeInstanceOf(ContractViolationError);
+      expect(error.violations).toEqual([
+        { location: 'request.body', message: '/quantity: must be integer' },
+      ]);
+    } finally {
+      await apiClient.cleanup();
+      await mockServer.stop();
+    }
+
+    logger.success('✅ Form body contract test passed');
+  });
+});
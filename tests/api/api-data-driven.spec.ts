@@ -0,0 +1,103 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import {
+  DATA_RECORD_ANNOTATION,
+  searchQueryRecords,
+  testEach,
+  urlRecords,
+} from '../../src/fixtures/data-driven';
+import { allure } from 'allure-playwright';
+
+test.describe('Data-Driven Search Tests', () => {
+  test.use({
+    apiConfig: { timeout: 30000, retries: 0 },
+    mockApi: {
+      routes: [
+        {
+          method: 'GET',
+          path: '/search',
+          response: (request) => ({ body: { query: request.query['q'] ?? '', results: [] } }),
+        },
+      ],
+    },
+  });
+
+  test.beforeEach(async () => {
+    allure.feature('Data-Driven Tests');
+  });
+
+  testEach(
+    test,
+    'search',
+    searchQueryRecords({ category: 'edge-case' }),
+    (query) =>
+      async ({ apiClient, logger }, testInfo) => {
+        allure.story('Edge-Case Search Queries');
+
+        logger.step(`Searching for ${query.description}`);
+        const response = await apiClient.get('/search', { params: { q: query.query } });
+
+        expect(response).toHaveStatus(200);
+        expect(response.data.query).toBe(query.query);
+        expect(testInfo.title).toBe(`search [${query.id}]`);
+        expect(testInfo.tags).toEqual(['@api', '@edge-case', `@${query.expectedBehavior}`]);
+        expect(testInfo.annotations).toContainEqual(
+          expect.objectContaining({
+            type: DATA_RECORD_ANNOTATION,
+            description: `search/${query.id}`,
+          })
+        );
+
+        logger.success(`✅ Search query ${query.id} passed`);
+      },
+    { tag: ['api'] }
+  );
+});
+
+test.describe('Data-Driven Records Tests', () => {
+  test('should filter records like the TestDataManager accessors @api @test-data', async ({
+    testDataManager,
+    environment,
+    logger,
+  }) => {
+    allure.feature('Data-Driven Tests');
+    allure.story('Record Filters');
+    allure.severity('normal');
+
+    expect(searchQueryRecords({}, environment).map((query) => query.id)).toEqual(
+      testDataManager.getSearchQueries().map((query) => query.id)
+    );
+    expect(
+      searchQueryRecords({ category: 'edge-case', expectedBehavior: 'fail' }, environment).map(
+        (query) => query.id
+      )
+    ).toEqual(['long-query-search']);
+    expect(searchQueryRecords({ expectedBehavior: 'fail' }, environment)).toEqual(
+      testDataManager.getSearchQueriesByBehavior('fail')
+    );
+    expect(urlRecords({ environment: 'prod' }, environment)).toEqual(
+      testDataManager.getUrls().filter((url) => url.environment === 'prod')
+    );
+
+    logger.success('✅ Record filter test passed');
+  });
+
+  test('should refuse records with duplicate ids @api @test-data', async ({ logger }) => {
+    allure.feature('Data-Driven Tests');
+    allure.story('Stable Titles');
+    allure.severity('minor');
+
+    const defined: string[] = [];
+    const register = (title: string) => {
+      defined.push(title);
+    };
+    const records = [{ id: 'a' }, { id: 'b' }, { id: 'a' }];
+    const body = () => async () => expect(defined).toHaveLength(2);
+
+    expect(() => testEach(register, 'rows', records, body)).toThrow(
+      "Duplicate id 'a' in rows: generated tests need unique ids"
+    );
+    expect(defined).toEqual(['rows [a]', 'rows [b]']);
+
+    logger.success('✅ Duplicate id test passed');
+  });
+});
@@ -0,0 +1,107 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import { DataFactory, SeededRandom, type Locale } from '../../src/utils/data-factory';
+import { TestDataManager } from '../../src/utils/test-data-manager';
+import { allure } from 'allure-playwright';
+
+const LOCALES: Locale[] = ['en-US', 'en-GB', 'de-DE', 'fr-FR', 'es-ES', 'ja-JP'];
+
+test.describe('Data Factory Tests', () => {
+  test.beforeEach(async () => {
+    allure.feature('Test Data');
+  });
+
+  test('should generate the same valid data from the same seed @api @test-data', async ({
+    logger,
+  }) => {
+    allure.story('Seeded Factories');
+    allure.severity('critical');
+
+    const generate = (seed: number) => {
+      const factory = new DataFactory(seed);
+      return {
+        users: [...factory.users(3), ...LOCALES.map((locale) => factory.user(locale))],
+        searchQueries: (['valid', 'invalid', 'edge-case', 'performance'] as const).map((category) =>
+          factory.searchQuery(category)
+        ),
+      };
+    };
+
+    logger.step('Generating twice with one seed and once with another');
+    const first = generate(42);
+    expect(generate(42)).toEqual(first);
+    expect(generate(43)).not.toEqual(first);
+
+    logger.step('Validating the generated data against the TestData schema');
+    const manager = new TestDataManager('default');
+    expect(() =>
+      manager.validate({ ...first, urls: [], environments: [] }, 'factory (seed 42)')
+    ).not.toThrow();
+    expect(new Set(first.users.map((user) => user.email)).size).toBe(first.users.length);
+
+    logger.success('✅ Seeded generation test passed');
+  });
+
+  test('should apply locales, traits and overrides in order @api @test-data', async ({
+    dataFactory,
+    logger,
+  }) => {
+    allure.story('Traits');
+    allure.severity('normal');
+
+    const user = dataFactory.user('de-DE', 'admin', 'dark-theme', {
+      profile: { firstName: 'Ada', address: { city: 'Bonn' } },
+    });
+    expect(user.role).toBe('admin');
+    expect(user.profile.firstName).toBe('Ada');
+    expect(user.profile.address).toMatchObject({ city: 'Bonn', country: 'Deutschland' });
+    expect(user.profile.address.zipCode).toMatch(/^\d{5}$/);
+    expect(user.profile.preferences).toMatchObject({ language: 'de', theme: 'dark' });
+    expect(user.email).toMatch(/^ada\.[a-z]+\d+@example\.com$/);
+    expect(user.username).toMatch(/^ada_[a-z]+\d+$/);
+
+    const named = dataFactory.user({ email: 'ada@example.org', profile: { lastName: 'Byron' } });
+    expect(named.email).toBe('ada@example.org');
+    expect(named.username).toMatch(/^[a-z]+_byron\d+$/);
+
+    expect(dataFactory.user({ role: 'guest' }, 'admin').role).toBe('admin');
+    expect(dataFactory.user('admin', { role: 'guest' }).role).toBe('guest');
+    expect(dataFactory.address('en-GB').zipCode).toMatch(/^[A-Z]{1,2}\d \d[A-Z]{2}$/);
+
+    const performance = dataFactory.searchQuery('performance', { description: 'Paging' });
+    expect(performance).toMatchObject({ category: 'performance', description: 'Paging' });
+    expect(performance.expectedResults).toBeGreaterThanOrEqual(100);
+    expect(dataFactory.searchQuery('invalid')).toMatchObject({
+      expectedResults: 0,
+      expectedBehavior: 'fail',
+    });
+
+    logger.success('✅ Traits test passed');
+  });
+
+  test('should report the seed and reuse it from TEST_DATA_SEED @api @test-data', async ({
+    dataFactory,
+    testDataManager,
+    logger,
+  }, testInfo) => {
+    allure.story('Reproducible Runs');
+    allure.severity('normal');
+
+    expect(testInfo.annotations).toContainEqual({
+      type: DataFactory.annotationType,
+      description: String(dataFactory.seed),
+    });
+
+    expect(DataFactory.seedFromEnv({ TEST_DATA_SEED: '1234' })).toBe(1234);
+    expect(() => DataFactory.seedFromEnv({ TEST_DATA_SEED: 'abc' })).toThrow(
+      "TEST_DATA_SEED must be an integer from 0 to 4294967295: 'abc'"
+    );
+
+    const pickUsers = (seed: number) => {
+      const random = new SeededRandom(seed);
+      return Array.from({ length: 5 }, () => testDataManager.getRandomUser(random)?.id);
+    };
+    expect(pickUsers(dataFactory.seed)).toEqual(pickUsers(dataFactory.seed));
+
+    logger.success('✅ Seed reporting test passed');
+  });
+});
@@ -0,0 +1,123 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import type { Post, PostList } from '../../src/types/api-responses';
+import { defineEndpoint, EndpointValidationError } from '../../src/utils/api-endpoint';
+import { allure } from 'allure-playwright';
+
+const getPost = defineEndpoint<{ params: { id: number }; response: Post }>({
+  method: 'GET',
+  path: '/posts/{id}',
+  responseSchema: 'post.schema.json',
+});
+
+const listPosts = defineEndpoint<{ query: { userId: number }; response: PostList }>({
+  method: 'GET',
+  path: '/posts',
+  responseSchema: 'post-list.schema.json',
+});
+
+const createPost = defineEndpoint<{ body: Omit<Post, 'id'>; response: Post }>({
+  method: 'POST',
+  path: '/posts',
+  requestSchema: {
+    type: 'object',
+    required: ['title', 'body', 'userId'],
+    properties: { title: { type: 'string', minLength: 1 } },
+  },
+  responseSchema: 'post.schema.json',
+});
+
+const post: Post = { id: 1, title: 'First post', body: 'Hello', userId: 7 };
+
+test.describe('API Endpoint Declaration Tests', () => {
+  test.use({
+    apiConfig: { timeout: 30000, retries: 0 },
+    mockApi: {
+      routes: [
+        {
+          method: 'GET',
+          path: '/posts/{id}',
+          // Post 2 comes back with a string id to simulate a contract drift
+          response: (request) =>
+            request.params['id'] === '2' ? { body: { ...post, id: '2' } } : { body: post },
+        },
+        { method: 'GET', path: '/posts', response: { body: [post] } },
+        {
+          method: 'POST',
+          path: '/posts',
+          response: (request) => ({ status: 201, body: { id: 2, ...request.body } }),
+        },
+      ],
+    },
+  });
+
+  test.beforeEach(async () => {
+    allure.feature('Typed Endpoints');
+  });
+
+  test('should call declared endpoints with typed params, query and body @api @typed', async ({
+    apiClient,
+    mockServer,
+    logger,
+  }) => {
+    allure.story('Typed Calls');
+    allure.severity('critical');
+
+    logger.step('Calling declared endpoints');
+
+    const fetched = await apiClient.call(getPost, { params: { id: 1 } });
+    const listed = await apiClient.call(listPosts, { query: { userId: 7 } });
+    const created = await apiClient.call(createPost, {
+      body: { title: 'Second post', body: 'World', userId: 7 },
+    });
+
+    expect(fetched.data.title).toBe('First post');
+    expect(listed.data.map((item) => item.id)).toEqual([1]);
+    expect(mockServer.lastCall('GET', '/posts')?.query).toEqual({ userId: '7' });
+    expect(created.status).toBe(201);
+    expect(created.data.id).toBe(2);
+
+    logger.success('✅ Typed endpoint calls test passed');
+  });
+
+  test('should reject responses that do not match the declared type @api @typed', async ({
+    apiClient,
+    logger,
+  }) => {
+    allure.story('Response Validation');
+    allure.severity('critical');
+
+    const error = await apiClient.call(getPost, { params: { id: 2 } }).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(EndpointValidationError);
+    expect(error.direction).toBe('response');
+    expect(error.errors.map((item: { path: string }) => item.path)).toEqual(['/id']);
+    expect(error.message).toContain('GET /posts/{id} response does not match its declared schema');
+    expect(error.response.status).toBe(200);
+
+    logger.success('✅ Response validation test passed');
+  });
+
+  test('should reject invalid request bodies before sending them @api @typed', async ({
+    apiClient,
+    mockServer,
+    logger,
+  }) => {
+    allure.story('Request Validation');
+    allure.severity('normal');
+
+    const error = await apiClient
+      .call(createPost, { body: { title: '', body: 'World', userId: 7 } })
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(EndpointValidationError);
+    expect(error.direction).toBe('request');
+    expect(error.errors[0].path).toBe('/title');
+    expect(mockServer.callCount()).toBe(0);
+
+    // Path parameters are required by the type and checked again at runtime
+    // @ts-expect-error params is required for GET /posts/{id}
+    await expect(apiClient.call(getPost)).rejects.toThrow('Missing path parameter(s) id');
+
+    logger.success('✅ Request validation test passed');
+  });
+});
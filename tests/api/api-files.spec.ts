@@ -0,0 +1,122 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import { allure } from 'allure-playwright';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+
+// A binary payload that is not valid UTF-8, so any text decoding would corrupt it
+const report = Buffer.from(Array.from({ length: 4096 }, (_value, index) => (index * 7) % 256));
+const reportChecksum = crypto.createHash('sha256').update(report).digest('hex');
+
+test.describe('API File Transfer Tests', () => {
+  test.use({
+    apiConfig: { timeout: 30000, retries: 0 },
+    mockApi: {
+      routes: [
+        { method: 'POST', path: '/upload', response: { status: 201, body: { stored: true } } },
+        { method: 'POST', path: '/login', response: { body: { ok: true } } },
+        { method: 'PUT', path: '/blobs/{id}', response: { status: 204 } },
+        {
+          method: 'GET',
+          path: '/files/report.bin',
+          response: { headers: { 'Content-Type': 'application/octet-stream' }, body: report },
+        },
+        {
+          method: 'GET',
+          path: '/files/report.png',
+          response: { headers: { 'Content-Type': 'image/png' }, body: report },
+        },
+      ],
+    },
+  });
+
+  test.beforeEach(async () => {
+    allure.feature('API File Transfer');
+  });
+
+  test('should send multipart uploads, URL-encoded forms and raw binary bodies @api @files', async ({
+    apiClient,
+    mockServer,
+    logger,
+  }, testInfo) => {
+    allure.story('Uploads');
+    allure.severity('critical');
+
+    logger.step('Uploading a file from disk and one from a buffer');
+
+    const notesPath = testInfo.outputPath('notes.txt');
+    fs.writeFileSync(notesPath, 'release notes');
+
+    const upload = await apiClient.post('/upload', undefined, {
+      multipart: {
+        description: 'quarterly report',
+        notes: { path: notesPath },
+        report: { buffer: report, name: 'report.bin' },
+      },
+    });
+    expect(upload.status).toBe(201);
+
+    const uploaded = mockServer.lastCall('POST', '/upload');
+    expect(uploaded?.headers['content-type']).toMatch(/^multipart\/form-data; boundary=/);
+    expect(uploaded?.body).toContain('name="notes"; filename="notes.txt"');
+    expect(uploaded?.body).toContain('content-type: text/plain');
+    expect(uploaded?.body).toContain('release notes');
+    expect(uploaded?.body).toContain('filename="report.bin"');
+
+    await apiClient.post('/login', undefined, { form: { username: 'user', remember: true } });
+    expect(mockServer.lastCall('POST', '/login')?.body).toEqual({
+      username: 'user',
+      remember: 'true',
+    });
+
+    await apiClient.put('/blobs/1', report, {
+      headers: { 'Content-Type': 'application/octet-stream' },
+    });
+    const blob = mockServer.lastCall('PUT', '/blobs/1')?.body;
+    expect(Buffer.isBuffer(blob) && blob.equals(report)).toBe(true);
+
+    logger.success('✅ Upload test passed');
+  });
+
+  test('should return binary responses as Buffers with their content type @api @files', async ({
+    apiClient,
+    logger,
+  }) => {
+    allure.story('Binary Responses');
+    allure.severity('critical');
+
+    const image = await apiClient.getBuffer('/files/report.png');
+    expect(image.contentType).toBe('image/png');
+    expect(image.data.equals(report)).toBe(true);
+    expect(apiClient.validateChecksum(image, reportChecksum)).toBeTruthy();
+
+    // Binary content types are decoded as Buffers by the regular request methods too
+    const binary = await apiClient.get<Buffer>('/files/report.bin');
+    expect(Buffer.isBuffer(binary.data)).toBe(true);
+    expect(apiClient.checksum(binary, 'md5')).toBe(
+      crypto.createHash('md5').update(report).digest('hex')
+    );
+
+    logger.success('✅ Binary response test passed');
+  });
+
+  test('should stream downloads to disk with a checksum @api @files', async ({
+    apiClient,
+    logger,
+  }, testInfo) => {
+    allure.story('Downloads');
+    allure.severity('normal');
+
+    const target = testInfo.outputPath('downloads', 'report.bin');
+    const download = await apiClient.download('/files/report.bin', target);
+
+    expect(download.status).toBe(200);
+    expect(download.size).toBe(report.length);
+    expect(download.contentType).toBe('application/octet-stream');
+    expect(download.checksum).toBe(reportChecksum);
+    expect(apiClient.validateChecksum(target, reportChecksum)).toBeTruthy();
+
+    await expect(apiClient.download('/files/missing.bin', target)).rejects.toThrow('HTTP 404');
+
+    logger.success('✅ Download test passed');
+  });
+});
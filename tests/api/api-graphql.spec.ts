@@ -0,0 +1,237 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import { ApiClient } from '../../src/utils/api-client';
+import {
+  GraphQLClient,
+  GraphQLRequestError,
+  GraphQLValidationError,
+} from '../../src/utils/graphql-client';
+import { allure } from 'allure-playwright';
+import { buildSchema, graphql } from 'graphql';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * Local GraphQL gateway with automatic persisted query support
+ */
+class GraphQLStub {
+  readonly requests: Array<Record<string, any>> = [];
+  private readonly persistedQueries = new Map<string, string>();
+  private readonly server: http.Server;
+  private readonly schema = buildSchema(`
+    type User {
+      id: ID!
+      name: String!
+      email: String
+    }
+
+    type Query {
+      user(id: ID!): User
+      users: [User!]!
+    }
+
+    type Mutation {
+      createUser(name: String!): User!
+    }
+  `);
+  private readonly users = [
+    { id: '1', name: 'Test User', email: 'test@example.com' },
+    { id: '2', name: 'Second User', email: null },
+  ];
+  private readonly rootValue = {
+    user: ({ id }: { id: string }) => {
+      const user = this.users.find((candidate) => candidate.id === id);
+      if (!user) {
+        throw new Error(`User ${id} not found`);
+      }
+      return user;
+    },
+    users: () => this.users,
+    createUser: ({ name }: { name: string }) => ({ id: '3', name, email: null }),
+  };
+
+  constructor() {
+    this.server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => void this.handle(JSON.parse(body || '{}'), res));
+    });
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  private async handle(body: Record<string, any>, res: http.ServerResponse): Promise<void> {
+    this.requests.push(body);
+
+    let query: string | undefined = body['query'];
+    const hash = body['extensions']?.persistedQuery?.sha256Hash;
+    if (hash && query) {
+      this.persistedQueries.set(hash, query);
+    } else if (hash) {
+      query = this.persistedQueries.get(hash);
+      if (!query) {
+        this.json(res, { errors: [{ message: 'PersistedQueryNotFound' }] });
+        return;
+      }
+    }
+
+    const result = await graphql({
+      schema: this.schema,
+      source: query || '',
+      rootValue: this.rootValue,
+      variableValues: body['variables'],
+      operationName: body['operationName'],
+    });
+    this.json(res, result);
+  }
+
+  private json(res: http.ServerResponse, payload: unknown): void {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  }
+}
+
+test.describe('GraphQL API Tests', () => {
+  const stub = new GraphQLStub();
+  let apiClient: ApiClient;
+
+  test.beforeAll(async () => {
+    await stub.start();
+  });
+
+  test.afterAll(async () => {
+    await stub.stop();
+  });
+
+  test.beforeEach(async () => {
+    allure.feature('GraphQL Testing');
+    apiClient = new ApiClient(stub.url);
+    stub.requests.length = 0;
+  });
+
+  test.afterEach(async () => {
+    await apiClient.cleanup();
+  });
+
+  test('should run queries and mutations with variables @api @graphql', async ({ logger }) => {
+    allure.story('GraphQL Operations');
+    allure.severity('critical');
+
+    const graphqlClient = new GraphQLClient(apiClient);
+
+    const query = await graphqlClient.query<{ user: { name: string } }>(
+      'query GetUser($id: ID!) { user(id: $id) { name } }',
+      { variables: { id: '1' }, operationName: 'GetUser' }
+    );
+    expect(query.data.user.name).toBe('Test User');
+    expect(stub.requests[0]).toMatchObject({ operationName: 'GetUser', variables: { id: '1' } });
+
+    const mutation = await graphqlClient.mutate<{ createUser: { id: string } }>(
+      'mutation CreateUser($name: String!) { createUser(name: $name) { id } }',
+      { variables: { name: 'New User' } }
+    );
+    expect(mutation.data.createUser.id).toBe('3');
+
+    logger.success('✅ GraphQL operations test passed');
+  });
+
+  test('should reject documents run with the wrong operation kind @api @graphql', async ({
+    logger,
+  }) => {
+    allure.story('GraphQL Operations');
+    allure.severity('normal');
+
+    const graphqlClient = new GraphQLClient(apiClient);
+
+    await expect(
+      graphqlClient.query('mutation CreateUser { createUser(name: "Ada") { id } }')
+    ).rejects.toThrow("GraphQL operation 'CreateUser' is a mutation, not a query: use mutate()");
+    await expect(graphqlClient.mutate('{ users { id } }')).rejects.toThrow(
+      "GraphQL operation 'anonymous' is a query, not a mutation: use query()"
+    );
+    await expect(
+      graphqlClient.query('query A { users { id } } mutation B { createUser(name: "Ada") { id } }')
+    ).rejects.toThrow('set operationName to pick one');
+
+    const picked = await graphqlClient.query(
+      'query A { users { id } } mutation B { createUser(name: "Ada") { id } }',
+      { operationName: 'A' }
+    );
+    expect(picked.errors).toEqual([]);
+    expect(stub.requests).toHaveLength(1);
+
+    logger.success('✅ GraphQL operation kind test passed');
+  });
+
+  test('should surface errors returned with HTTP 200 @api @graphql', async ({ logger }) => {
+    allure.story('GraphQL Errors');
+    allure.severity('critical');
+
+    const graphqlClient = new GraphQLClient(apiClient);
+    const document = 'query GetUser($id: ID!) { user(id: $id) { name } }';
+
+    const error = await graphqlClient
+      .query(document, { variables: { id: '99' } })
+      .catch((caught) => caught);
+    expect(error).toBeInstanceOf(GraphQLRequestError);
+    expect(error.response.status).toBe(200);
+    expect(error.errors).toEqual([
+      expect.objectContaining({ message: 'User 99 not found', path: ['user'] }),
+    ]);
+
+    const allowed = await graphqlClient.query(document, {
+      variables: { id: '99' },
+      allowErrors: true,
+    });
+    expect(allowed.errors).toHaveLength(1);
+
+    logger.success('✅ GraphQL errors test passed');
+  });
+
+  test('should send persisted query hashes @api @graphql', async ({ logger }) => {
+    allure.story('GraphQL Persisted Queries');
+    allure.severity('normal');
+
+    const graphqlClient = new GraphQLClient(apiClient, { persistedQueries: true });
+    const document = '{ users { id } }';
+
+    await graphqlClient.query(document);
+    await graphqlClient.query(document);
+
+    const hash = GraphQLClient.hashQuery(document);
+    expect(stub.requests.map((request) => Boolean(request['query']))).toEqual([false, true, false]);
+    expect(
+      stub.requests.every((request) => request['extensions'].persistedQuery.sha256Hash === hash)
+    ).toBe(true);
+
+    logger.success('✅ GraphQL persisted query test passed');
+  });
+
+  test('should reject operations that are invalid against the schema @api @graphql', async ({
+    logger,
+  }) => {
+    allure.story('GraphQL Schema Validation');
+    allure.severity('normal');
+
+    const graphqlClient = new GraphQLClient(apiClient, { validateOperations: true });
+
+    const error = await graphqlClient.query('{ users { id phone } }').catch((caught) => caught);
+    expect(error).toBeInstanceOf(GraphQLValidationError);
+    expect(error.messages).toEqual(['Cannot query field "phone" on type "User".']);
+
+    // Only the introspection query reached the server
+    expect(stub.requests).toHaveLength(1);
+    expect(stub.requests[0]?.['operationName']).toBe('IntrospectionQuery');
+
+    logger.success('✅ GraphQL schema validation test passed');
+  });
+});
@@ -296,61 +296,116 @@ test.describe('API Integration Tests', () => {
     expect(response.status).toBe(200);
     expect(Array.isArray(response.data)).toBeTruthy();
 
-    // Define expected schema for a post
-    const postSchema = {
-      id: 'number',
-      title: 'string',
-      body: 'string',
-      userId: 'number',
-    };
+    // Validate the whole list against the post-list schema in src/schemas
+    const result = apiClient.checkSchema(response, 'post-list.schema.json');
+    const schemaValidationResults = result.errors.map((error) => `${error.path}: ${error.message}`);
 
-    // Validate schema for first few posts
-    const postsToValidate = response.data.slice(0, 5);
-    const schemaValidationResults: string[] = [];
-
-    postsToValidate.forEach((post: any, index: number) => {
-      const postNumber = index + 1;
-      let isValid = true;
-      const issues: string[] = [];
-
-      // Check each required field
-      Object.entries(postSchema).forEach(([field, expectedType]) => {
-        if (!(field in post)) {
-          issues.push(`Missing field: ${field}`);
-          isValid = false;
-        } else if (typeof post[field] !== expectedType) {
-          issues.push(`Field ${field} has type ${typeof post[field]}, expected ${expectedType}`);
-          isValid = false;
-        }
-      });
-
-      if (isValid) {
-        schemaValidationResults.push(`Post ${postNumber}: Valid schema`);
-        logger.success(`✓ Post ${postNumber} schema is valid`);
-      } else {
-        schemaValidationResults.push(`Post ${postNumber}: Invalid schema - ${issues.join(', ')}`);
-        logger.error(`✗ Post ${postNumber} schema issues: ${issues.join(', ')}`);
-      }
-    });
-
-    // Count valid vs invalid
-    const validCount = schemaValidationResults.filter((result) => result.includes('Valid')).length;
-    const invalidCount = schemaValidationResults.length - validCount;
+    schemaValidationResults.forEach((issue) => logger.error(`✗ Schema issue at ${issue}`));
 
     logger.info(`Schema validation results:`);
-    logger.info(`- Valid posts: ${validCount}`);
-    logger.info(`- Invalid posts: ${invalidCount}`);
+    logger.info(`- Posts validated: ${response.data.length}`);
+    logger.info(`- Schema issues: ${result.errors.length}`);
 
     // Attach validation results to allure report
-    allure.attachment('Expected Schema', JSON.stringify(postSchema, null, 2), 'application/json');
-    allure.attachment('Posts Validated', postsToValidate.length.toString(), 'text/plain');
-    allure.attachment('Valid Posts', validCount.toString(), 'text/plain');
-    allure.attachment('Invalid Posts', invalidCount.toString(), 'text/plain');
-    allure.attachment('Validation Details', schemaValidationResults.join('\\n'), 'text/plain');
+    allure.attachment('Schema Reference', 'post-list.schema.json', 'text/plain');
+    allure.attachment('Posts Validated', response.data.length.toString(), 'text/plain');
+    allure.attachment('Schema Issues', result.errors.length.toString(), 'text/plain');
+    allure.attachment('Validation Details', schemaValidationResults.join('\n'), 'text/plain');
 
-    // Assert all posts have valid schema
-    expect(invalidCount).toBe(0);
+    // Assert every post matches the schema
+    expect(schemaValidationResults).toEqual([]);
+    expect(apiClient.validateSchema(response, 'post-list.schema.json')).toBeTruthy();
 
     logger.success('✅ API schema validation test passed');
   });
+
+  test('should report schema drift with JSON pointer paths @api @schema', async ({
+    apiClient,
+    logger,
+  }) => {
+    allure.story('API Schema Validation');
+    allure.description('This test validates schema mismatches are reported with their paths');
+    allure.severity('normal');
+
+    logger.step('Starting API schema drift test');
+
+    // A response whose second post has drifted from the contract
+    const response = {
+      status: 200,
+      statusText: 'OK',
+      headers: { 'content-type': 'application/json' },
+      responseTime: 0,
+      data: [
+        { id: 1, title: 'First post', body: 'Body', userId: 1 },
+        { id: '2', title: 'Second post', userId: 1, draft: true },
+      ],
+    };
+
+    const result = apiClient.checkSchema(response, 'post-list.schema.json');
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((error) => error.path)).toEqual(
+      expect.arrayContaining(['/1/id', '/1/body', '/1/draft'])
+    );
+    expect(apiClient.validateSchema(response, 'post-list.schema.json')).toBeFalsy();
+
+    allure.attachment('Schema Issues', JSON.stringify(result.errors, null, 2), 'application/json');
+
+    logger.success('✅ API schema drift test passed');
+  });
+
+  test('should extract values with JSONPath and JMESPath @api @extraction', async ({
+    apiClient,
+    logger,
+  }) => {
+    allure.story('Response Value Extraction');
+    allure.description('This test validates JSONPath and JMESPath extraction from list payloads');
+    allure.severity('normal');
+
+    logger.step('Starting value extraction test');
+
+    const response = {
+      status: 200,
+      statusText: 'OK',
+      headers: { 'content-type': 'application/json' },
+      responseTime: 0,
+      data: {
+        items: [
+          { id: 1, title: 'First', price: 5, tags: ['new'] },
+          { id: 2, title: 'Second', price: 20, tags: [] },
+          { id: 3, title: 'Third', price: 40, tags: ['sale'] },
+        ],
+      },
+    };
+
+    // JSONPath: indexing, wildcards, filters and recursive descent
+    expect(apiClient.extractValue<number>(response, 'items[0].id')).toBe(1);
+    expect(apiClient.extractValue<number[]>(response, '$.items[*].id')).toEqual([1, 2, 3]);
+    expect(apiClient.extractValue<string[]>(response, '$.items[?(@.price > 10)].title')).toEqual([
+      'Second',
+      'Third',
+    ]);
+    expect(apiClient.extractValues<number>(response, '$..price')).toEqual([5, 20, 40]);
+    expect(apiClient.extractValues(response, '$.items[?(@.price > 100)]')).toEqual([]);
+
+    // JMESPath: projections, filters and functions
+    expect(apiClient.extractValue(response, 'items[?price > `10`].id', 'jmespath')).toEqual([2, 3]);
+    expect(apiClient.extractValue(response, 'length(items)', 'jmespath')).toBe(3);
+
+    // A JSON null resolves with both syntaxes, a missing key does not
+    const nullable = { ...response, data: { a: null, b: { c: null } } };
+    expect(apiClient.extractValue(nullable, 'a')).toBeNull();
+    expect(apiClient.extractValue(nullable, 'a', 'jmespath')).toBeNull();
+    expect(apiClient.extractValue(nullable, 'b.c', 'jmespath')).toBeNull();
+    expect(() => apiClient.extractValue(nullable, 'b.d', 'jmespath')).toThrow(/segment 'd'/);
+    expect(() => apiClient.extractValue(nullable, 'a.c', 'jmespath')).toThrow(/segment 'c'/);
+
+    // Unresolved paths name the failing segment
+    expect(() => apiClient.extractValue(response, 'items[5].id')).toThrow(/segment '5'/);
+    expect(() => apiClient.extractValue(response, 'items[0].owner.name', 'jmespath')).toThrow(
+      /segment 'owner'/
+    );
+
+    logger.success('✅ Value extraction test passed');
+  });
 });
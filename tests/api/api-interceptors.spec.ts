@@ -0,0 +1,161 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import { syntheticResponse, type ResponseInterceptor } from '../../src/utils/interceptors';
+import { allure } from 'allure-playwright';
+import * as crypto from 'crypto';
+
+let correlationId = 0;
+
+// Responses come wrapped as { data, meta } or { error: { code, message } }
+const unwrapEnvelope: ResponseInterceptor = (response) => {
+  if (response.data && typeof response.data === 'object' && 'data' in response.data) {
+    return { ...response, data: response.data.data };
+  }
+  return undefined;
+};
+const normalizeError: ResponseInterceptor = (response) => {
+  if (response.status >= 400) {
+    response.data = { code: response.data?.error?.code || 'UNKNOWN', status: response.status };
+  }
+};
+
+test.describe('API Interceptor Tests', () => {
+  test.use({
+    apiConfig: {
+      timeout: 30000,
+      retries: 0,
+      interceptors: {
+        request: [
+          (request) => {
+            request.headers['X-Correlation-Id'] = `test-${++correlationId}`;
+          },
+        ],
+        response: [unwrapEnvelope, normalizeError],
+      },
+    },
+    mockApi: {
+      routes: [
+        {
+          method: 'GET',
+          path: '/accounts/{id}',
+          response: (request) =>
+            request.params['id'] === '1'
+              ? { body: { data: { id: 1, tenant: request.headers['x-tenant-id'] }, meta: {} } }
+              : { status: 404, body: { error: { code: 'ACCOUNT_NOT_FOUND' } } },
+        },
+        { method: 'POST', path: '/transfers', response: { status: 201, body: { data: 'ok' } } },
+      ],
+    },
+  });
+
+  test.beforeEach(async () => {
+    allure.feature('API Interceptors');
+  });
+
+  test('should apply client-wide and per-call interceptors in order @api @interceptors', async ({
+    apiClient,
+    mockServer,
+    logger,
+  }) => {
+    allure.story('Interceptor Pipeline');
+    allure.severity('critical');
+
+    logger.step('Sending a request through global and per-call interceptors');
+
+    const order: string[] = [];
+    apiClient.addRequestInterceptor(() => {
+      order.push('client');
+    });
+
+    const account = await apiClient.get('/accounts/1', {
+      interceptors: {
+        request: [
+          (request) => {
+            order.push('call');
+            return { ...request, headers: { ...request.headers, 'X-Tenant-Id': 'acme' } };
+          },
+        ],
+        response: [
+          async (response) => {
+            order.push('response');
+            return { ...response, data: { ...response.data, checked: true } };
+          },
+        ],
+      },
+    });
+
+    expect(order).toEqual(['client', 'call', 'response']);
+    expect(account.data).toEqual({ id: 1, tenant: 'acme', checked: true });
+    expect(mockServer.lastCall()?.headers['x-correlation-id']).toMatch(/^test-\d+$/);
+
+    const missing = await apiClient.get('/accounts/2');
+    expect(missing.status).toBe(404);
+    expect(missing.data).toEqual({ code: 'ACCOUNT_NOT_FOUND', status: 404 });
+
+    logger.success('✅ Interceptor pipeline test passed');
+  });
+
+  test('should sign request bodies with an async interceptor @api @interceptors', async ({
+    apiClient,
+    mockServer,
+    logger,
+  }) => {
+    allure.story('Request Signing');
+    allure.severity('normal');
+
+    const removeSigner = apiClient.addRequestInterceptor(async (request) => {
+      const body = JSON.stringify(request.data ?? '');
+      request.headers['X-Signature'] = crypto
+        .createHmac('sha256', 'secret')
+        .update(`${request.method}\n${new URL(request.url).pathname}\n${body}`)
+        .digest('hex');
+    });
+
+    await apiClient.post('/transfers', { amount: 10 });
+    const expected = crypto
+      .createHmac('sha256', 'secret')
+      .update(`POST\n/transfers\n${JSON.stringify({ amount: 10 })}`)
+      .digest('hex');
+    expect(mockServer.lastCall()?.headers['x-signature']).toBe(expected);
+
+    removeSigner();
+    await apiClient.post('/transfers', { amount: 20 });
+    expect(mockServer.lastCall()?.headers['x-signature']).toBeUndefined();
+
+    logger.success('✅ Request signing test passed');
+  });
+
+  test('should short-circuit calls with a synthetic response @api @interceptors', async ({
+    apiClient,
+    mockServer,
+    logger,
+  }) => {
+    allure.story('Short-circuit');
+    allure.severity('normal');
+
+    const response = await apiClient.post(
+      '/transfers',
+      { amount: 1000000 },
+      {
+        interceptors: {
+          request: [
+            (request) =>
+              request.data.amount > 10000
+                ? syntheticResponse(422, { error: { code: 'LIMIT_EXCEEDED' } })
+                : undefined,
+          ],
+        },
+      }
+    );
+
+    // Nothing was sent, but the response interceptors still normalized the error
+    expect(mockServer.callCount()).toBe(0);
+    expect(response.status).toBe(422);
+    expect(response.data).toEqual({ code: 'LIMIT_EXCEEDED', status: 422 });
+    expect(apiClient.getCallLog().lastCall).toMatchObject({
+      source: 'interceptor',
+      response: { status: 422, statusText: 'Synthetic Response' },
+    });
+
+    logger.success('✅ Short-circuit test passed');
+  });
+});
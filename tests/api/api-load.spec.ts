@@ -0,0 +1,134 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import { LoadThresholdError } from '../../src/utils/load-runner';
+import { allure } from 'allure-playwright';
+
+test.describe('API Load Tests', () => {
+  test.use({
+    apiConfig: { timeout: 30000, retries: 0 },
+    mockApi: {
+      routes: [
+        { method: 'GET', path: '/items', response: { body: [{ id: 1 }], delay: 5 } },
+        { method: 'GET', path: '/items/:id', response: { body: { id: 1 } } },
+        {
+          method: 'GET',
+          path: '/items/:id',
+          times: 1,
+          response: { status: 503, headers: { 'Retry-After': '1' } },
+        },
+        {
+          method: 'GET',
+          path: '/report',
+          response: { headers: { 'Content-Type': 'application/pdf' }, body: '%PDF-1.7' },
+        },
+        {
+          method: 'POST',
+          path: '/orders',
+          response: (request) =>
+            request.body.quantity > 0
+              ? { status: 201, body: { id: 1 } }
+              : { status: 422, body: { error: 'quantity must be positive' } },
+        },
+      ],
+    },
+  });
+
+  test.beforeEach(async () => {
+    allure.feature('API Load Testing');
+  });
+
+  test('should collect per-endpoint latency, throughput and error rates @api @load', async ({
+    loadRunner,
+    mockServer,
+    logger,
+  }) => {
+    allure.story('Load Statistics');
+    allure.severity('critical');
+
+    logger.step('Running 20 iterations with 4 virtual users');
+
+    const result = await loadRunner.run(
+      async (client, { iteration }) => {
+        await client.get('/items');
+        await client.post('/orders', { quantity: iteration % 4 === 0 ? 0 : 1 });
+      },
+      {
+        vus: 4,
+        iterations: 20,
+        rampUp: 50,
+        thresholds: [
+          { metric: 'p95', max: 2000 },
+          { metric: 'errorRate', endpoint: 'GET /items', max: 0 },
+        ],
+      }
+    );
+
+    expect(result.passed).toBe(true);
+    expect(result.iterations).toBe(20);
+    expect(result.total.requests).toBe(40);
+    expect(mockServer.callCount()).toBe(40);
+
+    const [items, orders] = result.endpoints;
+    expect(items?.endpoint).toBe('GET /items');
+    expect(items?.errorRate).toBe(0);
+    expect(orders?.endpoint).toBe('POST /orders');
+    expect(orders?.errors).toBe(5);
+    expect(orders?.errorRate).toBe(0.25);
+
+    const { latency } = result.total;
+    expect(latency.p50).toBeLessThanOrEqual(latency.p90);
+    expect(latency.p90).toBeLessThanOrEqual(latency.p95);
+    expect(latency.p95).toBeLessThanOrEqual(latency.p99);
+    expect(Object.values(latency.histogram).reduce((sum, count) => sum + count, 0)).toBe(40);
+    expect(result.total.throughput).toBeGreaterThan(0);
+
+    logger.success('✅ Load statistics test passed');
+  });
+
+  test('should sample every exchange per normalized endpoint without backoff @api @load', async ({
+    loadRunner,
+    logger,
+  }) => {
+    allure.story('Load Statistics');
+    allure.severity('normal');
+
+    const result = await loadRunner.run(
+      async (client, { iteration }) => {
+        await client.get(`/items/${iteration + 1}`, { retries: 1 });
+        await client.getBuffer('/report');
+      },
+      { vus: 2, iterations: 4 }
+    );
+
+    expect(result.endpoints.map((stats) => [stats.endpoint, stats.requests, stats.errors])).toEqual(
+      [
+        ['GET /items/{id}', 5, 1],
+        ['GET /report', 4, 0],
+      ]
+    );
+    // The first call waited a second before its retry; that wait is no sample's latency
+    expect(result.total.latency.max).toBeLessThan(1000);
+    expect(result.duration).toBeGreaterThanOrEqual(1000);
+
+    logger.success('✅ Exchange sampling test passed');
+  });
+
+  test('should fail when a threshold is broken @api @load', async ({ loadRunner, logger }) => {
+    allure.story('Load Thresholds');
+    allure.severity('normal');
+
+    const error = await loadRunner
+      .run(
+        async (client) => {
+          await client.post('/orders', { quantity: 0 });
+        },
+        { vus: 2, duration: 200, thresholds: [{ metric: 'errorRate', max: 0.01 }] }
+      )
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(LoadThresholdError);
+    expect(error.message).toContain('all errorRate <= 0.01 (actual: 1)');
+    expect(error.result.iterations).toBeGreaterThan(2);
+
+    logger.success('✅ Load threshold test passed');
+  });
+});
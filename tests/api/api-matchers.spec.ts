@@ -0,0 +1,108 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import { allure } from 'allure-playwright';
+
+test.describe('API Matcher Tests', () => {
+  test.use({
+    apiConfig: { timeout: 30000, retries: 0 },
+    mockApi: {
+      routes: [
+        {
+          method: 'GET',
+          path: '/posts',
+          response: {
+            headers: { 'Cache-Control': 'max-age=60' },
+            body: [
+              { id: 1, title: 'First post', body: 'Hello', userId: 1 },
+              { id: 2, title: 'Second post', body: 'World', userId: 2 },
+            ],
+          },
+        },
+        {
+          method: 'GET',
+          path: '/posts/{id}',
+          response: (request) =>
+            request.params['id'] === '1'
+              ? { body: { id: 1, title: 'First post', body: 'Hello', userId: 1 } }
+              : { status: 404, body: { error: 'Post not found', detail: 'x'.repeat(1000) } },
+        },
+      ],
+    },
+  });
+
+  test.beforeEach(async () => {
+    allure.feature('API Matchers');
+  });
+
+  test('should assert status, timing, headers and body of a response @api @matchers', async ({
+    apiClient,
+    logger,
+  }) => {
+    allure.story('Passing Matchers');
+    allure.severity('critical');
+
+    logger.step('Asserting on a list of posts');
+
+    const response = await apiClient.get('/posts');
+
+    expect(response).toHaveStatus(200);
+    expect(response).toHaveStatus([200, 204]);
+    expect(response).toHaveStatus('2xx');
+    expect(response).toRespondWithin(5000);
+    expect(response).toMatchSchema('post-list.schema.json');
+    expect(response).toHaveHeader('cache-control');
+    expect(response).toHaveHeader('Cache-Control', /max-age=\d+/);
+    expect(response).toHaveJsonPath('$[0].title', 'First post');
+    expect(response).toHaveJsonPath('$[1].userId', expect.any(Number));
+    expect(response).not.toHaveJsonPath('$[0].author');
+    expect(response).toContainItem({ id: 2, title: 'Second post' });
+    expect(response).not.toContainItem({ id: 3 });
+
+    const post = await apiClient.get('/posts/1');
+    expect(post).toMatchSchema({
+      type: 'object',
+      required: ['id', 'title'],
+      properties: { id: { type: 'integer' }, title: { type: 'string' } },
+    });
+
+    logger.success('✅ Passing matchers test passed');
+  });
+
+  test('should describe the call in failure messages @api @matchers', async ({
+    apiClient,
+    logger,
+  }) => {
+    allure.story('Failure Messages');
+    allure.severity('normal');
+
+    logger.step('Asserting on a missing post');
+
+    const response = await apiClient.get('/posts/99', { params: { api_key: 'secret-key' } });
+
+    let message = '';
+    try {
+      expect(response).toHaveStatus(200);
+    } catch (error) {
+      // eslint-disable-next-line no-control-regex
+      message = (error as Error).message.replace(/\u001b\[\d+m/g, '');
+    }
+
+    expect(message).toContain('Received status: 404');
+    expect(message).toMatch(/Request: +GET http:\/\/[^/]+\/posts\/99\?api_key=%5BREDACTED%5D/);
+    expect(message).toContain('Status:   404');
+    expect(message).toContain('{"error":"Post not found"');
+    expect(message).toMatch(/x{100}\.\.\. \(\d+ characters\)/);
+    expect(message).not.toContain('secret-key');
+
+    expect(() => expect(response).toMatchSchema('post.schema.json')).toThrow(
+      /Body does not match post\.schema\.json:[\s\S]*must have required property 'id'/
+    );
+    expect(() => expect(response).toHaveHeader('X-Trace-Id')).toThrow(/no such header/);
+    expect(() => expect(response).toHaveJsonPath('error', 'Gone')).toThrow(
+      /Received: .*"Post not found"/
+    );
+    expect(() => expect(response).toContainItem({ id: 1 })).toThrow(/Expected body to be an array/);
+    expect(() => expect(response).toRespondWithin(-1)).toThrow(/Expected response time: <= -1ms/);
+
+    logger.success('✅ Failure message test passed');
+  });
+});
@@ -0,0 +1,133 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import { ApiClient } from '../../src/utils/api-client';
+import { MockServer } from '../../src/utils/mock-server';
+import { allure } from 'allure-playwright';
+import * as fs from 'fs';
+
+test.describe('API Mock Server Tests', () => {
+  // apiClient targets an in-process server built from the OpenAPI document and inline routes
+  test.use({
+    apiConfig: {
+      timeout: 30000,
+      retries: 2,
+      retryPolicy: { baseDelay: 10 },
+    },
+    mockApi: {
+      openApiSpec: 'src/schemas/httpbin.openapi.yaml',
+      routes: [
+        {
+          method: 'POST',
+          path: '/users',
+          response: (request) => ({ status: 201, body: { id: 1, ...request.body } }),
+        },
+        { method: 'GET', path: '/users/:id', response: { body: { id: 1, name: 'Ada' } } },
+      ],
+    },
+  });
+
+  test.beforeEach(async () => {
+    allure.feature('API Mock Server');
+  });
+
+  test('should record call counts, bodies and ordering @api @mock', async ({
+    apiClient,
+    mockServer,
+    logger,
+  }) => {
+    allure.story('Call Recording');
+    allure.severity('critical');
+
+    logger.step('Sending calls to the mock server');
+
+    const created = await apiClient.post('/users', { name: 'Ada' });
+    const fetched = await apiClient.get('/users/1', { params: { expand: 'profile' } });
+    await apiClient.get('/missing');
+
+    expect(created.status).toBe(201);
+    expect(created.data).toEqual({ id: 1, name: 'Ada' });
+    expect(fetched.data.name).toBe('Ada');
+
+    expect(mockServer.callCount()).toBe(3);
+    expect(mockServer.callCount('GET', '/users/:id')).toBe(1);
+    expect(mockServer.lastCall('POST', '/users')?.body).toEqual({ name: 'Ada' });
+    expect(mockServer.lastCall('GET', '/users/1')?.query).toEqual({ expand: 'profile' });
+    expect(mockServer.calls.map((call) => [call.sequence, call.method, call.route])).toEqual([
+      [1, 'POST', 'POST /users'],
+      [2, 'GET', 'GET /users/:id'],
+      [3, 'GET', null],
+    ]);
+
+    logger.success('✅ Mock server call recording test passed');
+  });
+
+  test('should answer OpenAPI operations with examples and generated bodies @api @mock', async ({
+    apiClient,
+    logger,
+  }) => {
+    allure.story('OpenAPI Mocking');
+    allure.severity('normal');
+
+    const json = await apiClient.get('/json');
+    expect(json.status).toBe(200);
+    expect(json.data.slideshow.title).toBe('Sample Slide Show');
+
+    // No example is declared for /get, so the body is generated from the Echo schema
+    const echo = await apiClient.get('/get');
+    expect(echo.data).toEqual({
+      args: {},
+      headers: {},
+      origin: 'string',
+      url: 'https://example.com',
+    });
+
+    logger.success('✅ OpenAPI mocking test passed');
+  });
+
+  test('should serve one-off overrides before the configured routes @api @mock', async ({
+    apiClient,
+    mockServer,
+    logger,
+  }) => {
+    allure.story('Route Overrides');
+    allure.severity('normal');
+
+    mockServer.route('GET', '/users/{id}', { status: 503 }, { times: 1 });
+
+    const response = await apiClient.get('/users/1');
+
+    expect(response.status).toBe(200);
+    expect(response.attempts?.map((attempt) => attempt.status)).toEqual([503, 200]);
+    expect(mockServer.callCount('GET', '/users/1')).toBe(2);
+
+    logger.success('✅ Route override test passed');
+  });
+
+  test('should load routes from JSON fixture files @api @mock', async ({ logger }, testInfo) => {
+    allure.story('JSON Fixtures');
+    allure.severity('normal');
+
+    const fixturesDir = testInfo.outputPath('mocks');
+    fs.mkdirSync(fixturesDir, { recursive: true });
+    fs.writeFileSync(
+      `${fixturesDir}/orders.json`,
+      JSON.stringify([
+        { method: 'GET', path: '/orders', response: { body: [{ id: 'A-1' }] } },
+        { method: 'DELETE', path: '/orders/{id}', response: { status: 204 } },
+      ])
+    );
+
+    const server = new MockServer({ fixturesDir });
+    const apiClient = new ApiClient(await server.start());
+
+    const orders = await apiClient.get('/orders');
+    const deleted = await apiClient.delete('/orders/A-1');
+    await apiClient.cleanup();
+    await server.stop();
+
+    expect(orders.data).toEqual([{ id: 'A-1' }]);
+    expect(deleted.status).toBe(204);
+    expect(server.getCalls('DELETE', '/orders/{id}')).toHaveLength(1);
+
+    logger.success('✅ JSON fixture routes test passed');
+  });
+});
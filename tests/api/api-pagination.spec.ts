@@ -0,0 +1,159 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import { PaginationError } from '../../src/utils/paginator';
+import { allure } from 'allure-playwright';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+const users: User[] = Array.from({ length: 25 }, (_value, index) => ({
+  id: index + 1,
+  name: `user-${index + 1}`,
+}));
+
+function slice(offset: number, limit: number): User[] {
+  return users.slice(offset, offset + limit);
+}
+
+test.describe('API Pagination Tests', () => {
+  test.use({
+    apiConfig: { timeout: 30000, retries: 0 },
+    mockApi: {
+      routes: [
+        {
+          method: 'GET',
+          path: '/users/by-page',
+          response: (request) => {
+            const page = Number(request.query['page']);
+            const perPage = Number(request.query['per_page']);
+            return { body: slice((page - 1) * perPage, perPage) };
+          },
+        },
+        {
+          method: 'GET',
+          path: '/users/by-offset',
+          response: (request) => ({
+            body: {
+              items: slice(Number(request.query['offset']), Number(request.query['limit'])),
+              meta: { total: users.length },
+            },
+          }),
+        },
+        {
+          method: 'GET',
+          path: '/users/by-cursor',
+          response: (request) => {
+            const start = Number(request.query['after'] || 0);
+            const items = slice(start, 10);
+            const next = start + 10 < users.length ? String(start + 10) : null;
+            return { body: { data: items, paging: { next } } };
+          },
+        },
+        {
+          method: 'GET',
+          path: '/users/by-link',
+          response: (request) => {
+            const page = Number(request.query['page'] || 1);
+            const link = `</users/by-link?page=${page + 1}>; rel="next", </users/by-link?page=3>; rel="last"`;
+            return {
+              headers: page < 3 ? { Link: link } : {},
+              body: slice((page - 1) * 10, 10),
+            };
+          },
+        },
+        {
+          method: 'GET',
+          path: '/users/endless',
+          response: { body: { items: users.slice(0, 5), next: 'again' } },
+        },
+      ],
+    },
+  });
+
+  test.beforeEach(async () => {
+    allure.feature('API Pagination');
+  });
+
+  test('should follow page number and offset pagination @api @pagination', async ({
+    apiClient,
+    mockServer,
+    logger,
+  }) => {
+    allure.story('Page and Offset');
+    allure.severity('critical');
+
+    logger.step('Iterating items page by page');
+
+    const names: string[] = [];
+    for await (const user of apiClient.paginate<User>('/users/by-page', {
+      strategy: { type: 'page', pageSize: 10 },
+    })) {
+      names.push(user.name);
+    }
+    expect(names).toHaveLength(25);
+    expect(names.at(-1)).toBe('user-25');
+    expect(mockServer.getCalls('GET', '/users/by-page').map((call) => call.query)).toEqual([
+      { page: '1', per_page: '10' },
+      { page: '2', per_page: '10' },
+      { page: '3', per_page: '10' },
+    ]);
+
+    const byOffset = apiClient.paginate<User>('/users/by-offset', {
+      strategy: { type: 'offset', limit: 8 },
+      itemsPath: '$.items',
+      totalPath: '$.meta.total',
+    });
+    const all = await byOffset.assertTotal();
+    expect(all.map((user) => user.id)).toEqual(users.map((user) => user.id));
+    await expect(byOffset.assertTotal(30)).rejects.toThrow('Expected 30 item(s)');
+
+    logger.success('✅ Page and offset pagination test passed');
+  });
+
+  test('should follow cursors and Link headers page by page @api @pagination', async ({
+    apiClient,
+    logger,
+  }) => {
+    allure.story('Cursor and Link');
+    allure.severity('critical');
+
+    const pageSizes: number[] = [];
+    for await (const page of apiClient
+      .paginate<User>('/users/by-cursor', {
+        strategy: { type: 'cursor', cursorPath: '$.paging.next', cursorParam: 'after' },
+        itemsPath: '$.data',
+      })
+      .pages()) {
+      pageSizes.push(page.items.length);
+      expect(page.response.status).toBe(200);
+    }
+    expect(pageSizes).toEqual([10, 10, 5]);
+
+    const linked = apiClient.paginate<User>('/users/by-link', { strategy: { type: 'link' } });
+    expect(await linked.count()).toBe(25);
+    expect((await linked.collect())[10]?.name).toBe('user-11');
+
+    logger.success('✅ Cursor and Link pagination test passed');
+  });
+
+  test('should stop runaway pagination at maxPages @api @pagination', async ({
+    apiClient,
+    logger,
+  }) => {
+    allure.story('Max Pages Guard');
+    allure.severity('normal');
+
+    const endless = apiClient.paginate('/users/endless', {
+      strategy: { type: 'cursor', cursorPath: '$.next' },
+      itemsPath: '$.items',
+      maxPages: 3,
+    });
+    const error = await endless.collect().catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(PaginationError);
+    expect(error.message).toContain('exceeded maxPages (3)');
+
+    logger.success('✅ Max pages guard test passed');
+  });
+});
@@ -0,0 +1,171 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import { ProtobufCodec, ProtobufError } from '../../src/utils/protobuf-codec';
+import type { MockRequest, MockResponse } from '../../src/utils/mock-server';
+import { allure } from 'allure-playwright';
+import * as path from 'path';
+
+interface Todo {
+  id: string;
+  title: string;
+  done: boolean;
+  priority: string;
+  tags: string[];
+}
+
+// The mock services encode their answers with the same descriptors as the client
+const codec = new ProtobufCodec(path.join(process.cwd(), 'src', 'schemas'));
+codec.load('todo.proto');
+
+const todo = { id: 1, title: 'Write tests', done: false, priority: 'PRIORITY_HIGH', tags: ['qa'] };
+
+// The handler answers with a message, or with the grpc-message of a not_found error
+function grpcWeb(
+  handler: (request: any) => object | string
+): (request: MockRequest) => MockResponse {
+  return (request) => {
+    const { messages } = ProtobufCodec.parseFrames(request.body as Buffer);
+    const incoming = codec.decode('todo.v1.GetTodoRequest', messages[0] as Buffer);
+    const reply = handler(incoming);
+    const trailers =
+      typeof reply === 'string'
+        ? { 'grpc-status': '5', 'grpc-message': reply }
+        : { 'grpc-status': '0' };
+
+    return {
+      headers: { 'Content-Type': 'application/grpc-web+proto' },
+      body: Buffer.concat([
+        ...(typeof reply === 'string'
+          ? []
+          : [ProtobufCodec.frame(codec.encode('todo.v1.Todo', reply))]),
+        ProtobufCodec.trailerFrame(trailers),
+      ]),
+    };
+  };
+}
+
+test.describe('API Protobuf Tests', () => {
+  test.use({
+    apiConfig: { timeout: 30000, retries: 0, protoFiles: ['todo.proto'] },
+    mockApi: {
+      routes: [
+        {
+          method: 'POST',
+          path: '/todo.v1.TodoService/GetTodo',
+          response: grpcWeb((request) =>
+            request.id === '1'
+              ? todo
+              : request.id === '50'
+                ? '50% quota used'
+                : 'todo%20not%20found'
+          ),
+        },
+        {
+          method: 'POST',
+          path: '/todo.v1.TodoService/CreateTodo',
+          response: (request) => {
+            const incoming = codec.decode('todo.v1.CreateTodoRequest', request.body as Buffer);
+            if (!incoming.title) {
+              return {
+                status: 400,
+                body: { code: 'invalid_argument', message: 'title is required' },
+              };
+            }
+            return {
+              headers: { 'Content-Type': 'application/proto' },
+              body: codec.encode('todo.v1.Todo', { ...incoming, id: 2 }),
+            };
+          },
+        },
+        {
+          method: 'GET',
+          path: '/todos/1',
+          response: {
+            headers: { 'Content-Type': 'application/x-protobuf' },
+            body: codec.encode('todo.v1.Todo', todo),
+          },
+        },
+      ],
+    },
+  });
+
+  test.beforeEach(async () => {
+    allure.feature('API Protobuf');
+  });
+
+  test('should call gRPC-web methods and decode typed messages @api @protobuf', async ({
+    apiClient,
+    mockServer,
+    logger,
+  }) => {
+    allure.story('gRPC-web');
+    allure.severity('critical');
+
+    logger.step('Calling TodoService/GetTodo over gRPC-web');
+
+    const found = await apiClient.rpc<Todo>('todo.v1.TodoService/GetTodo', { id: 1 });
+    expect(found.rpcStatus).toBe('ok');
+    expect(found.data).toEqual({ ...todo, id: '1' });
+    expect(apiClient.extractValue(found, '$.priority')).toBe('PRIORITY_HIGH');
+    expect(mockServer.lastCall()?.headers['content-type']).toBe('application/grpc-web+proto');
+
+    const missing = await apiClient.rpc<Todo>('todo.v1.TodoService/GetTodo', { id: 7 });
+    expect(missing.status).toBe(200);
+    expect(missing.rpcStatus).toBe('not_found');
+    expect(missing.rpcMessage).toBe('todo not found');
+    expect(missing.data).toBeNull();
+
+    // Messages that are not percent-encoded are kept as sent
+    const unencoded = await apiClient.rpc('todo.v1.TodoService/GetTodo', { id: 50 });
+    expect(unencoded.rpcMessage).toBe('50% quota used');
+
+    logger.success('✅ gRPC-web test passed');
+  });
+
+  test('should call Connect methods and report errors @api @protobuf', async ({
+    apiClient,
+    logger,
+  }) => {
+    allure.story('Connect');
+    allure.severity('normal');
+
+    const created = await apiClient.rpc<Todo>(
+      'todo.v1.TodoService/CreateTodo',
+      { title: 'Ship it', priority: 'PRIORITY_LOW', tags: ['release'] },
+      { protocol: 'connect' }
+    );
+    expect(created.rpcStatus).toBe('ok');
+    expect(created.data).toMatchObject({ id: '2', title: 'Ship it', priority: 'PRIORITY_LOW' });
+
+    const invalid = await apiClient.rpc(
+      'todo.v1.TodoService/CreateTodo',
+      { title: '' },
+      { protocol: 'connect' }
+    );
+    expect(invalid.status).toBe(400);
+    expect(invalid.rpcStatus).toBe('invalid_argument');
+    expect(invalid.rpcMessage).toBe('title is required');
+
+    logger.success('✅ Connect test passed');
+  });
+
+  test('should decode plain protobuf responses and reject unknown types @api @protobuf', async ({
+    apiClient,
+    logger,
+  }) => {
+    allure.story('Protobuf Payloads');
+    allure.severity('normal');
+
+    const response = await apiClient.get<Todo>('/todos/1', {
+      protobuf: { response: 'todo.v1.Todo' },
+    });
+    expect(response.data.title).toBe('Write tests');
+    expect(apiClient.extractValue(response, '$.tags[0]')).toBe('qa');
+
+    await expect(apiClient.rpc('todo.v1.TodoService/DeleteTodo', {})).rejects.toThrow(
+      'Unknown method DeleteTodo on todo.v1.TodoService'
+    );
+    expect(() => codec.encode('todo.v1.Todo', { tags: 'qa' })).toThrow(ProtobufError);
+
+    logger.success('✅ Protobuf payload test passed');
+  });
+});
@@ -0,0 +1,164 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import { RealtimeClient, RealtimeWaitError } from '../../src/utils/realtime-client';
+import { allure } from 'allure-playwright';
+import type { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+
+const events = [
+  ': keep-alive',
+  'event: price',
+  'id: 1',
+  'data: {"symbol":"ACME","price":10}',
+  '',
+  'data: first line',
+  'data: second line',
+  '',
+  'event: price',
+  'id: 2',
+  'data: {"symbol":"ACME","price":12}',
+  '',
+  '',
+].join('\n');
+
+let server: WebSocketServer;
+let serverUrl: string;
+const handshakeHeaders: Record<string, string | string[] | undefined>[] = [];
+
+test.beforeAll(async () => {
+  // Echo server that greets each client and answers pings
+  server = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+  server.on('connection', (socket, request) => {
+    handshakeHeaders.push(request.headers);
+    socket.send(JSON.stringify({ type: 'welcome' }));
+    socket.on('message', (data, isBinary) => {
+      const text = data.toString();
+      if (!isBinary && text.startsWith('{')) {
+        const message = JSON.parse(text);
+        socket.send(JSON.stringify({ type: 'pong', id: message.id }));
+      } else {
+        socket.send(data, { binary: isBinary });
+      }
+    });
+  });
+  await new Promise((resolve) => server.once('listening', resolve));
+  serverUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+test.afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+test.describe('API Realtime Tests', () => {
+  test.use({
+    apiConfig: { timeout: 30000, retries: 0 },
+    mockApi: {
+      routes: [
+        {
+          method: 'GET',
+          path: '/prices/stream',
+          response: { headers: { 'Content-Type': 'text/event-stream' }, body: events },
+        },
+        { method: 'GET', path: '/prices', response: { body: [] } },
+      ],
+    },
+  });
+
+  test.beforeEach(async () => {
+    allure.feature('API Realtime');
+  });
+
+  test('should exchange WebSocket frames and wait for matching messages @api @realtime', async ({
+    apiClient,
+    realtimeClient,
+    logger,
+  }) => {
+    allure.story('WebSocket');
+    allure.severity('critical');
+
+    logger.step('Opening a WebSocket with the API client credentials');
+
+    apiClient.setAuthToken('ws-token');
+    const socket = await realtimeClient.websocket(`${serverUrl}/live`, {
+      params: { room: 'lobby' },
+    });
+    expect(handshakeHeaders.at(-1)?.['authorization']).toBe('Bearer ws-token');
+
+    expect(await socket.waitForMessage((message) => message.type === 'welcome')).toEqual({
+      type: 'welcome',
+    });
+
+    const pong = await socket.request({ type: 'ping', id: 2 }, (message) => message.id === 2);
+    expect(pong).toEqual({ type: 'pong', id: 2 });
+
+    await socket.send('plain text');
+    expect(await socket.waitForMessage((message) => message === 'plain text')).toBe('plain text');
+
+    const error = await socket
+      .waitForMessage((message) => message.type === 'never', { timeout: 200 })
+      .catch((caught) => caught);
+    expect(error).toBeInstanceOf(RealtimeWaitError);
+    expect(error.message).toContain('Timed out after 200ms');
+
+    await socket.close();
+    expect(socket.isClosed).toBe(true);
+    await expect(socket.send('too late')).rejects.toThrow();
+    expect(socket.frames.map((frame) => frame.direction)).toEqual([
+      'received',
+      'sent',
+      'received',
+      'sent',
+      'received',
+    ]);
+
+    logger.success('✅ WebSocket test passed');
+  });
+
+  test('should parse Server-Sent Events from a stream @api @realtime', async ({
+    realtimeClient,
+    logger,
+  }) => {
+    allure.story('Server-Sent Events');
+    allure.severity('critical');
+
+    const stream = await realtimeClient.sse('/prices/stream');
+
+    const price = await stream.waitForFrame((_data, frame) => frame.event === 'price');
+    expect(price).toMatchObject({ event: 'price', id: '1', data: { symbol: 'ACME', price: 10 } });
+    expect(await stream.waitForMessage((data) => typeof data === 'string')).toBe(
+      'first line\nsecond line'
+    );
+    expect(await stream.waitForMessage()).toEqual({ symbol: 'ACME', price: 12 });
+
+    // The mock closes the stream after the last event, so further waits fail fast
+    await expect(stream.waitForMessage()).rejects.toThrow('closed before a matching message');
+
+    await expect(realtimeClient.sse('/prices')).rejects.toThrow('SSE connection');
+
+    logger.success('✅ Server-Sent Events test passed');
+  });
+
+  test('should attach the frame logs of every connection to the test @api @realtime', async ({
+    apiClient,
+    logger,
+  }, testInfo) => {
+    allure.story('Frame Log');
+    allure.severity('normal');
+
+    const client = new RealtimeClient(apiClient, testInfo);
+    const socket = await client.websocket(serverUrl);
+    await socket.send(Buffer.from([1, 2, 3]));
+    await socket.waitForFrame((_data, frame) => frame.binary === true);
+    await client.cleanup();
+
+    const attachment = testInfo.attachments.find(
+      (candidate) => candidate.name === RealtimeClient.attachmentName
+    );
+    const logs = JSON.parse((attachment?.body as Buffer).toString('utf-8'));
+    expect(logs).toHaveLength(1);
+    expect(logs[0]).toMatchObject({ transport: 'websocket', sent: 1, received: 2 });
+    expect(logs[0].closedAt).not.toBeNull();
+    expect(logs[0].frames[1]).toMatchObject({ direction: 'sent', binary: true, data: 'AQID' });
+
+    logger.success('✅ Frame log test passed');
+  });
+});
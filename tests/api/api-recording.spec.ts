@@ -0,0 +1,321 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import { ApiClient } from '../../src/utils/api-client';
+import { ApiRecorder, REDACTED } from '../../src/utils/api-recorder';
+import type { RequestInterceptor } from '../../src/utils/interceptors';
+import { SecretStore } from '../../src/utils/secret-store';
+import { allure } from 'allure-playwright';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Start a local echo server that counts the requests it receives. `/logo.png` answers
+ * with binary content and `/oauth/token` with an access token.
+ */
+async function startEchoServer(): Promise<{
+  url: string;
+  hits: () => number;
+  stop: () => Promise<void>;
+}> {
+  let hits = 0;
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      hits++;
+      if (req.url === '/logo.png') {
+        res.writeHead(200, { 'Content-Type': 'image/png' });
+        res.end(PNG_SIGNATURE);
+        return;
+      }
+      if (req.url === '/oauth/token') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ access_token: 'live-access-token', token_type: 'Bearer' }));
+        return;
+      }
+      const json = (req.headers['content-type'] || '').includes('application/json');
+      res.writeHead(200, { 'Content-Type': 'application/json', 'Set-Cookie': 'session=abc' });
+      res.end(
+        JSON.stringify({
+          hit: hits,
+          url: req.url,
+          body: body ? (json ? JSON.parse(body) : body) : null,
+        })
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    hits: () => hits,
+    stop: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+test.describe('API Recording Tests', () => {
+  test.beforeEach(async () => {
+    allure.feature('API Recording');
+  });
+
+  test('should record calls and replay them without network @api @recording', async ({
+    logger,
+  }, testInfo) => {
+    allure.story('Record and Replay');
+    allure.severity('critical');
+
+    const cassette = testInfo.outputPath('cassette.json');
+    const server = await startEchoServer();
+
+    // Record two calls against the live server
+    const recordingClient = new ApiClient(server.url, {
+      recorder: new ApiRecorder(cassette, { mode: 'record' }),
+      headers: { Authorization: 'Bearer secret-token' },
+    });
+    const recordedGet = await recordingClient.get('/items', { params: { page: '1' } });
+    await recordingClient.post('/items', { name: 'widget', price: 10 });
+    await recordingClient.cleanup();
+    await server.stop();
+
+    const saved = JSON.parse(fs.readFileSync(cassette, 'utf-8'));
+    expect(saved.interactions).toHaveLength(2);
+    expect(saved.interactions[0].request.headers['Authorization']).toBe('[REDACTED]');
+    expect(saved.interactions[0].response.headers['set-cookie']).toBe('[REDACTED]');
+
+    // Replay with the server stopped; body matching ignores key order
+    const replayClient = new ApiClient(server.url, {
+      recorder: new ApiRecorder(cassette, { mode: 'strict' }),
+    });
+    const replayedGet = await replayClient.get('/items', { params: { page: '1' } });
+    const replayedPost = await replayClient.post('/items', { price: 10, name: 'widget' });
+
+    expect(replayedGet.data).toEqual(recordedGet.data);
+    expect(replayedPost.data.body).toEqual({ name: 'widget', price: 10 });
+    expect(server.hits()).toBe(2);
+
+    // Replayed calls are exported like sent ones
+    const harPath = testInfo.outputPath('replayed.har');
+    replayClient.getCallLog().saveHar(harPath);
+    const har = JSON.parse(fs.readFileSync(harPath, 'utf-8'));
+    expect(har.log.entries).toHaveLength(2);
+    expect(har.log.entries[1]).toMatchObject({
+      _source: 'replay',
+      request: { method: 'POST', url: `${server.url}/items` },
+      response: { status: 200 },
+    });
+    expect(replayClient.getCallLog().toCurlScript()).toContain(
+      `# GET ${server.url}/items -> 200 OK in`
+    );
+
+    logger.success('✅ Record and replay test passed');
+  });
+
+  test('should redact tokens and resolved secrets in recorded bodies @api @recording', async ({
+    logger,
+  }, testInfo) => {
+    allure.story('Redaction');
+    allure.severity('critical');
+
+    const cassette = testInfo.outputPath('cassette.json');
+    const server = await startEchoServer();
+    const tenantKey = new SecretStore({ env: { TENANT_KEY: 'live-tenant-key' } }).get('TENANT_KEY');
+
+    logger.step('Recording a token request and a body carrying a resolved secret');
+    const recordingClient = new ApiClient(server.url, {
+      recorder: new ApiRecorder(cassette, { mode: 'record' }),
+    });
+    const token = await recordingClient.post('/oauth/token', undefined, {
+      form: { grant_type: 'client_credentials', client_secret: 'live-client-secret' },
+    });
+    expect(token.data.access_token).toBe('live-access-token');
+    await recordingClient.post('/items', { note: `tenant ${tenantKey}` });
+    await recordingClient.cleanup();
+    await server.stop();
+
+    const saved = fs.readFileSync(cassette, 'utf-8');
+    expect(saved).not.toContain('live-access-token');
+    expect(saved).not.toContain('live-client-secret');
+    expect(saved).not.toContain('live-tenant-key');
+    const { interactions } = JSON.parse(saved);
+    expect(interactions[0].request.form.client_secret).toBe(REDACTED);
+    expect(interactions[0].response.body).toEqual({ access_token: REDACTED, token_type: 'Bearer' });
+    expect(interactions[1].response.body.body).toEqual({ note: `tenant ${REDACTED}` });
+
+    logger.step('Replaying the redacted recordings for the same requests');
+    const replayClient = new ApiClient(server.url, {
+      recorder: new ApiRecorder(cassette, { mode: 'strict' }),
+    });
+    const replayedToken = await replayClient.post('/oauth/token', undefined, {
+      form: { grant_type: 'client_credentials', client_secret: 'live-client-secret' },
+    });
+    expect(replayedToken.data).toEqual({ access_token: REDACTED, token_type: 'Bearer' });
+    expect((await replayClient.post('/items', { note: `tenant ${tenantKey}` })).status).toBe(200);
+    expect(server.hits()).toBe(2);
+
+    logger.success('✅ Cassette redaction test passed');
+  });
+
+  test('should record binary responses and form and multipart bodies @api @recording', async ({
+    logger,
+  }, testInfo) => {
+    allure.story('Record and Replay');
+    allure.severity('normal');
+
+    const cassette = testInfo.outputPath('cassette.json');
+    const server = await startEchoServer();
+    const file = (content: string) => ({
+      file: { buffer: Buffer.from(content), name: 'notes.txt', mimeType: 'text/plain' },
+    });
+
+    const recordingClient = new ApiClient(server.url, {
+      recorder: new ApiRecorder(cassette, { mode: 'record' }),
+    });
+    await recordingClient.getBuffer('/logo.png');
+    await recordingClient.post('/login', undefined, { form: { a: 1 } });
+    await recordingClient.post('/upload', undefined, { multipart: file('first draft') });
+    await recordingClient.cleanup();
+    await server.stop();
+
+    const saved = JSON.parse(fs.readFileSync(cassette, 'utf-8'));
+    expect(saved.interactions[0].response).toMatchObject({
+      body: PNG_SIGNATURE.toString('base64'),
+      bodyEncoding: 'base64',
+    });
+    expect(saved.interactions[1].request.form).toEqual({ a: 1 });
+    expect(saved.interactions[2].request.multipart.file).toEqual({
+      name: 'notes.txt',
+      mimeType: 'text/plain',
+      sha256: expect.stringMatching(/^[0-9a-f]{64}$/),
+    });
+
+    const replayClient = new ApiClient(server.url, {
+      recorder: new ApiRecorder(cassette, { mode: 'strict' }),
+    });
+    const logo = await replayClient.getBuffer('/logo.png');
+    expect(Buffer.isBuffer(logo.data)).toBe(true);
+    expect(logo.data.equals(PNG_SIGNATURE)).toBe(true);
+
+    await expect(replayClient.post('/login', undefined, { form: { a: 2 } })).rejects.toThrow(
+      /No recording matches POST/
+    );
+    const login = await replayClient.post('/login', undefined, { form: { a: 1 } });
+    expect(login.data.body).toBe('a=1');
+
+    await expect(
+      replayClient.post('/upload', undefined, { multipart: file('second draft') })
+    ).rejects.toThrow(/No recording matches POST/);
+    const upload = await replayClient.post('/upload', undefined, {
+      multipart: file('first draft'),
+    });
+    expect(upload.data.body).toContain('first draft');
+    await replayClient.cleanup();
+
+    expect(server.hits()).toBe(3);
+
+    logger.success('✅ Binary and form recording test passed');
+  });
+
+  test('should replay calls whose requests are changed by interceptors @api @recording', async ({
+    logger,
+  }, testInfo) => {
+    allure.story('Strict Replay');
+    allure.severity('normal');
+
+    const cassette = testInfo.outputPath('cassette.json');
+    const server = await startEchoServer();
+
+    // Adds a query parameter and a body field that differs on every call
+    const addTenant: RequestInterceptor = (request) => {
+      request.params['tenant'] = 'acme';
+      if (request.data !== undefined) {
+        request.data = { ...request.data, nonce: crypto.randomUUID() };
+      }
+    };
+
+    const recordingClient = new ApiClient(server.url, {
+      recorder: new ApiRecorder(cassette, { mode: 'record' }),
+      interceptors: { request: [addTenant] },
+    });
+    const recordedGet = await recordingClient.get('/items');
+    const recordedPost = await recordingClient.post('/items', { name: 'widget' });
+    await recordingClient.cleanup();
+    await server.stop();
+
+    expect(recordedGet.data.url).toBe('/items?tenant=acme');
+    expect(recordedPost.data.body.nonce).toBeDefined();
+
+    const replayClient = new ApiClient(server.url, {
+      recorder: new ApiRecorder(cassette, { mode: 'strict' }),
+      interceptors: { request: [addTenant] },
+    });
+    const replayedGet = await replayClient.get('/items');
+    const replayedPost = await replayClient.post('/items', { name: 'widget' });
+    await replayClient.cleanup();
+
+    expect(replayedGet.data).toEqual(recordedGet.data);
+    expect(replayedPost.data).toEqual(recordedPost.data);
+    expect(server.hits()).toBe(2);
+
+    logger.success('✅ Interceptor replay test passed');
+  });
+
+  test('should replay calls recorded with query credentials @api @recording', async ({
+    logger,
+  }, testInfo) => {
+    allure.story('Strict Replay');
+    allure.severity('normal');
+
+    const cassette = testInfo.outputPath('cassette.json');
+    const server = await startEchoServer();
+    const auth = { type: 'apiKey', name: 'api_key', value: 'key-123', in: 'query' } as const;
+
+    const recordingClient = new ApiClient(server.url, {
+      recorder: new ApiRecorder(cassette, { mode: 'record' }),
+      auth,
+    });
+    const recorded = await recordingClient.get('/items', { params: { page: '1' } });
+    await recordingClient.cleanup();
+    await server.stop();
+
+    const saved = JSON.parse(fs.readFileSync(cassette, 'utf-8'));
+    // Credentials are added after the request is recorded
+    expect(saved.interactions[0].request.query).toEqual({ page: '1' });
+
+    const replayClient = new ApiClient(server.url, {
+      recorder: new ApiRecorder(cassette, { mode: 'strict' }),
+      auth,
+    });
+    const replayed = await replayClient.get('/items', { params: { page: '1' } });
+    await expect(replayClient.get('/items', { params: { page: '2' } })).rejects.toThrow(
+      /No recording matches GET/
+    );
+    await replayClient.cleanup();
+
+    expect(replayed.data).toEqual(recorded.data);
+    expect(server.hits()).toBe(1);
+
+    logger.success('✅ Query credentials replay test passed');
+  });
+
+  test('should fail unrecorded requests in strict mode @api @recording', async ({
+    logger,
+  }, testInfo) => {
+    allure.story('Strict Replay');
+    allure.severity('normal');
+
+    const cassette = testInfo.outputPath('cassette.json');
+    fs.writeFileSync(cassette, JSON.stringify({ version: 1, interactions: [] }));
+
+    const apiClient = new ApiClient('http://127.0.0.1:9', {
+      recorder: new ApiRecorder(cassette, { mode: 'strict' }),
+    });
+
+    await expect(apiClient.get('/unknown')).rejects.toThrow(/No recording matches GET/);
+    await apiClient.cleanup();
+
+    logger.success('✅ Strict replay test passed');
+  });
+});
@@ -0,0 +1,177 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import { ApiClient, ApiRequestError } from '../../src/utils/api-client';
+import { RetryPolicy } from '../../src/utils/retry-policy';
+import { allure } from 'allure-playwright';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * Start a local server answering with the handler and counting the requests per
+ * method and path
+ */
+async function startServer(
+  handler: (req: http.IncomingMessage, res: http.ServerResponse, hit: number) => void
+): Promise<{ url: string; hits: (key: string) => number; stop: () => Promise<void> }> {
+  const hits = new Map<string, number>();
+  const server = http.createServer((req, res) => {
+    const key = `${req.method} ${req.url}`;
+    hits.set(key, (hits.get(key) || 0) + 1);
+    handler(req, res, hits.get(key)!);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    hits: (key) => hits.get(key) || 0,
+    stop: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+test.describe('API Retry Policy Tests', () => {
+  test.beforeEach(async () => {
+    allure.feature('API Retries');
+  });
+
+  test('should honor Retry-After in seconds and as an HTTP date @api @retry', async ({
+    logger,
+  }) => {
+    allure.story('Retry-After');
+    allure.severity('critical');
+
+    const policy = new RetryPolicy({ baseDelay: 100, maxDelay: 60000 });
+    expect(policy.getDelay(1, '3')).toBe(3000);
+    expect(policy.getDelay(5, '0')).toBe(0);
+
+    const inTenSeconds = new Date(Date.now() + 10000).toUTCString();
+    const dateDelay = policy.getDelay(1, inTenSeconds);
+    // HTTP dates have a resolution of one second
+    expect(dateDelay).toBeGreaterThan(8000);
+    expect(dateDelay).toBeLessThanOrEqual(10000);
+    expect(policy.getDelay(1, new Date(Date.now() - 10000).toUTCString())).toBe(0);
+
+    logger.step('Retrying a 503 after the delay it announces');
+    const server = await startServer((_req, res, hit) => {
+      if (hit === 1) {
+        res.writeHead(503, { 'Retry-After': '0' });
+        res.end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: true }));
+    });
+    const apiClient = new ApiClient(server.url, { retries: 2, retryPolicy: { baseDelay: 10 } });
+    try {
+      const response = await apiClient.get('/flaky');
+
+      expect(response.status).toBe(200);
+      expect(response.attempts).toEqual([
+        expect.objectContaining({ attempt: 1, status: 503, delay: 0 }),
+        expect.objectContaining({ attempt: 2, status: 200 }),
+      ]);
+    } finally {
+      await apiClient.cleanup();
+      await server.stop();
+    }
+
+    logger.success('✅ Retry-After test passed');
+  });
+
+  test('should not retry POST and PATCH by default @api @retry', async ({ logger }) => {
+    allure.story('Idempotency');
+    allure.severity('critical');
+
+    expect(new RetryPolicy().canRetryMethod('post')).toBe(false);
+    expect(new RetryPolicy().canRetryMethod('PATCH')).toBe(false);
+    expect(new RetryPolicy().canRetryMethod('PUT')).toBe(true);
+    expect(new RetryPolicy({ retryNonIdempotent: true }).canRetryMethod('POST')).toBe(true);
+
+    const server = await startServer((_req, res) => {
+      res.writeHead(503);
+      res.end();
+    });
+    const apiClient = new ApiClient(server.url, { retries: 2, retryPolicy: { baseDelay: 10 } });
+    try {
+      const created = await apiClient.post('/orders', { item: 'widget' });
+      const updated = await apiClient.patch('/orders/1', { item: 'gadget' });
+
+      expect(created.status).toBe(503);
+      expect(updated.status).toBe(503);
+      expect(server.hits('POST /orders')).toBe(1);
+      expect(server.hits('PATCH /orders/1')).toBe(1);
+    } finally {
+      await apiClient.cleanup();
+      await server.stop();
+    }
+
+    logger.success('✅ Non-idempotent methods test passed');
+  });
+
+  test('should retry network errors @api @retry', async ({ logger }) => {
+    allure.story('Network Errors');
+    allure.severity('normal');
+
+    // Drop the first connection without a response, answer the next one; /down never answers
+    const server = await startServer((req, res, hit) => {
+      if (hit === 1 || req.url === '/down') {
+        req.socket.destroy();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ connections: hit }));
+    });
+    const apiClient = new ApiClient(server.url, { retries: 1, retryPolicy: { baseDelay: 10 } });
+    try {
+      const response = await apiClient.get('/items');
+
+      expect(response.status).toBe(200);
+      expect(response.data).toEqual({ connections: 2 });
+      expect(response.attempts?.[0]).toEqual(
+        expect.objectContaining({ attempt: 1, error: expect.any(String) })
+      );
+
+      logger.step('Reporting every attempt when the last one fails too');
+      const error = await apiClient.get('/down').catch((caught) => caught);
+      expect(error).toBeInstanceOf(ApiRequestError);
+      expect(error.message).toMatch(/^GET \/down failed after 2 attempt\(s\): /);
+      expect(error.attempts).toEqual([
+        expect.objectContaining({
+          attempt: 1,
+          error: expect.any(String),
+          delay: expect.any(Number),
+        }),
+        expect.objectContaining({ attempt: 2, error: expect.any(String) }),
+      ]);
+    } finally {
+      await apiClient.cleanup();
+      await server.stop();
+    }
+
+    logger.success('✅ Network error retry test passed');
+  });
+
+  test('should cap the backoff at maxDelay and keep jitter within bounds @api @retry', async ({
+    logger,
+  }) => {
+    allure.story('Backoff');
+    allure.severity('normal');
+
+    const policy = new RetryPolicy({ baseDelay: 100, maxDelay: 1000 });
+    for (let i = 0; i < 50; i++) {
+      // Equal jitter: between half and all of the exponential delay
+      const first = policy.getDelay(1);
+      expect(first).toBeGreaterThanOrEqual(50);
+      expect(first).toBeLessThanOrEqual(100);
+
+      const third = policy.getDelay(3);
+      expect(third).toBeGreaterThanOrEqual(200);
+      expect(third).toBeLessThanOrEqual(400);
+
+      const capped = policy.getDelay(10);
+      expect(capped).toBeGreaterThanOrEqual(500);
+      expect(capped).toBeLessThanOrEqual(1000);
+    }
+    expect(policy.getDelay(1, '3600')).toBe(1000);
+
+    logger.success('✅ Backoff bounds test passed');
+  });
+});
@@ -0,0 +1,170 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import { ApiCallLog } from '../../src/utils/api-call-log';
+import { Logger } from '../../src/utils/logger';
+import { REDACTED, SecretStore } from '../../src/utils/secret-store';
+import { TestDataManager } from '../../src/utils/test-data-manager';
+import { allure } from 'allure-playwright';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const validData = JSON.parse(fs.readFileSync('src/data/default.json', 'utf-8'));
+
+test.describe('Test Data Secrets Tests', () => {
+  test.beforeEach(async () => {
+    allure.feature('Test Data');
+  });
+
+  test('should resolve secret references from variables, .env and the vault @api @test-data', async ({
+    logger,
+  }, testInfo) => {
+    allure.story('Secret Resolution');
+    allure.severity('critical');
+
+    const dataDir = testInfo.outputPath('data');
+    const envFile = testInfo.outputPath('.env');
+    const vaultFile = testInfo.outputPath('secrets.vault.json');
+    fs.mkdirSync(dataDir, { recursive: true });
+    fs.writeFileSync(path.join(dataDir, 'default.json'), JSON.stringify(validData));
+    fs.writeFileSync(envFile, '# local secrets\nexport ADMIN_PASSWORD="from-dotenv-admin"\n');
+    SecretStore.writeVault(
+      vaultFile,
+      { ADMIN_PASSWORD: 'from-vault-admin', STAGING_PASSWORD: 'from-vault-staging' },
+      'vault passphrase'
+    );
+
+    logger.step('Loading data whose secrets come from three sources');
+    const manager = new TestDataManager('qa', {
+      dataDir,
+      env: { TEST_USER_PASSWORD: 'from-env-user', TEST_DATA_VAULT_KEY: 'vault passphrase' },
+      secrets: { envFile, vaultFile },
+    });
+    await manager.initialize();
+
+    expect(manager.getUserById('user1')?.password).toBe('from-env-user');
+    expect(manager.getUserById('admin1')?.password).toBe('from-dotenv-admin');
+    expect(manager.getEnvironment('staging')?.credentials.password).toBe('from-vault-staging');
+    expect(manager.getUnresolvedSecrets()).toEqual([
+      {
+        source: path.relative(process.cwd(), path.join(dataDir, 'default.json')),
+        path: '/environments/1/credentials/password',
+        message: "secret 'PROD_PASSWORD' is not set in the environment, .env or the vault",
+      },
+      {
+        source: path.relative(process.cwd(), path.join(dataDir, 'default.json')),
+        path: '/environments/2/credentials/password',
+        message: "secret 'DEV_PASSWORD' is not set in the environment, .env or the vault",
+      },
+    ]);
+    expect(manager.getEnvironment('prod')?.credentials.password).toBe('${secret:PROD_PASSWORD}');
+
+    logger.step('Treating empty values as unset');
+    const emptyEnvFile = testInfo.outputPath('empty.env');
+    fs.writeFileSync(emptyEnvFile, 'ADMIN_PASSWORD=\nSTAGING_PASSWORD=""\n');
+    const fallback = new SecretStore({
+      env: { TEST_USER_PASSWORD: '', TEST_DATA_VAULT_KEY: 'vault passphrase' },
+      envFile: emptyEnvFile,
+      vaultFile,
+    });
+    expect(fallback.get('ADMIN_PASSWORD')).toBe('from-vault-admin');
+    expect(fallback.get('STAGING_PASSWORD')).toBe('from-vault-staging');
+    expect(fallback.get('TEST_USER_PASSWORD')).toBeUndefined();
+
+    logger.step('Refusing a vault opened with the wrong passphrase');
+    const locked = new SecretStore({ env: {}, vaultFile, vaultKey: 'wrong passphrase' });
+    expect(() => locked.get('STAGING_PASSWORD')).toThrow(
+      `Cannot open ${vaultFile}: wrong TEST_DATA_VAULT_KEY or corrupt file`
+    );
+
+    logger.success('✅ Secret resolution test passed');
+  });
+
+  test('should redact resolved secrets in logs, reports and saved data @api @test-data', async ({
+    logger,
+  }, testInfo) => {
+    allure.story('Secret Redaction');
+    allure.severity('critical');
+
+    const manager = new TestDataManager('staging', {
+      env: { ADMIN_PASSWORD: 'redact-me-admin-secret', STAGING_PASSWORD: 'redact-me-staging' },
+    });
+    await manager.initialize();
+    const admin = manager.getUserById('admin1');
+    expect(admin?.password).toBe('redact-me-admin-secret');
+
+    logger.step('Logging a message and data containing secrets');
+    const printed: unknown[][] = [];
+    const log = console.log;
+    console.log = (...args: unknown[]) => printed.push(args);
+    try {
+      new Logger('Secrets').info(`Logging in with ${admin?.password}`, { user: admin });
+    } finally {
+      console.log = log;
+    }
+    const output = JSON.stringify(printed);
+    expect(output).not.toContain('redact-me-admin-secret');
+    expect(output).toContain(`Logging in with ${REDACTED}`);
+    expect(SecretStore.redact('staging: redact-me-staging')).toBe(`staging: ${REDACTED}`);
+
+    logger.step('Saving the data with the secret references restored');
+    const savedFile = testInfo.outputPath('saved.json');
+    await manager.saveTestData(savedFile);
+    const saved = fs.readFileSync(savedFile, 'utf-8');
+    expect(saved).not.toContain('redact-me');
+    expect(JSON.parse(saved).users[1].password).toBe('${secret:ADMIN_PASSWORD}');
+    expect(JSON.parse(saved).environments[0].credentials.password).toBe(
+      '${secret:STAGING_PASSWORD}'
+    );
+
+    logger.success('✅ Secret redaction test passed');
+  });
+
+  test.describe('in API call exports', () => {
+    test.use({
+      apiConfig: { timeout: 30000, retries: 0 },
+      mockApi: { routes: [{ method: 'POST', path: '/orders', response: { status: 201 } }] },
+    });
+
+    test('should redact resolved secrets in the HAR and cURL exports @api @test-data', async ({
+      apiClient,
+      logger,
+    }, testInfo) => {
+      allure.story('Secret Redaction');
+      allure.severity('critical');
+
+      const tenantKey = new SecretStore({ env: { TENANT_KEY: 'redact-me-tenant-key' } }).get(
+        'TENANT_KEY'
+      );
+
+      logger.step('Sending a secret in a custom header and an unlisted body field');
+      await apiClient.post(
+        '/orders',
+        { tenant: tenantKey, item: 'book' },
+        { headers: { 'X-Tenant-Key': tenantKey as string } }
+      );
+
+      const curl = apiClient.toCurl();
+      expect(curl).not.toContain('redact-me-tenant-key');
+      expect(curl).toContain(`-H 'X-Tenant-Key: ${REDACTED}'`);
+
+      const harPath = testInfo.outputPath('calls.har');
+      apiClient.getCallLog().saveHar(harPath);
+      const har = fs.readFileSync(harPath, 'utf-8');
+      expect(har).not.toContain('redact-me-tenant-key');
+      expect(JSON.parse(har).log.entries[0].request.headers).toContainEqual({
+        name: 'X-Tenant-Key',
+        value: REDACTED,
+      });
+
+      await apiClient.getCallLog().attachTo(testInfo);
+      const attached = testInfo.attachments
+        .filter((attachment) =>
+          [ApiCallLog.harAttachmentName, ApiCallLog.curlAttachmentName].includes(attachment.name)
+        )
+        .map((attachment) => attachment.body?.toString('utf-8'));
+      expect(attached).toHaveLength(2);
+      expect(attached.join()).not.toContain('redact-me-tenant-key');
+
+      logger.success('✅ Export redaction test passed');
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import { ApiClient } from '../../src/utils/api-client';
+import { allure } from 'allure-playwright';
+
+test.describe('API Session Tests', () => {
+  test.use({
+    apiConfig: { timeout: 30000, retries: 0 },
+    mockApi: {
+      routes: [
+        {
+          method: 'POST',
+          path: '/login',
+          response: {
+            headers: { 'Set-Cookie': 'session=abc123; Path=/; HttpOnly' },
+            body: { token: 'jwt-token' },
+          },
+        },
+        {
+          method: 'GET',
+          path: '/me',
+          response: (request) =>
+            /session=abc123/.test(request.headers['cookie'] || '')
+              ? { body: { user: 'testuser' } }
+              : { status: 401, body: { error: 'not logged in' } },
+        },
+      ],
+    },
+  });
+
+  test.beforeEach(async () => {
+    allure.feature('API Sessions');
+  });
+
+  test('should keep, inspect and modify cookies in the jar @api @session', async ({
+    apiClient,
+    mockServer,
+    logger,
+  }) => {
+    allure.story('Cookie Jar');
+    allure.severity('critical');
+
+    logger.step('Logging in and inspecting the cookie jar');
+
+    await apiClient.post('/login', { username: 'testuser', password: 'secret' });
+    expect((await apiClient.get('/me')).status).toBe(200);
+
+    const session = await apiClient.getCookie('session', `${mockServer.url}/me`);
+    expect(session).toMatchObject({ value: 'abc123', path: '/', httpOnly: true });
+    expect(await apiClient.getCookies('https://other.example.com/')).toEqual([]);
+
+    await apiClient.addCookies([{ name: 'theme', value: 'dark', url: mockServer.url }]);
+    await apiClient.get('/me');
+    expect(mockServer.lastCall('GET', '/me')?.headers['cookie']).toContain('theme=dark');
+
+    await apiClient.clearCookies({ name: 'session' });
+    expect((await apiClient.getCookies()).map((cookie) => cookie.name)).toEqual(['theme']);
+    expect((await apiClient.get('/me')).status).toBe(401);
+
+    logger.success('✅ Cookie jar test passed');
+  });
+
+  test('should restore a saved storage state in a new client @api @session', async ({
+    apiClient,
+    mockServer,
+    logger,
+  }, testInfo) => {
+    allure.story('Storage State');
+    allure.severity('normal');
+
+    await apiClient.post('/login', { username: 'testuser', password: 'secret' });
+    const statePath = testInfo.outputPath('state.json');
+    await apiClient.storageState(statePath);
+
+    const restored = new ApiClient(mockServer.url, { storageState: statePath });
+    const me = await restored.get('/me');
+    await restored.cleanup();
+
+    expect(me.status).toBe(200);
+    expect(me.data.user).toBe('testuser');
+
+    logger.success('✅ Storage state test passed');
+  });
+});
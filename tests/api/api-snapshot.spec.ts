@@ -0,0 +1,107 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import { ApiSnapshot, SNAPSHOT_MASKS } from '../../src/utils/api-snapshot';
+import { allure } from 'allure-playwright';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+test.describe('API Snapshot Tests', () => {
+  test.use({
+    apiConfig: { timeout: 30000, retries: 0 },
+    mockApi: {
+      routes: [
+        {
+          method: 'GET',
+          path: '/orders/{id}',
+          response: (request) => ({
+            headers: { 'X-Api-Version': '2', 'X-Request-Id': crypto.randomUUID() },
+            body: {
+              id: Number(request.params['id']),
+              requestId: crypto.randomUUID(),
+              createdAt: new Date().toISOString(),
+              origin: '203.0.113.7, 10.0.0.1',
+              pickupTime: '12:30:45',
+              status: request.params['id'] === '2' ? 'shipped' : 'pending',
+              items: [
+                { sku: 'A-1', quantity: 2, trace: `${Math.random()}` },
+                { sku: 'B-7', quantity: 1, trace: `${Math.random()}` },
+              ],
+            },
+          }),
+        },
+      ],
+    },
+  });
+
+  test.beforeEach(async () => {
+    allure.feature('API Snapshots');
+  });
+
+  test('should match a response snapshot with volatile fields masked @api @snapshot', async ({
+    apiClient,
+    logger,
+  }) => {
+    allure.story('Snapshot Matching');
+    allure.severity('critical');
+
+    logger.step('Comparing an order with its stored snapshot');
+
+    const response = await apiClient.get('/orders/1');
+
+    expect(response).toMatchApiSnapshot({
+      mask: [
+        '$.items[*].trace',
+        SNAPSHOT_MASKS.uuid,
+        SNAPSHOT_MASKS.isoDate,
+        SNAPSHOT_MASKS.ipAddress,
+      ],
+      headers: ['x-api-version'],
+    });
+
+    // Times and other colon-separated values are not taken for IPv6 addresses
+    expect(SNAPSHOT_MASKS.ipAddress.test('2001:db8::1')).toBe(true);
+    for (const value of ['12:30:45', 'cafe:babe:', '::', 'a::b::c']) {
+      expect(SNAPSHOT_MASKS.ipAddress.test(value), value).toBe(false);
+    }
+
+    logger.success('✅ Snapshot matching test passed');
+  });
+
+  test('should report a readable diff when the response changes @api @snapshot', async ({
+    apiClient,
+    logger,
+  }, testInfo) => {
+    allure.story('Snapshot Diff');
+    allure.severity('normal');
+
+    const options = {
+      mask: [
+        (_value: unknown, pointer: string) => /^\/(requestId|createdAt|origin)$/.test(pointer),
+        '$..trace',
+      ],
+      snapshotDir: testInfo.outputPath('snapshots'),
+    };
+
+    // The stored snapshot is order 1, still pending; order 2 is shipped
+    const stored = new ApiSnapshot(testInfo).serialize(await apiClient.get('/orders/1'), options);
+    const storedPath = path.join(options.snapshotDir, 'order.json');
+    fs.mkdirSync(options.snapshotDir, { recursive: true });
+    fs.writeFileSync(storedPath, JSON.stringify(stored));
+    const response = await apiClient.get('/orders/2');
+
+    // Negated assertions never write, even with --update-snapshots
+    expect(response).not.toMatchApiSnapshot('order', options);
+    expect(() => expect(response).not.toMatchApiSnapshot('missing', options)).toThrow(/is missing/);
+    expect(fs.readdirSync(options.snapshotDir)).toEqual(['order.json']);
+    expect(JSON.parse(fs.readFileSync(storedPath, 'utf-8'))).toEqual(stored);
+
+    const updateMode = testInfo.config.updateSnapshots;
+    test.skip(updateMode === 'all' || updateMode === 'changed', 'Snapshot updates accept changes');
+
+    expect(() => expect(response).toMatchApiSnapshot('order', options)).toThrow(
+      /does not match snapshot[\s\S]*-\s+"id": 1,[\s\S]*\+\s+"id": 2,[\s\S]*-\s+"status": "pending"/
+    );
+
+    logger.success('✅ Snapshot diff test passed');
+  });
+});
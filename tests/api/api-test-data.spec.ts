@@ -0,0 +1,226 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import { TestDataManager, TestDataValidationError } from '../../src/utils/test-data-manager';
+import { allure } from 'allure-playwright';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+
+const validData = JSON.parse(fs.readFileSync('src/data/default.json', 'utf-8'));
+
+test.describe('Test Data Validation Tests', () => {
+  test.use({
+    mockApi: {
+      routes: [
+        { method: 'GET', path: '/test-data/valid', response: { body: validData } },
+        {
+          method: 'GET',
+          path: '/test-data/invalid',
+          response: {
+            body: {
+              ...validData,
+              urls: [{ ...validData.urls[0], url: 'not a url', expectedStatus: 999 }],
+            },
+          },
+        },
+        {
+          method: 'GET',
+          path: '/test-data/malformed',
+          response: { headers: { 'Content-Type': 'application/json' }, body: '{"users": [' },
+        },
+      ],
+    },
+  });
+
+  test.beforeEach(async () => {
+    allure.feature('Test Data');
+  });
+
+  test('should validate the shipped test data files @api @test-data', async ({
+    testDataManager,
+    logger,
+  }) => {
+    allure.story('Data Files');
+    allure.severity('critical');
+
+    expect(testDataManager.validateTestData()).toBe(true);
+    expect(testDataManager.getUsers().length).toBeGreaterThan(0);
+
+    for (const environment of ['default', 'staging']) {
+      const manager = new TestDataManager(environment);
+      await manager.initialize();
+      expect(manager.validateTestData()).toBe(true);
+    }
+
+    logger.success('✅ Data file validation test passed');
+  });
+
+  test('should report every invalid field of a YAML file @api @test-data', async ({
+    testDataManager,
+    logger,
+  }, testInfo) => {
+    allure.story('YAML Validation');
+    allure.severity('critical');
+
+    const filePath = testInfo.outputPath('invalid-data.yaml');
+    const { urls: _urls, ...withoutUrls } = validData;
+    fs.writeFileSync(
+      filePath,
+      yaml.stringify({
+        ...withoutUrls,
+        users: [{ ...validData.users[0], email: 'not-an-email', role: 'owner', nickname: 'x' }],
+      })
+    );
+    const usersBefore = testDataManager.getUsers();
+
+    const error = await testDataManager.loadFromYaml(filePath).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(TestDataValidationError);
+    const issues = (error as TestDataValidationError).issues;
+    expect(issues.map((issue) => issue.path).sort()).toEqual([
+      '/urls',
+      '/users/0/email',
+      '/users/0/nickname',
+      '/users/0/role',
+    ]);
+    expect(issues.every((issue) => issue.source === filePath)).toBe(true);
+    expect((error as Error).message).toContain(`${filePath}: /users/0/email must match format`);
+    expect(testDataManager.getUsers()).toBe(usersBefore);
+
+    logger.success('✅ YAML validation test passed');
+  });
+
+  test('should validate test data loaded from an API @api @test-data', async ({
+    testDataManager,
+    mockServer,
+    logger,
+  }) => {
+    allure.story('API Validation');
+    allure.severity('normal');
+
+    await testDataManager.loadFromApi(`${mockServer.url}/test-data/valid`);
+    expect(testDataManager.getUrls()).toEqual(validData.urls);
+
+    const invalidUrl = `${mockServer.url}/test-data/invalid`;
+    const invalid = await testDataManager.loadFromApi(invalidUrl).catch((caught) => caught);
+    expect((invalid as TestDataValidationError).issues).toEqual([
+      { source: invalidUrl, path: '/urls/0/url', message: 'must match format "uri"' },
+      { source: invalidUrl, path: '/urls/0/expectedStatus', message: 'must be <= 599' },
+    ]);
+
+    const malformed = await testDataManager
+      .loadFromApi(`${mockServer.url}/test-data/malformed`)
+      .catch((caught) => caught);
+    expect(malformed).toBeInstanceOf(TestDataValidationError);
+    expect((malformed as Error).message).toContain('is not valid JSON');
+    expect(testDataManager.getUrls()).toEqual(validData.urls);
+
+    logger.success('✅ API validation test passed');
+  });
+
+  test('should layer environment data, local overrides and variables over the defaults @api @test-data', async ({
+    logger,
+  }, testInfo) => {
+    allure.story('Layered Data');
+    allure.severity('critical');
+
+    const dataDir = testInfo.outputPath('data');
+    const write = (name: string, data: object): string => {
+      fs.mkdirSync(dataDir, { recursive: true });
+      fs.writeFileSync(path.join(dataDir, name), JSON.stringify(data));
+      return path.relative(process.cwd(), path.join(dataDir, name));
+    };
+    const defaultFile = write('default.json', validData);
+    const qaFile = write('qa.json', {
+      users: [
+        { id: 'user1', email: 'qa-user1@example.com' },
+        { ...validData.users[0], id: 'qa-user', username: 'qauser' },
+      ],
+      environments: [{ name: 'staging', features: ['basic', 'search'] }],
+    });
+    const localFile = write('local.json', { urls: [{ id: 'example-home', timeout: 60000 }] });
+
+    const manager = new TestDataManager('qa', {
+      dataDir,
+      env: {
+        'TEST_DATA__urls__example-home__expectedStatus': '204',
+        TEST_DATA__users__admin1__profile__preferences__newsletter: 'false',
+        UNRELATED_VARIABLE: 'ignored',
+      },
+    });
+    await manager.initialize();
+
+    logger.step('Checking merged values');
+    const user = manager.getUserById('user1');
+    expect(user?.email).toBe('qa-user1@example.com');
+    expect(user?.username).toBe(validData.users[0].username);
+    expect(manager.getUsers().map((candidate) => candidate.id)).toEqual([
+      'user1',
+      'admin1',
+      'qa-user',
+    ]);
+    expect(manager.getEnvironment('staging')?.features).toEqual(['basic', 'search']);
+    expect(manager.getEnvironment('staging')?.apiUrl).toBe(validData.environments[0].apiUrl);
+    expect(manager.getUrlById('example-home')).toMatchObject({
+      timeout: 60000,
+      expectedStatus: 204,
+    });
+    expect(manager.getUserById('admin1')?.profile.preferences.newsletter).toBe(false);
+
+    logger.step('Checking where every value came from');
+    expect(manager.getValueSource('/users/0/email')).toBe(qaFile);
+    expect(manager.getValueSource('/users/0/username')).toBe(defaultFile);
+    expect(manager.getValueSource('/users/2/profile/address/city')).toBe(qaFile);
+    expect(manager.getValueSource('/environments/0/features/1')).toBe(qaFile);
+    expect(manager.getValueSource('/urls/0/timeout')).toBe(localFile);
+    expect(manager.getValueSource('/urls/0/expectedStatus')).toBe(
+      'env:TEST_DATA__urls__example-home__expectedStatus'
+    );
+    expect(manager.getProvenance()['/users/1/profile/preferences/theme']).toBe(defaultFile);
+
+    logger.success('✅ Layered data test passed');
+  });
+
+  test('should attribute invalid values to the layer that set them @api @test-data', async ({
+    logger,
+  }, testInfo) => {
+    allure.story('Layered Data');
+    allure.severity('normal');
+
+    const dataDir = testInfo.outputPath('data');
+    fs.mkdirSync(dataDir, { recursive: true });
+    fs.writeFileSync(path.join(dataDir, 'default.json'), JSON.stringify(validData));
+    fs.writeFileSync(
+      path.join(dataDir, 'qa.json'),
+      JSON.stringify({ users: [{ id: 'user1', role: 'owner' }] })
+    );
+
+    const manager = new TestDataManager('qa', {
+      dataDir,
+      env: { 'TEST_DATA__urls__automation-practice__timeout': '-1' },
+    });
+    const error = await manager.initialize().catch((caught) => caught);
+
+    expect((error as TestDataValidationError).issues).toEqual([
+      {
+        source: path.relative(process.cwd(), path.join(dataDir, 'qa.json')),
+        path: '/users/0/role',
+        message: 'must be equal to one of the allowed values',
+      },
+      {
+        source: 'env:TEST_DATA__urls__automation-practice__timeout',
+        path: '/urls/1/timeout',
+        message: 'must be >= 0',
+      },
+    ]);
+
+    const unknownItem = await new TestDataManager('qa', {
+      dataDir,
+      env: { TEST_DATA__urls__missing__timeout: '5' },
+    })
+      .initialize()
+      .catch((caught) => caught);
+    expect((unknownItem as Error).message).toContain("no item with id or name 'missing' at /urls");
+
+    logger.success('✅ Layer attribution test passed');
+  });
+});
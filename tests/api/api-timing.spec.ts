@@ -0,0 +1,108 @@
+import { test, expect } from '../../src/fixtures/base-fixtures';
+import { syntheticResponse } from '../../src/utils/interceptors';
+import { RequestTimer } from '../../src/utils/request-timing';
+import { allure } from 'allure-playwright';
+
+test.describe('API Timing Tests', () => {
+  test.use({
+    apiConfig: { timeout: 30000, retries: 0 },
+    mockApi: {
+      routes: [
+        {
+          method: 'GET',
+          path: '/posts/{id}',
+          response: (request) => ({
+            body: { id: Number(request.params['id']), body: 'x'.repeat(2000) },
+          }),
+        },
+        {
+          method: 'GET',
+          path: '/reports/slow',
+          response: { body: { ready: true }, delay: 300 },
+        },
+      ],
+    },
+  });
+
+  test.beforeEach(async () => {
+    allure.feature('API Timing');
+  });
+
+  test('should record a timing breakdown and byte sizes on each response @api @performance', async ({
+    apiClient,
+    logger,
+  }) => {
+    allure.story('Timing Breakdown');
+    allure.severity('critical');
+
+    logger.step('Measuring a first call and a call on the kept-alive socket');
+
+    const first = await apiClient.get('/posts/1');
+    const second = await apiClient.get('/posts/2');
+
+    for (const response of [first, second]) {
+      const timings = response.timings as NonNullable<typeof response.timings>;
+      expect(Object.values(timings).every((value) => value >= 0)).toBe(true);
+      expect(timings.total).toBeGreaterThanOrEqual(timings.ttfb + timings.download - 0.01);
+      expect(response.sizes?.requestBytes).toBeGreaterThan('GET /posts/1 HTTP/1.1'.length);
+      expect(response.sizes?.responseBytes).toBeGreaterThan(2000);
+    }
+    expect(second.timings?.dns).toBe(0);
+    expect(second.timings?.connect).toBe(0);
+    expect(second.timings?.tls).toBe(0);
+
+    logger.success('✅ Timing breakdown test passed');
+  });
+
+  test('should measure concurrent calls independently @api @performance', async ({
+    apiClient,
+    logger,
+  }) => {
+    allure.story('Concurrent Calls');
+    allure.severity('normal');
+
+    const [slow, fast] = await Promise.all([
+      apiClient.get('/reports/slow'),
+      apiClient.get('/posts/3'),
+    ]);
+
+    expect(slow.timings?.ttfb).toBeGreaterThanOrEqual(250);
+    expect(fast.timings?.total).toBeLessThan(250);
+
+    const synthetic = await apiClient.get('/posts/4', {
+      interceptors: { request: [() => syntheticResponse(200, { id: 4 })] },
+    });
+    expect(synthetic.timings).toBeUndefined();
+
+    logger.success('✅ Concurrent timing test passed');
+  });
+
+  test('should aggregate timings per endpoint for the report @api @performance', async ({
+    apiClient,
+    logger,
+  }) => {
+    allure.story('Endpoint Aggregation');
+    allure.severity('normal');
+
+    await apiClient.get('/posts/1');
+    await apiClient.get('/posts/2');
+    await apiClient.get('/reports/slow');
+
+    const calls = RequestTimer.fromCalls(apiClient.getCalls());
+    expect(calls.map((call) => `${call.method} ${call.endpoint}`)).toEqual([
+      'GET /posts/{id}',
+      'GET /posts/{id}',
+      'GET /reports/slow',
+    ]);
+
+    const [slowest, posts] = RequestTimer.summarize(calls);
+    expect(slowest?.endpoint).toBe('GET /reports/slow');
+    expect(posts).toMatchObject({ endpoint: 'GET /posts/{id}', calls: 2 });
+    expect(posts?.responseBytes.total).toBe(
+      calls.slice(0, 2).reduce((total, call) => total + call.sizes.responseBytes, 0)
+    );
+    expect(posts?.p95.total).toBeGreaterThanOrEqual(posts?.average.total as number);
+
+    logger.success('✅ Endpoint aggregation test passed');
+  });
+});
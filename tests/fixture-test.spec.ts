@@ -1,4 +1,6 @@
 import { test, expect } from '../src/fixtures/base-fixtures';
+import type { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
 
 test.describe('Fixture Test', () => {
   test('should have access to all fixtures', async ({
@@ -28,3 +30,92 @@ test.describe('Fixture Test', () => {
     logger.info('Test completed successfully');
   });
 });
+
+test.describe('Session Sharing Fixture Test', () => {
+  test.use({
+    shareApiSession: true,
+    mockApi: {
+      routes: [
+        {
+          method: 'POST',
+          path: '/login',
+          response: {
+            headers: { 'Set-Cookie': 'session=abc123; Path=/' },
+            body: { token: 'jwt-token' },
+          },
+        },
+        {
+          method: 'GET',
+          path: '/me',
+          response: (request) =>
+            /session=abc123/.test(request.headers['cookie'] || '')
+              ? { body: { user: 'testuser' } }
+              : { status: 401, body: { error: 'not logged in' } },
+        },
+      ],
+    },
+  });
+
+  test('should share the API login session with the browser', async ({
+    page,
+    context,
+    apiClient,
+    mockServer,
+    session,
+  }) => {
+    // Logging in through the API logs in the browser
+    await session.loginViaApi(
+      '/login',
+      { username: 'testuser', password: 'secret' },
+      { tokenPath: 'token', storageKey: 'authToken' }
+    );
+    expect((await context.cookies()).map((cookie) => cookie.name)).toContain('session');
+
+    await page.goto(`${mockServer.url}/me`);
+    await expect(page.locator('body')).toContainText('testuser');
+    expect(await page.evaluate(() => window.localStorage.getItem('authToken'))).toBe('jwt-token');
+
+    // Cookies set in the browser are sent by the API client
+    await context.addCookies([{ name: 'theme', value: 'dark', url: mockServer.url }]);
+    await apiClient.get('/me');
+    expect(mockServer.lastCall('GET', '/me')?.headers['cookie']).toContain('theme=dark');
+  });
+
+  test('should share the cookie jar through the shared API client', async ({
+    page,
+    sharedApiClient,
+    mockServer,
+  }) => {
+    await sharedApiClient.post('/login', { username: 'testuser', password: 'secret' });
+
+    await page.goto(`${mockServer.url}/me`);
+    await expect(page.locator('body')).toContainText('testuser');
+  });
+});
+
+test.describe('Realtime Fixture Test', () => {
+  test('should record the WebSocket frames a page exchanges', async ({ page, realtimeClient }) => {
+    const server = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+    server.on('connection', (socket) =>
+      socket.on('message', (data) => socket.send(`echo: ${data}`))
+    );
+    await new Promise((resolve) => server.once('listening', resolve));
+
+    try {
+      realtimeClient.observePage(page);
+      await page.evaluate(
+        (url) => {
+          const socket = new WebSocket(url);
+          socket.onopen = () => socket.send('hello');
+        },
+        `ws://127.0.0.1:${(server.address() as AddressInfo).port}/chat`
+      );
+
+      const socket = await realtimeClient.waitForPageSocket('/chat');
+      expect(await socket.waitForMessage()).toBe('echo: hello');
+      expect(socket.frames.map((frame) => frame.direction)).toEqual(['sent', 'received']);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});